@@ -1,10 +1,78 @@
 // Routes messages to appropriate handlers
 
+import {
+  deleteItem,
+  findDuplicateClusters,
+  findDuplicateItems,
+  itemFingerprint,
+  listItems,
+  mergeItems,
+  saveItem,
+  setItemFingerprint,
+  type DuplicateMatch,
+  type DuplicateSettings,
+} from '../lib/idb/items';
+import { deletePreset, listPresets, savePreset } from '../lib/idb/presets';
+import {
+  generateId,
+  type Item,
+  type TransformPreset,
+  type TransformStep,
+} from '../lib/idb/models';
+import type { TextFingerprint } from '../lib/text/fingerprint';
+import { rehydrate, type RedactionEntry } from '../lib/text/redaction';
+import type { PoolProgressPayload } from '../lib/workers/protocol';
+import type {
+  RequestPriority,
+  WorkerKind,
+  WorkerPoolSettings,
+  WorkerPoolStats,
+} from '../lib/workers/workerPool';
+import type { CacheSettings, CacheStats } from '../lib/workers/resultCache';
+import type { WorkerReply } from '../lib/workers/workerClient';
+import {
+  getCacheSettings,
+  getDuplicateSettings,
+  getWorkerPoolSettings,
+  saveCacheSettings,
+  saveDuplicateSettings,
+  saveWorkerPoolSettings,
+  sendToOffscreen,
+} from './offscreenHost';
+
 interface Message {
   action: string;
   payload?: unknown;
 }
 
+interface RedactionMap {
+  entries: RedactionEntry[];
+  createdAt: number;
+}
+
+// Redaction mappings hold the original personal data, so they stay in
+// chrome.storage.local only (never IndexedDB history or sync storage)
+const REDACTION_MAPS_KEY = 'redactionMaps';
+const MAX_REDACTION_MAPS = 20;
+
+interface RunWorkerPayload {
+  requestId: string;
+  worker: WorkerKind;
+  type: string;
+  payload: unknown;
+  priority?: RequestPriority;
+  timeoutMs?: number;
+}
+
+// What saveItem does when near-duplicates are found: return them without
+// saving, save anyway, or fold the new item into the closest match
+type DuplicateAction = 'ask' | 'save' | 'merge';
+
+interface SaveItemPayload {
+  item: Item;
+  onDuplicate?: DuplicateAction;
+}
+
 interface Sender {
   tab?: chrome.tabs.Tab;
   url?: string;
@@ -42,6 +110,84 @@ export async function actionRouter(
     case 'openDashboard':
       return handleOpenDashboard();
 
+    case 'listPresets':
+      return handleListPresets();
+
+    case 'savePreset':
+      return handleSavePreset(
+        payload as { name: string; steps: TransformStep[]; presetId?: string }
+      );
+
+    case 'deletePreset':
+      return handleDeletePreset(payload as { presetId: string });
+
+    case 'saveItem':
+      return handleSaveItem(payload as SaveItemPayload);
+
+    case 'deleteItem':
+      return handleDeleteItem(payload as { itemId: string });
+
+    case 'findDuplicates':
+      return handleFindDuplicates(
+        payload as { text: string; excludeItemId?: string; threshold?: number }
+      );
+
+    case 'listDuplicateClusters':
+      return handleListDuplicateClusters(
+        (payload ?? {}) as { threshold?: number }
+      );
+
+    case 'mergeItems':
+      return handleMergeItems(
+        payload as { keepItemId: string; itemIds: string[] }
+      );
+
+    case 'getDuplicateSettings':
+      return handleGetDuplicateSettings();
+
+    case 'updateDuplicateSettings':
+      return handleUpdateDuplicateSettings(
+        payload as Partial<DuplicateSettings>
+      );
+
+    case 'saveRedactionMap':
+      return handleSaveRedactionMap(payload as { entries: RedactionEntry[] });
+
+    case 'rehydrateText':
+      return handleRehydrateText(payload as { mapId: string; text: string });
+
+    case 'clearRedactionMaps':
+      return handleClearRedactionMaps();
+
+    case 'runWorker':
+      return handleRunWorker(payload as RunWorkerPayload, sender);
+
+    case 'cancelWorker':
+      return handleCancelWorker(payload as { requestId: string }, sender);
+
+    case 'workerProgress':
+      return handleWorkerProgress(payload as PoolProgressPayload, sender);
+
+    case 'getWorkerPoolSettings':
+      return handleGetWorkerPoolSettings();
+
+    case 'updateWorkerPoolSettings':
+      return handleUpdateWorkerPoolSettings(
+        payload as Partial<WorkerPoolSettings>
+      );
+
+    case 'getWorkerPoolStats':
+      return handleGetWorkerPoolStats();
+
+    case 'getCacheStats':
+      return handleGetCacheStats();
+
+    case 'updateCacheSettings':
+      return handleUpdateCacheSettings(payload as Partial<CacheSettings>);
+
+    case 'clearResultCache':
+      return handleClearResultCache();
+
     default:
       throw new Error(`Unknown action: ${action}`);
   }
@@ -183,3 +329,268 @@ async function handleOpenDashboard(): Promise<{ success: boolean }> {
   await chrome.tabs.create({ url: 'dashboard.html' });
   return { success: true };
 }
+
+async function handleListPresets(): Promise<{ presets: TransformPreset[] }> {
+  return { presets: await listPresets() };
+}
+
+async function handleSavePreset(payload: {
+  name: string;
+  steps: TransformStep[];
+  presetId?: string;
+}): Promise<{ preset: TransformPreset }> {
+  const { name, steps, presetId } = payload;
+  return { preset: await savePreset(name, steps, presetId) };
+}
+
+async function handleDeletePreset(payload: {
+  presetId: string;
+}): Promise<{ success: boolean }> {
+  await deletePreset(payload.presetId);
+  return { success: true };
+}
+
+// Fingerprints come from the NLP worker in the offscreen document, like every
+// other text analysis
+async function fingerprintText(
+  text: string,
+  priority: RequestPriority = 'interactive'
+): Promise<TextFingerprint> {
+  const { result } = await sendToOffscreen<WorkerReply<TextFingerprint>>({
+    target: 'offscreen',
+    kind: 'run',
+    requestId: generateId('fingerprint'),
+    worker: 'nlp',
+    type: 'fingerprint',
+    payload: { text },
+    priority,
+    settings: await getWorkerPoolSettings(),
+    cache: await getCacheSettings(),
+  });
+  return result;
+}
+
+// `item` is null when near-duplicates were found and the caller asked first;
+// after a merge it is the item the new one was folded into
+async function handleSaveItem(
+  payload: SaveItemPayload
+): Promise<{ item: Item | null; duplicates: DuplicateMatch[] }> {
+  const { onDuplicate = 'ask' } = payload;
+  const fingerprint = await fingerprintText(payload.item.content);
+  const item: Item = {
+    ...payload.item,
+    meta: { ...payload.item.meta, fingerprint },
+  };
+
+  const settings = await getDuplicateSettings();
+  const duplicates = settings.enabled
+    ? await findDuplicateItems(fingerprint, {
+        threshold: settings.threshold,
+        excludeItemId: item.itemId,
+      })
+    : [];
+  if (duplicates.length > 0 && onDuplicate === 'ask') {
+    return { item: null, duplicates };
+  }
+
+  const saved = await saveItem(item);
+  if (duplicates.length > 0 && onDuplicate === 'merge') {
+    const merged = await mergeItems(duplicates[0].item.itemId, [saved.itemId]);
+    return { item: merged, duplicates };
+  }
+  return { item: saved, duplicates };
+}
+
+async function handleDeleteItem(payload: {
+  itemId: string;
+}): Promise<{ success: boolean }> {
+  await deleteItem(payload.itemId);
+  return { success: true };
+}
+
+async function handleFindDuplicates(payload: {
+  text: string;
+  excludeItemId?: string;
+  threshold?: number;
+}): Promise<{ duplicates: DuplicateMatch[] }> {
+  const fingerprint = await fingerprintText(payload.text);
+  const threshold =
+    payload.threshold ?? (await getDuplicateSettings()).threshold;
+  return {
+    duplicates: await findDuplicateItems(fingerprint, {
+      threshold,
+      excludeItemId: payload.excludeItemId,
+    }),
+  };
+}
+
+// For the dashboard's duplicates view. Items saved before fingerprinting (or
+// with an older fingerprint version) are fingerprinted first.
+async function handleListDuplicateClusters(payload: {
+  threshold?: number;
+}): Promise<{ clusters: Item[][] }> {
+  for (const item of await listItems()) {
+    if (!itemFingerprint(item)) {
+      const fingerprint = await fingerprintText(item.content, 'background');
+      await setItemFingerprint(item.itemId, fingerprint);
+    }
+  }
+
+  const threshold =
+    payload.threshold ?? (await getDuplicateSettings()).threshold;
+  return { clusters: await findDuplicateClusters(threshold) };
+}
+
+async function handleMergeItems(payload: {
+  keepItemId: string;
+  itemIds: string[];
+}): Promise<{ item: Item }> {
+  return { item: await mergeItems(payload.keepItemId, payload.itemIds) };
+}
+
+async function handleGetDuplicateSettings(): Promise<{
+  settings: DuplicateSettings;
+}> {
+  return { settings: await getDuplicateSettings() };
+}
+
+async function handleUpdateDuplicateSettings(
+  updates: Partial<DuplicateSettings>
+): Promise<{ settings: DuplicateSettings }> {
+  if (
+    updates.threshold !== undefined &&
+    !(updates.threshold > 0 && updates.threshold <= 1)
+  ) {
+    throw new Error(`Invalid duplicate threshold: ${updates.threshold}`);
+  }
+  return { settings: await saveDuplicateSettings(updates) };
+}
+
+async function handleSaveRedactionMap(payload: {
+  entries: RedactionEntry[];
+}): Promise<{ mapId: string }> {
+  const stored = await chrome.storage.local.get(REDACTION_MAPS_KEY);
+  const maps: Record<string, RedactionMap> = stored[REDACTION_MAPS_KEY] || {};
+  const mapId = generateId('redaction');
+  maps[mapId] = { entries: payload.entries, createdAt: Date.now() };
+
+  // Keep only the most recent mappings
+  const kept = Object.entries(maps)
+    .sort((a, b) => b[1].createdAt - a[1].createdAt)
+    .slice(0, MAX_REDACTION_MAPS);
+
+  await chrome.storage.local.set({
+    [REDACTION_MAPS_KEY]: Object.fromEntries(kept),
+  });
+  return { mapId };
+}
+
+async function handleRehydrateText(payload: {
+  mapId: string;
+  text: string;
+}): Promise<{ text: string }> {
+  const stored = await chrome.storage.local.get(REDACTION_MAPS_KEY);
+  const map: RedactionMap | undefined =
+    stored[REDACTION_MAPS_KEY]?.[payload.mapId];
+
+  if (!map) {
+    throw new Error('Redaction mapping not found');
+  }
+
+  return { text: rehydrate(payload.text, map.entries) };
+}
+
+async function handleClearRedactionMaps(): Promise<{ success: boolean }> {
+  await chrome.storage.local.remove(REDACTION_MAPS_KEY);
+  return { success: true };
+}
+
+// Content scripts cannot host the shared pool, so their requests are relayed to
+// the offscreen document; background priority is for observer analysis
+async function handleRunWorker(
+  payload: RunWorkerPayload,
+  sender: Sender
+): Promise<unknown> {
+  return sendToOffscreen({
+    target: 'offscreen',
+    kind: 'run',
+    requestId: payload.requestId,
+    tabId: sender.tab?.id,
+    worker: payload.worker,
+    type: payload.type,
+    payload: payload.payload,
+    priority: payload.priority ?? 'interactive',
+    timeoutMs: payload.timeoutMs,
+    settings: await getWorkerPoolSettings(),
+    cache: await getCacheSettings(),
+  });
+}
+
+async function handleCancelWorker(
+  payload: { requestId: string },
+  sender: Sender
+): Promise<{ success: boolean }> {
+  return sendToOffscreen({
+    target: 'offscreen',
+    kind: 'cancel',
+    requestId: payload.requestId,
+    tabId: sender.tab?.id,
+  });
+}
+
+// Progress from the offscreen document already reaches extension pages; tabs
+// only get it forwarded from here
+async function handleWorkerProgress(
+  payload: PoolProgressPayload,
+  sender: Sender
+): Promise<{ success: boolean }> {
+  if (sender.tab) {
+    throw new Error('Worker progress must come from the offscreen document');
+  }
+  if (payload.tabId !== undefined) {
+    await chrome.tabs
+      .sendMessage(payload.tabId, { action: 'workerProgress', payload })
+      .catch(() => undefined);
+  }
+  return { success: true };
+}
+
+async function handleGetWorkerPoolSettings(): Promise<{
+  settings: WorkerPoolSettings;
+}> {
+  return { settings: await getWorkerPoolSettings() };
+}
+
+async function handleUpdateWorkerPoolSettings(
+  updates: Partial<WorkerPoolSettings>
+): Promise<{ settings: WorkerPoolSettings }> {
+  const settings = await saveWorkerPoolSettings(updates);
+  await sendToOffscreen({ target: 'offscreen', kind: 'configure', settings });
+  return { settings };
+}
+
+async function handleGetWorkerPoolStats(): Promise<{ stats: WorkerPoolStats }> {
+  return sendToOffscreen({ target: 'offscreen', kind: 'stats' });
+}
+
+async function handleGetCacheStats(): Promise<{
+  stats: CacheStats;
+  settings: CacheSettings;
+}> {
+  const { stats } = await sendToOffscreen<{ stats: CacheStats }>({
+    target: 'offscreen',
+    kind: 'cacheStats',
+  });
+  return { stats, settings: await getCacheSettings() };
+}
+
+// Applied to the offscreen cache with the next request
+async function handleUpdateCacheSettings(
+  updates: Partial<CacheSettings>
+): Promise<{ settings: CacheSettings }> {
+  return { settings: await saveCacheSettings(updates) };
+}
+
+async function handleClearResultCache(): Promise<{ success: boolean }> {
+  return sendToOffscreen({ target: 'offscreen', kind: 'clearCache' });
+}
@@ -0,0 +1,115 @@
+// Offscreen document host - the service worker cannot start Web Workers, so it
+// keeps one offscreen document alive to run the shared worker pool
+
+import {
+  DEFAULT_DUPLICATE_SETTINGS,
+  type DuplicateSettings,
+} from '../lib/idb/items';
+import type { OffscreenMessage } from '../lib/workers/protocol';
+import {
+  DEFAULT_CACHE_SETTINGS,
+  type CacheSettings,
+} from '../lib/workers/resultCache';
+import {
+  DEFAULT_POOL_SETTINGS,
+  type WorkerPoolSettings,
+} from '../lib/workers/workerPool';
+
+const OFFSCREEN_URL = 'offscreen.html';
+const SETTINGS_KEY = 'extensionSettings';
+
+let creating: Promise<void> | null = null;
+
+async function hasOffscreenDocument(): Promise<boolean> {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [chrome.runtime.getURL(OFFSCREEN_URL)],
+  });
+  return contexts.length > 0;
+}
+
+export async function ensureOffscreenDocument(): Promise<void> {
+  if (await hasOffscreenDocument()) return;
+
+  // Concurrent callers share one createDocument call
+  if (!creating) {
+    creating = chrome.offscreen
+      .createDocument({
+        url: OFFSCREEN_URL,
+        reasons: [chrome.offscreen.Reason.WORKERS],
+        justification: 'Runs the shared transform and NLP worker pool',
+      })
+      .finally(() => {
+        creating = null;
+      });
+  }
+  await creating;
+}
+
+export async function sendToOffscreen<R>(
+  message: OffscreenMessage
+): Promise<R> {
+  await ensureOffscreenDocument();
+  const response = await chrome.runtime.sendMessage(message);
+  if (response?.error) {
+    throw new Error(response.error);
+  }
+  return response as R;
+}
+
+// Worker pool, result cache and duplicate settings live in
+// extensionSettings, filled in with defaults for anything missing
+type SettingsGroup = 'workerPool' | 'cache' | 'duplicates';
+
+async function readSettingsGroup<T>(
+  group: SettingsGroup,
+  defaults: T
+): Promise<T> {
+  const { [SETTINGS_KEY]: settings } =
+    await chrome.storage.local.get(SETTINGS_KEY);
+  return { ...defaults, ...settings?.[group] };
+}
+
+async function saveSettingsGroup<T>(
+  group: SettingsGroup,
+  defaults: T,
+  updates: Partial<T>
+): Promise<T> {
+  const { [SETTINGS_KEY]: settings } =
+    await chrome.storage.local.get(SETTINGS_KEY);
+  const next = { ...defaults, ...settings?.[group], ...updates };
+  await chrome.storage.local.set({
+    [SETTINGS_KEY]: { ...settings, [group]: next },
+  });
+  return next;
+}
+
+export function getWorkerPoolSettings(): Promise<WorkerPoolSettings> {
+  return readSettingsGroup('workerPool', DEFAULT_POOL_SETTINGS);
+}
+
+export function saveWorkerPoolSettings(
+  updates: Partial<WorkerPoolSettings>
+): Promise<WorkerPoolSettings> {
+  return saveSettingsGroup('workerPool', DEFAULT_POOL_SETTINGS, updates);
+}
+
+export function getCacheSettings(): Promise<CacheSettings> {
+  return readSettingsGroup('cache', DEFAULT_CACHE_SETTINGS);
+}
+
+export function saveCacheSettings(
+  updates: Partial<CacheSettings>
+): Promise<CacheSettings> {
+  return saveSettingsGroup('cache', DEFAULT_CACHE_SETTINGS, updates);
+}
+
+export function getDuplicateSettings(): Promise<DuplicateSettings> {
+  return readSettingsGroup('duplicates', DEFAULT_DUPLICATE_SETTINGS);
+}
+
+export function saveDuplicateSettings(
+  updates: Partial<DuplicateSettings>
+): Promise<DuplicateSettings> {
+  return saveSettingsGroup('duplicates', DEFAULT_DUPLICATE_SETTINGS, updates);
+}
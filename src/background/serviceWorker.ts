@@ -1,6 +1,8 @@
 // Background service worker - handles extension lifecycle and permissions
 
 import { actionRouter } from './actionRouter';
+import { DEFAULT_POOL_SETTINGS } from '../lib/workers/workerPool';
+import { DEFAULT_CACHE_SETTINGS } from '../lib/workers/resultCache';
 
 // Storage keys
 const WHITELIST_KEY = 'siteWhitelist';
@@ -38,6 +40,8 @@ chrome.runtime.onInstalled.addListener(async details => {
       telemetryEnabled: false,
       maxCharLimit: 20000,
       retentionDays: 30,
+      workerPool: DEFAULT_POOL_SETTINGS,
+      cache: DEFAULT_CACHE_SETTINGS,
     },
   });
 });
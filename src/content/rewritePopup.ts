@@ -1,31 +1,37 @@
 // Rewrite popup UI that appears after copy event
 
-import { sanitizeHTML } from '../lib/utils/sanitizer';
+import { sanitizeHTML, sanitizeText } from '../lib/utils/sanitizer';
+import type { DiffHunk } from '../lib/text/diff';
+import type { RedactionEntry } from '../lib/text/redaction';
+import { applyLintFix, type LintFinding } from '../lib/text/styleLint';
+import type { TransformPreset } from '../lib/idb/models';
+import { settingsToSteps } from '../lib/idb/presets';
+import type {
+  TransformResult,
+  TransformSettings,
+  TransformVariant,
+  WorkerProgress,
+} from '../lib/workers/protocol';
+import {
+  createPooledNLPClient,
+  createPooledTransformClient,
+} from '../lib/workers/pooledClient';
+import type { CacheSource } from '../lib/workers/resultCache';
 
 interface Position {
   x: number;
   y: number;
 }
 
-interface RewriteSettings {
-  length?: 'short' | 'medium' | 'long' | 'custom';
-  tone?: string;
-  style?: string;
-}
+type RewriteSettings = TransformSettings;
 
 let currentPopup: HTMLElement | null = null;
 let currentText = '';
-let transformWorker: Worker | null = null;
+let presets: TransformPreset[] = [];
 
-function getOrCreateWorker(): Worker {
-  if (!transformWorker) {
-    transformWorker = new Worker(
-      chrome.runtime.getURL('transformWorker.js'),
-      { type: 'module' }
-    );
-  }
-  return transformWorker;
-}
+// Requests run on the shared worker pool in the extension's offscreen document
+const transformClient = createPooledTransformClient();
+const nlpClient = createPooledNLPClient();
 
 export function showRewritePopup(text: string, position: Position) {
   // Remove any existing popup
@@ -56,7 +62,21 @@ export function showRewritePopup(text: string, position: Position) {
 
   popup.innerHTML = `
     <div style="margin-bottom: 12px; font-weight: 600;">Transform Text</div>
+
+    <div style="margin-bottom: 8px;">
+      <label style="display: block; margin-bottom: 4px;">Preset:</label>
+      <div style="display: flex; gap: 4px;">
+        <select id="preset-select" style="flex: 1; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
+          <option value="">Custom (use options below)</option>
+        </select>
+        <button id="save-preset-btn" title="Save options below as a preset" style="padding: 6px 10px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Save</button>
+      </div>
+    </div>
     
+    <div style="margin-bottom: 8px;">
+      <label style="font-size: 13px;"><input type="checkbox" id="proofread-check"> Proofread first (doubled words, a/an, capitals, spacing)</label>
+    </div>
+
     <div style="margin-bottom: 8px;">
       <label style="display: block; margin-bottom: 4px;">Length:</label>
       <select id="length-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
@@ -74,9 +94,10 @@ export function showRewritePopup(text: string, position: Position) {
         <option value="casual">Casual</option>
         <option value="professional">Professional</option>
       </select>
+      <div id="tone-detected" style="display: none; margin-top: 4px; font-size: 12px; color: #666;"></div>
     </div>
     
-    <div style="margin-bottom: 12px;">
+    <div style="margin-bottom: 8px;">
       <label style="display: block; margin-bottom: 4px;">Style:</label>
       <select id="style-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
         <option value="">None</option>
@@ -85,24 +106,102 @@ export function showRewritePopup(text: string, position: Position) {
         <option value="technical">Technical</option>
       </select>
     </div>
+
+    <div style="margin-bottom: 8px;">
+      <label style="display: block; margin-bottom: 4px;">Reading level:</label>
+      <select id="reading-level-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
+        <option value="">None</option>
+        <option value="6">Grade 6</option>
+        <option value="8">Grade 8</option>
+        <option value="10">Grade 10</option>
+        <option value="12">Grade 12</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 8px;">
+      <label style="display: block; margin-bottom: 4px;">Regional English:</label>
+      <select id="dialect-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
+        <option value="">None</option>
+        <option value="en-US">American (en-US)</option>
+        <option value="en-GB">British (en-GB)</option>
+        <option value="en-AU">Australian (en-AU)</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 8px;">
+      <label style="display: block; margin-bottom: 4px;">Format:</label>
+      <select id="format-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
+        <option value="">None</option>
+        <option value="bullets">Bullet list</option>
+        <option value="numbered">Numbered list</option>
+        <option value="paragraph">Bullets → paragraph</option>
+        <option value="titleCase">Title Case</option>
+        <option value="sentenceCase">Sentence case</option>
+        <option value="table">Key: value → table</option>
+        <option value="csv">Delimited → CSV</option>
+        <option value="json">Delimited → JSON</option>
+        <option value="whitespace">Normalize whitespace</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 8px;">
+      <label style="display: block; margin-bottom: 4px;">Redact personal data:</label>
+      <select id="redact-select" style="width: 100%; padding: 6px; border: 1px solid #ddd; border-radius: 4px;">
+        <option value="">None</option>
+        <option value="mask">Mask (****)</option>
+        <option value="placeholder">Placeholders ([EMAIL_1])</option>
+        <option value="pseudonym">Pseudonyms</option>
+      </select>
+    </div>
+
+    <div style="margin-bottom: 12px;">
+      <label style="display: block; margin-bottom: 4px;">Instructions (optional):</label>
+      <textarea id="prompt-input" placeholder='replace "foo" with "bar"&#10;remove sentences containing "TBD"&#10;max 50 words' style="width: 100%; min-height: 48px; padding: 6px; border: 1px solid #ddd; border-radius: 4px; font-size: 12px; font-family: monospace; resize: vertical;"></textarea>
+    </div>
     
     <div style="display: flex; gap: 8px;">
       <button id="transform-btn" style="flex: 1; padding: 8px; background: #4285f4; color: white; border: none; border-radius: 4px; cursor: pointer;">Transform</button>
+      <button id="variants-btn" title="Compare ranked alternatives" style="padding: 8px 12px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Alternatives</button>
+      <button id="lint-btn" title="Check the selection for style issues" style="padding: 8px 12px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Check</button>
+      <button id="cancel-btn" style="display: none; padding: 8px 16px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Cancel</button>
       <button id="close-btn" style="padding: 8px 16px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Close</button>
     </div>
+
+    <div id="progress-container" style="display: none; margin-top: 8px;">
+      <div style="height: 6px; background: #f1f3f4; border-radius: 3px; overflow: hidden;">
+        <div id="progress-bar" style="width: 0%; height: 100%; background: #4285f4; transition: width 0.1s;"></div>
+      </div>
+      <div id="progress-label" style="margin-top: 4px; font-size: 12px; color: #666;"></div>
+      <div id="progress-preview" style="max-height: 80px; overflow-y: auto; margin-top: 4px; padding: 6px; background: #f8f9fa; border-radius: 4px; font-size: 12px; color: #666; white-space: pre-wrap;"></div>
+    </div>
     
+    <div id="lint-container" style="display: none; margin-top: 12px;"></div>
+
+    <div id="variants-container" style="display: none; margin-top: 12px;"></div>
+
     <div id="result-container" style="display: none; margin-top: 12px; padding-top: 12px; border-top: 1px solid #ddd;"></div>
   `;
 
   // Add event listeners
   popup.querySelector('#transform-btn')!.addEventListener('click', async () => {
-    const settings: RewriteSettings = {
-      length: (popup.querySelector('#length-select') as HTMLSelectElement).value as any,
-      tone: (popup.querySelector('#tone-select') as HTMLSelectElement).value || undefined,
-      style: (popup.querySelector('#style-select') as HTMLSelectElement).value || undefined,
-    };
+    await transformText(popup, readSelectedSettings(popup));
+  });
+
+  popup.querySelector('#variants-btn')!.addEventListener('click', async () => {
+    await showAlternatives(popup, readSelectedSettings(popup));
+  });
+
+  popup.querySelector('#lint-btn')!.addEventListener('click', async () => {
+    await checkStyle(popup);
+  });
+
+  // A tone the user picked is never replaced by the suggestion
+  popup.querySelector('#tone-select')!.addEventListener('change', event => {
+    (event.target as HTMLElement).dataset.touched = 'true';
+  });
 
-    await transformText(popup, settings);
+  popup.querySelector('#save-preset-btn')!.addEventListener('click', () => {
+    savePresetFromFields(popup);
   });
 
   popup.querySelector('#close-btn')!.addEventListener('click', () => {
@@ -112,58 +211,369 @@ export function showRewritePopup(text: string, position: Position) {
 
   document.body.appendChild(popup);
   currentPopup = popup;
+
+  loadPresets(popup);
+  detectTone(popup);
 }
 
-async function transformText(popup: HTMLElement, settings: RewriteSettings) {
-  const btn = popup.querySelector('#transform-btn') as HTMLButtonElement;
-  btn.disabled = true;
-  btn.textContent = 'Transforming...';
+// A selected preset wins over the individual fields
+function readSelectedSettings(popup: HTMLElement): RewriteSettings {
+  const presetId = (popup.querySelector('#preset-select') as HTMLSelectElement)
+    .value;
+  const preset = presets.find(p => p.presetId === presetId);
+  return preset ? { steps: preset.steps } : readFieldSettings(popup);
+}
+
+function readFieldSettings(popup: HTMLElement): RewriteSettings {
+  return {
+    proofread: (popup.querySelector('#proofread-check') as HTMLInputElement).checked || undefined,
+    length: (popup.querySelector('#length-select') as HTMLSelectElement)
+      .value as RewriteSettings['length'],
+    tone: (popup.querySelector('#tone-select') as HTMLSelectElement).value || undefined,
+    style: (popup.querySelector('#style-select') as HTMLSelectElement).value || undefined,
+    readingLevel: Number((popup.querySelector('#reading-level-select') as HTMLSelectElement).value) || undefined,
+    dialect: ((popup.querySelector('#dialect-select') as HTMLSelectElement).value ||
+      undefined) as RewriteSettings['dialect'],
+    format: (popup.querySelector('#format-select') as HTMLSelectElement).value || undefined,
+    prompt: (popup.querySelector('#prompt-input') as HTMLTextAreaElement).value.trim() || undefined,
+    redact: ((popup.querySelector('#redact-select') as HTMLSelectElement).value ||
+      undefined) as RewriteSettings['redact'],
+  };
+}
 
+function renderPresetOptions(popup: HTMLElement, selectedId = '') {
+  const select = popup.querySelector('#preset-select') as HTMLSelectElement;
+  select.innerHTML =
+    '<option value="">Custom (use options below)</option>' +
+    presets
+      .map(
+        preset =>
+          `<option value="${sanitizeHTML(preset.presetId)}">${sanitizeHTML(preset.name)}</option>`
+      )
+      .join('');
+  select.value = selectedId;
+}
+
+// Presets live in the extension's IndexedDB, so go through the service worker
+async function loadPresets(popup: HTMLElement) {
   try {
-    const worker = getOrCreateWorker();
-    const requestId = `transform_${Date.now()}`;
-
-    const result = await new Promise<any>((resolve, reject) => {
-      const timeout = setTimeout(() => reject(new Error('Timeout')), 5000);
-
-      worker.onmessage = (event) => {
-        if (event.data.id === requestId) {
-          clearTimeout(timeout);
-          resolve(event.data);
-        }
-      };
-
-      worker.postMessage({
-        id: requestId,
-        type: 'transform',
-        payload: {
-          text: currentText,
-          settings,
-        },
-      });
+    const response = await chrome.runtime.sendMessage({ action: 'listPresets' });
+    if (response?.error) throw new Error(response.error);
+    presets = response?.presets || [];
+    renderPresetOptions(popup);
+  } catch (error) {
+    console.error('Failed to load presets:', error);
+  }
+}
+
+async function savePresetFromFields(popup: HTMLElement) {
+  const steps = settingsToSteps(readFieldSettings(popup));
+  const name = prompt('Preset name:');
+  if (!name) return;
+
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'savePreset',
+      payload: { name, steps },
     });
+    if (response?.error) throw new Error(response.error);
+    presets = [...presets, response.preset];
+    renderPresetOptions(popup, response.preset.presetId);
+  } catch (error) {
+    showError(popup, error instanceof Error ? error.message : 'Failed to save preset');
+  }
+}
 
-    if (result.status === 'ok') {
-      showResult(popup, result.result);
-    } else {
-      showError(popup, result.error || 'Transform failed');
-    }
+// Idle time allowed between worker messages; progress resets the clock
+const IDLE_TIMEOUT_MS = 5000;
+
+function showProgress(popup: HTMLElement, progress: WorkerProgress | null) {
+  const container = popup.querySelector('#progress-container') as HTMLElement;
+  if (!progress) {
+    container.style.display = 'none';
+    return;
+  }
+
+  container.style.display = 'block';
+  const percent = Math.round(progress.fraction * 100);
+  (popup.querySelector('#progress-bar') as HTMLElement).style.width = `${percent}%`;
+  (popup.querySelector('#progress-label') as HTMLElement).textContent =
+    `${progress.step} (${progress.stepIndex + 1}/${progress.stepCount}) · ${percent}%`;
+  // textContent keeps the partial result inert
+  (popup.querySelector('#progress-preview') as HTMLElement).textContent =
+    progress.partial ?? '';
+}
+
+// Run one worker request with the progress bar and Cancel button wired up
+async function runCancellable(
+  popup: HTMLElement,
+  btn: HTMLButtonElement,
+  busyLabel: string,
+  run: (options: {
+    signal: AbortSignal;
+    onProgress: (progress: WorkerProgress) => void;
+  }) => Promise<void>
+) {
+  const idleLabel = btn.textContent;
+  const cancelBtn = popup.querySelector('#cancel-btn') as HTMLButtonElement;
+  btn.disabled = true;
+  btn.textContent = busyLabel;
+
+  const controller = new AbortController();
+  cancelBtn.style.display = 'block';
+  cancelBtn.onclick = () => controller.abort();
+  showProgress(popup, null);
+
+  try {
+    await run({
+      signal: controller.signal,
+      onProgress: progress => showProgress(popup, progress),
+    });
   } catch (error) {
     showError(popup, error instanceof Error ? error.message : 'Unknown error');
   } finally {
     btn.disabled = false;
-    btn.textContent = 'Transform';
+    btn.textContent = idleLabel;
+    cancelBtn.style.display = 'none';
+    cancelBtn.onclick = null;
+    showProgress(popup, null);
+  }
+}
+
+async function transformText(popup: HTMLElement, settings: RewriteSettings) {
+  const btn = popup.querySelector('#transform-btn') as HTMLButtonElement;
+
+  await runCancellable(popup, btn, 'Transforming...', async ({ signal, onProgress }) => {
+    const reply = await transformClient.request(
+      'transform',
+      { text: currentText, settings },
+      { priority: 'interactive', timeoutMs: IDLE_TIMEOUT_MS, signal, onProgress }
+    );
+    (popup.querySelector('#variants-container') as HTMLElement).style.display = 'none';
+    showResult(popup, reply.result, reply.elapsedMs, reply.cached);
+  });
+}
+
+async function showAlternatives(popup: HTMLElement, settings: RewriteSettings) {
+  const btn = popup.querySelector('#variants-btn') as HTMLButtonElement;
+
+  await runCancellable(popup, btn, 'Ranking...', async ({ signal, onProgress }) => {
+    const reply = await transformClient.request(
+      'variants',
+      { text: currentText, settings },
+      { priority: 'interactive', timeoutMs: IDLE_TIMEOUT_MS, signal, onProgress }
+    );
+    renderVariantCards(popup, reply.result.variants, reply.elapsedMs, reply.cached);
+  });
+}
+
+async function checkStyle(popup: HTMLElement) {
+  const btn = popup.querySelector('#lint-btn') as HTMLButtonElement;
+
+  await runCancellable(popup, btn, 'Checking...', async ({ signal, onProgress }) => {
+    const reply = await nlpClient.request(
+      'lint',
+      { text: currentText },
+      { priority: 'interactive', timeoutMs: IDLE_TIMEOUT_MS, signal, onProgress }
+    );
+    renderLintFindings(popup, reply.result.findings);
+  });
+}
+
+const TONE_LABELS: Record<string, string> = {
+  formal: 'Formal',
+  casual: 'Casual',
+  professional: 'Professional',
+};
+
+// Shows how the selection reads and pre-selects the suggested target tone
+async function detectTone(popup: HTMLElement) {
+  try {
+    const reply = await nlpClient.request(
+      'tone',
+      { text: currentText },
+      { priority: 'interactive', timeoutMs: IDLE_TIMEOUT_MS }
+    );
+    if (currentPopup !== popup) return;
+
+    const { overall, suggestedTone } = reply.result;
+    const detected = popup.querySelector('#tone-detected') as HTMLElement;
+    const suggestion = suggestedTone
+      ? ` · suggested: ${TONE_LABELS[suggestedTone] || suggestedTone}`
+      : '';
+    detected.textContent = `Detected: ${overall.sentiment}, ${overall.formalityLevel}, ${overall.urgencyLevel} urgency${suggestion}`;
+    detected.style.display = 'block';
+
+    const select = popup.querySelector('#tone-select') as HTMLSelectElement;
+    if (suggestedTone && !select.dataset.touched && select.value === '') {
+      select.value = suggestedTone;
+    }
+  } catch (error) {
+    console.error('Failed to detect tone:', error);
+  }
+}
+
+const SEVERITY_COLORS: Record<LintFinding['severity'], string> = {
+  info: '#4285f4',
+  warning: '#f9ab00',
+  error: '#ea4335',
+};
+
+// Findings on the selection; applying a fix edits the text later transforms
+// run on, then checks it again so the remaining offsets stay valid
+function renderLintFindings(popup: HTMLElement, findings: LintFinding[]) {
+  const container = popup.querySelector('#lint-container') as HTMLElement;
+  container.style.display = 'block';
+
+  if (findings.length === 0) {
+    container.innerHTML = '<div style="font-size: 12px; color: #34a853;">No style issues found.</div>';
+    return;
+  }
+
+  container.innerHTML = `
+    <div style="margin-bottom: 4px; font-size: 12px; font-weight: 600;">${findings.length} style ${findings.length === 1 ? 'issue' : 'issues'}</div>
+    <div style="max-height: 160px; overflow-y: auto;">
+      ${findings
+        .map(
+          (finding, index) => `
+        <div style="display: flex; gap: 6px; align-items: flex-start; margin-bottom: 4px; padding: 4px 6px; border-left: 3px solid ${SEVERITY_COLORS[finding.severity]}; background: #f8f9fa; font-size: 12px;">
+          <div style="flex: 1;">
+            <div><strong>${sanitizeHTML(finding.rule)}</strong> · ${sanitizeHTML(finding.message)}</div>
+            <div style="color: #666; max-height: 32px; overflow: hidden;">${sanitizeHTML(finding.text)}</div>
+          </div>
+          ${
+            finding.suggestion === undefined
+              ? ''
+              : `<button class="lint-fix" data-index="${index}" title="${finding.suggestion ? `Replace with “${sanitizeText(finding.suggestion)}”` : 'Remove'}" style="padding: 2px 8px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">${finding.suggestion ? 'Apply' : 'Remove'}</button>`
+          }
+        </div>
+      `
+        )
+        .join('')}
+    </div>
+  `;
+
+  container.querySelectorAll('.lint-fix').forEach(button => {
+    button.addEventListener('click', async () => {
+      const finding = findings[Number((button as HTMLElement).dataset.index)];
+      try {
+        currentText = applyLintFix(currentText, finding);
+      } catch (error) {
+        showError(popup, error instanceof Error ? error.message : 'Failed to apply fix');
+        return;
+      }
+      await checkStyle(popup);
+    });
+  });
+}
+
+function formatSigned(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value}`;
+}
+
+// One selectable card per variant, best first; picking one shows it in full
+function renderVariantCards(
+  popup: HTMLElement,
+  variants: TransformVariant[],
+  elapsedMs: number,
+  cached?: CacheSource
+) {
+  const container = popup.querySelector('#variants-container') as HTMLElement;
+  container.style.display = 'block';
+
+  container.innerHTML = variants
+    .map(
+      (variant, index) => `
+    <div class="variant-card" data-index="${index}" role="button" tabindex="0" style="margin-bottom: 6px; padding: 8px; border: 1px solid #ddd; border-radius: 4px; cursor: pointer;">
+      <div style="display: flex; justify-content: space-between; font-size: 12px; font-weight: 600;">
+        <span>#${variant.rank} ${sanitizeHTML(variant.label)}</span>
+        <span>${(variant.score.total * 100).toFixed(0)}</span>
+      </div>
+      <div style="margin: 2px 0 4px; font-size: 11px; color: #666;">
+        Readability ${formatSigned(variant.score.readabilityDelta)} ·
+        Length ${(variant.score.lengthRatio * 100).toFixed(0)}% (target ${(variant.score.targetLengthRatio * 100).toFixed(0)}%) ·
+        Changed ${(variant.score.changeRatio * 100).toFixed(0)}%
+      </div>
+      <div style="max-height: 54px; overflow: hidden; font-size: 12px; white-space: pre-wrap;">${sanitizeHTML(variant.result.text)}</div>
+    </div>
+  `
+    )
+    .join('');
+
+  const cards = Array.from(container.querySelectorAll('.variant-card')) as HTMLElement[];
+  const select = (index: number) => {
+    cards.forEach((card, i) => {
+      card.style.borderColor = i === index ? '#4285f4' : '#ddd';
+    });
+    showResult(popup, variants[index].result, elapsedMs, cached);
+  };
+
+  cards.forEach((card, index) => {
+    card.addEventListener('click', () => select(index));
+    card.addEventListener('keydown', event => {
+      if (event.key === 'Enter' || event.key === ' ') {
+        event.preventDefault();
+        select(index);
+      }
+    });
+  });
+
+  if (variants.length > 0) select(0);
+}
+
+// Render one side of a diff, highlighting the spans touched by each hunk
+function renderDiffHTML(
+  text: string,
+  hunks: DiffHunk[],
+  side: 'original' | 'result'
+): string {
+  const markStyle =
+    side === 'original'
+      ? 'background: #fce8e6; color: #a50e0e; text-decoration: line-through;'
+      : 'background: #e6f4ea; color: #0d652d;';
+  let html = '';
+  let cursor = 0;
+
+  for (const hunk of hunks) {
+    const start = side === 'original' ? hunk.originalStart : hunk.resultStart;
+    const end = side === 'original' ? hunk.originalEnd : hunk.resultEnd;
+    if (end === start) continue;
+
+    html += sanitizeHTML(text.slice(cursor, start));
+    html += `<mark style="${markStyle}" title="${hunk.type}">${sanitizeHTML(text.slice(start, end))}</mark>`;
+    cursor = end;
   }
+
+  return html + sanitizeHTML(text.slice(cursor));
 }
 
-function showResult(popup: HTMLElement, result: any) {
+function showResult(
+  popup: HTMLElement,
+  result: TransformResult,
+  elapsedMs: number,
+  cached?: CacheSource
+) {
   const container = popup.querySelector('#result-container') as HTMLElement;
   container.style.display = 'block';
   
   container.innerHTML = `
     <div style="margin-bottom: 8px; font-size: 12px; color: #666;">
-      Rules applied: ${result.rulesApplied.join(', ')}<br>
-      Change ratio: ${(result.changeRatio * 100).toFixed(0)}%
+      Rules applied: ${sanitizeHTML(result.rulesApplied.join(', '))}<br>
+      Change ratio: ${(result.changeRatio * 100).toFixed(0)}% (${result.diff.editDistance} words edited)<br>
+      Protected spans: ${result.protectedSpans.length}<br>
+      Redacted values: ${result.redactions.length}<br>
+      Steps: ${result.steps.map(step => sanitizeHTML(step.rule)).join(' → ') || 'none'}<br>
+      Language: ${sanitizeHTML(result.language.name)}${result.language.source === 'detected' ? ` (detected, ${Math.round(result.language.confidence * 100)}% confidence)` : ''}<br>
+      ${result.declined.map(step => `<span style="color: #b06000;">Skipped ${sanitizeHTML(step.rule)}: ${sanitizeHTML(step.reason)}</span><br>`).join('')}
+      ${result.readability ? `Reading level: grade ${result.readability.before.grade} → ${result.readability.after.grade} (ease ${result.readability.before.readingEase} → ${result.readability.after.readingEase})<br>` : ''}
+      Took ${elapsedMs.toFixed(0)} ms${cached ? ` (cached, ${cached})` : ''}
+    </div>
+
+    <div style="margin-bottom: 8px; font-size: 12px;">
+      <div style="color: #666; margin-bottom: 2px;">Original:</div>
+      <div id="diff-original" style="max-height: 120px; overflow-y: auto; padding: 6px; background: #f8f9fa; border-radius: 4px; white-space: pre-wrap;">${renderDiffHTML(currentText, result.diff.hunks, 'original')}</div>
+      <div style="color: #666; margin: 6px 0 2px;">Rewritten:</div>
+      <div id="diff-result" style="max-height: 120px; overflow-y: auto; padding: 6px; background: #f8f9fa; border-radius: 4px; white-space: pre-wrap;">${renderDiffHTML(result.text, result.diff.hunks, 'result')}</div>
     </div>
     
     <textarea id="result-text" style="width: 100%; min-height: 100px; padding: 8px; border: 1px solid #ddd; border-radius: 4px; font-size: 13px; resize: vertical;">${sanitizeHTML(result.text)}</textarea>
@@ -171,9 +581,14 @@ function showResult(popup: HTMLElement, result: any) {
     <div style="display: flex; gap: 8px; margin-top: 8px;">
       <button id="copy-result" style="flex: 1; padding: 6px; background: #34a853; color: white; border: none; border-radius: 4px; cursor: pointer;">Copy</button>
       <button id="replace-result" style="flex: 1; padding: 6px; background: #ea4335; color: white; border: none; border-radius: 4px; cursor: pointer;">Replace</button>
+      <button id="restore-result" title="Put the redacted values back" style="display: none; flex: 1; padding: 6px; background: #f1f3f4; border: none; border-radius: 4px; cursor: pointer;">Restore</button>
     </div>
   `;
 
+  if (result.redactions.length > 0) {
+    storeRedactionMap(container, result.redactions);
+  }
+
   // Copy button
   container.querySelector('#copy-result')!.addEventListener('click', async () => {
     const textarea = container.querySelector('#result-text') as HTMLTextAreaElement;
@@ -190,6 +605,38 @@ function showResult(popup: HTMLElement, result: any) {
   });
 }
 
+// The mapping holds the original values, so it is handed to the service worker
+// for chrome.storage.local and only its id stays in the page
+async function storeRedactionMap(
+  container: HTMLElement,
+  entries: RedactionEntry[]
+) {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      action: 'saveRedactionMap',
+      payload: { entries },
+    });
+    if (response?.error) throw new Error(response.error);
+
+    const restoreBtn = container.querySelector('#restore-result') as HTMLButtonElement;
+    restoreBtn.style.display = 'block';
+    restoreBtn.addEventListener('click', async () => {
+      const textarea = container.querySelector('#result-text') as HTMLTextAreaElement;
+      const restored = await chrome.runtime.sendMessage({
+        action: 'rehydrateText',
+        payload: { mapId: response.mapId, text: textarea.value },
+      });
+      if (restored?.error) {
+        alert(`Restore failed: ${restored.error}`);
+        return;
+      }
+      textarea.value = restored.text;
+    });
+  } catch (error) {
+    console.error('Failed to store redaction mapping:', error);
+  }
+}
+
 function showError(popup: HTMLElement, error: string) {
   const container = popup.querySelector('#result-container') as HTMLElement;
   container.style.display = 'block';
@@ -0,0 +1,36 @@
+// Persistent tier of the transform/analysis result cache (cacheLRU store)
+// Survives service worker and offscreen document restarts
+
+import { getDB } from './db';
+import { LRUManager, type LRUOptions } from './models';
+
+const manager = new LRUManager(getDB);
+
+export async function getCachedResult(
+  cacheKey: string
+): Promise<unknown | undefined> {
+  return (await manager.get(cacheKey))?.value;
+}
+
+export async function putCachedResult(
+  cacheKey: string,
+  value: unknown,
+  version: string,
+  limits: LRUOptions
+): Promise<void> {
+  manager.configure(limits);
+  await manager.set(cacheKey, value, { version });
+}
+
+// Remove entries computed by older rule sets; they can never be hit again
+export function purgeStaleResults(version: string): Promise<number> {
+  return manager.evict(entry => entry.version !== version);
+}
+
+export function countCachedResults(): Promise<number> {
+  return manager.count();
+}
+
+export function clearCachedResults(): Promise<void> {
+  return manager.clear();
+}
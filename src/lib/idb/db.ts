@@ -7,12 +7,14 @@ import type {
   PredictiveEntry,
   UndoStack,
   CacheEntry,
+  TransformPreset,
+  TermStat,
 } from './models';
 
 const DB_NAME = 'assistant_hub_v1';
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
-interface AssistantDB extends DBSchema {
+export interface AssistantDB extends DBSchema {
   collections: {
     key: string;
     value: Collection;
@@ -58,6 +60,15 @@ interface AssistantDB extends DBSchema {
     value: CacheEntry;
     indexes: { lastAccessedAt: number };
   };
+  presets: {
+    key: string;
+    value: TransformPreset;
+    indexes: { updatedAt: number };
+  };
+  termStats: {
+    key: string;
+    value: TermStat;
+  };
 }
 
 let dbInstance: IDBPDatabase<AssistantDB> | null = null;
@@ -123,6 +134,19 @@ export async function getDB(): Promise<IDBPDatabase<AssistantDB>> {
         });
         cacheStore.createIndex('lastAccessedAt', 'lastAccessedAt');
       }
+
+      // Transform presets store
+      if (!db.objectStoreNames.contains('presets')) {
+        const presetStore = db.createObjectStore('presets', {
+          keyPath: 'presetId',
+        });
+        presetStore.createIndex('updatedAt', 'updatedAt');
+      }
+
+      // Document frequencies over saved items
+      if (!db.objectStoreNames.contains('termStats')) {
+        db.createObjectStore('termStats', { keyPath: 'term' });
+      }
     },
   });
 
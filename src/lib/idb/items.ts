@@ -0,0 +1,271 @@
+// Saved items - snippets, highlights and rewrites in collections. Saving and
+// deleting keep the document frequencies in termStats in step, so keyword
+// extraction can weight terms by how rare they are across the user's items.
+// Entities are extracted on save, with relative dates resolved against the
+// day the item was created; items in languages without the English rules get
+// none. Items carry a near-duplicate fingerprint (computed by the NLP worker,
+// so the caller attaches it), which finds copies of the same text saved from
+// different pages; merging keeps one item with every page's URL.
+
+import type { IDBPTransaction } from 'idb';
+import { extractEntities, toReferenceDate } from '../text/entities';
+import {
+  clusterNearDuplicates,
+  compareFingerprints,
+  DEFAULT_DUPLICATE_THRESHOLD,
+  isCurrentFingerprint,
+  type FingerprintSimilarity,
+  type TextFingerprint,
+} from '../text/fingerprint';
+import { documentTerms, type CorpusStats } from '../text/keyphrases';
+import { resolveLanguage, unsupportedReason } from '../text/languageResources';
+import type { AssistantDB } from './db';
+import { getDB } from './db';
+import type { Item } from './models';
+
+// termStats entry holding the number of items
+const DOCUMENT_COUNT_KEY = '';
+
+type ItemsTransaction = IDBPTransaction<
+  AssistantDB,
+  ['items', 'termStats'],
+  'readwrite'
+>;
+
+export interface DuplicateSettings {
+  // Look for near-duplicates before saving
+  enabled: boolean;
+  // Estimated share of text in common, 0-1
+  threshold: number;
+}
+
+export const DEFAULT_DUPLICATE_SETTINGS: DuplicateSettings = {
+  enabled: true,
+  threshold: DEFAULT_DUPLICATE_THRESHOLD,
+};
+
+export interface DuplicateMatch {
+  item: Item;
+  similarity: FingerprintSimilarity;
+}
+
+export interface TermChanges {
+  added: string[];
+  removed: string[];
+}
+
+export function diffTerms(previous: string[], next: string[]): TermChanges {
+  const before = new Set(previous);
+  const after = new Set(next);
+  return {
+    added: next.filter(term => !before.has(term)),
+    removed: previous.filter(term => !after.has(term)),
+  };
+}
+
+// The terms counted for an item are stored with it, so removing the item
+// later subtracts exactly what was added even if term extraction changes
+function itemTerms(item: Item | undefined): string[] {
+  const terms = item?.meta.terms;
+  return Array.isArray(terms) ? (terms as string[]) : [];
+}
+
+async function adjustTerm(
+  tx: ItemsTransaction,
+  term: string,
+  delta: number
+): Promise<void> {
+  const store = tx.objectStore('termStats');
+  const current = await store.get(term);
+  const documents = (current?.documents || 0) + delta;
+  if (documents > 0) {
+    await store.put({ term, documents });
+  } else if (current) {
+    await store.delete(term);
+  }
+}
+
+async function applyTermChanges(
+  tx: ItemsTransaction,
+  changes: TermChanges,
+  documentDelta: number
+): Promise<void> {
+  for (const term of changes.added) await adjustTerm(tx, term, 1);
+  for (const term of changes.removed) await adjustTerm(tx, term, -1);
+  if (documentDelta !== 0) {
+    await adjustTerm(tx, DOCUMENT_COUNT_KEY, documentDelta);
+  }
+}
+
+export async function getItem(itemId: string): Promise<Item | null> {
+  const db = await getDB();
+  return (await db.get('items', itemId)) || null;
+}
+
+// Insert or replace an item by itemId
+export async function saveItem(item: Item): Promise<Item> {
+  // Extracted up front so the transaction never waits on text processing
+  const terms = documentTerms(item.content);
+  // The extractor is built on English rules, like the NLP worker's request
+  const language = resolveLanguage(item.content);
+  const entities = unsupportedReason(language, 'rules')
+    ? []
+    : extractEntities(item.content, {
+        referenceDate: toReferenceDate(new Date(item.createdAt)),
+      });
+  const saved: Item = { ...item, meta: { ...item.meta, terms, entities } };
+
+  const db = await getDB();
+  const tx = db.transaction(['items', 'termStats'], 'readwrite');
+  const existing = await tx.objectStore('items').get(item.itemId);
+  await applyTermChanges(
+    tx,
+    diffTerms(itemTerms(existing), terms),
+    existing ? 0 : 1
+  );
+  await tx.objectStore('items').put(saved);
+  await tx.done;
+  return saved;
+}
+
+export async function deleteItem(itemId: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(['items', 'termStats'], 'readwrite');
+  const existing = await tx.objectStore('items').get(itemId);
+  if (existing) {
+    await applyTermChanges(tx, diffTerms(itemTerms(existing), []), -1);
+    await tx.objectStore('items').delete(itemId);
+  }
+  await tx.done;
+}
+
+// Document frequencies for the given stems only; unknown stems are left out
+export async function getCorpusStats(terms: string[]): Promise<CorpusStats> {
+  const db = await getDB();
+  const tx = db.transaction('termStats', 'readonly');
+  const total = await tx.store.get(DOCUMENT_COUNT_KEY);
+  const frequencies: Record<string, number> = {};
+
+  for (const term of new Set(terms)) {
+    const stat = await tx.store.get(term);
+    if (stat) frequencies[term] = stat.documents;
+  }
+  await tx.done;
+
+  return { documents: total?.documents || 0, frequencies };
+}
+
+export function itemFingerprint(item: Item): TextFingerprint | undefined {
+  const fingerprint = item.meta.fingerprint;
+  return isCurrentFingerprint(fingerprint) ? fingerprint : undefined;
+}
+
+// The item's own sourceURL first, then those of items merged into it
+export function itemSourceURLs(item: Item): string[] {
+  const merged = item.meta.sourceURLs;
+  const urls: unknown[] = [
+    item.sourceURL,
+    ...(Array.isArray(merged) ? merged : []),
+  ];
+  return Array.from(
+    new Set(
+      urls.filter((url): url is string => typeof url === 'string' && !!url)
+    )
+  );
+}
+
+// Oldest first
+export async function listItems(): Promise<Item[]> {
+  const db = await getDB();
+  return db.getAllFromIndex('items', 'createdAt');
+}
+
+// Saved items at or above the threshold, most similar first. Items without a
+// current fingerprint are skipped.
+export async function findDuplicateItems(
+  fingerprint: TextFingerprint,
+  {
+    threshold = DEFAULT_DUPLICATE_THRESHOLD,
+    excludeItemId,
+  }: { threshold?: number; excludeItemId?: string } = {}
+): Promise<DuplicateMatch[]> {
+  const matches: DuplicateMatch[] = [];
+  for (const item of await listItems()) {
+    const stored = itemFingerprint(item);
+    if (!stored || item.itemId === excludeItemId) continue;
+    const similarity = compareFingerprints(fingerprint, stored);
+    if (similarity.jaccard >= threshold) matches.push({ item, similarity });
+  }
+  return matches.sort((a, b) => b.similarity.jaccard - a.similarity.jaccard);
+}
+
+// Fills in the fingerprint of an item saved before fingerprints existed
+export async function setItemFingerprint(
+  itemId: string,
+  fingerprint: TextFingerprint
+): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction('items', 'readwrite');
+  const item = await tx.store.get(itemId);
+  if (item) {
+    await tx.store.put({ ...item, meta: { ...item.meta, fingerprint } });
+  }
+  await tx.done;
+}
+
+// Groups of near-duplicate items, oldest first within and across groups
+export async function findDuplicateClusters(
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): Promise<Item[][]> {
+  const items = new Map<string, Item>();
+  const entries: Array<{ id: string; fingerprint: TextFingerprint }> = [];
+  for (const item of await listItems()) {
+    const fingerprint = itemFingerprint(item);
+    if (!fingerprint) continue;
+    items.set(item.itemId, item);
+    entries.push({ id: item.itemId, fingerprint });
+  }
+
+  return clusterNearDuplicates(entries, threshold).map(ids =>
+    ids.map(id => items.get(id) as Item)
+  );
+}
+
+// Folds the other items into the kept one - their source URLs and tags are
+// added to it and they are deleted. The kept item's content stays as it is.
+export async function mergeItems(
+  keepItemId: string,
+  itemIds: string[]
+): Promise<Item> {
+  const db = await getDB();
+  const tx = db.transaction(['items', 'termStats'], 'readwrite');
+  const store = tx.objectStore('items');
+  const kept = await store.get(keepItemId);
+  const others: Item[] = [];
+  for (const itemId of new Set(itemIds)) {
+    const item = itemId === keepItemId ? undefined : await store.get(itemId);
+    if (item) others.push(item);
+  }
+  if (!kept) {
+    await tx.done;
+    throw new Error(`Item not found: ${keepItemId}`);
+  }
+
+  const all = [kept, ...others];
+  const merged: Item = {
+    ...kept,
+    tags: Array.from(new Set(all.flatMap(item => item.tags))),
+    meta: {
+      ...kept.meta,
+      sourceURLs: Array.from(new Set(all.flatMap(itemSourceURLs))),
+    },
+  };
+
+  for (const item of others) {
+    await applyTermChanges(tx, diffTerms(itemTerms(item), []), -1);
+    await store.delete(item.itemId);
+  }
+  await store.put(merged);
+  await tx.done;
+  return merged;
+}
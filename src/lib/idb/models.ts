@@ -1,5 +1,8 @@
 // IndexedDB schema types and helper functions
 
+import type { IDBPDatabase } from 'idb';
+import type { AssistantDB } from './db';
+
 export interface Collection {
   collectionId: string;
   name: string;
@@ -22,6 +25,27 @@ export interface Item {
   };
 }
 
+// Number of saved items whose content contains a stem, for TF-IDF weighting.
+// The entry keyed '' holds the total number of items.
+export interface TermStat {
+  term: string;
+  documents: number;
+}
+
+export interface TransformStep {
+  rule: string;
+  options?: Record<string, unknown>;
+}
+
+export interface TransformPreset {
+  presetId: string;
+  name: string;
+  steps: TransformStep[];
+  builtIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface RewriteHistory {
   rewriteId: string;
   sourceText: string;
@@ -31,6 +55,8 @@ export interface RewriteHistory {
     tone?: string;
     style?: string;
     prompt?: string;
+    steps?: TransformStep[];
+    presetId?: string;
   };
   site: string;
   createdAt: number;
@@ -77,48 +103,241 @@ export interface CacheEntry {
   cacheKey: string;
   value: unknown;
   lastAccessedAt: number;
+  // Rule-set version the value was computed with
+  version?: string;
+  // Approximate size of the value in bytes, counted against the byte budget
+  size?: number;
+  // Entries are treated as missing after this time (ms since epoch)
+  expiresAt?: number;
+}
+
+export interface LRUOptions {
+  maxEntries?: number;
+  // Approximate budget over the sizes of all entries
+  maxBytes?: number;
+  // Default time to live for new entries; 0 keeps them until evicted
+  ttlMs?: number;
+  // Reads are recorded in memory and written in one batch after this delay
+  flushDelayMs?: number;
+}
+
+export interface CacheSetOptions {
+  ttlMs?: number;
+  version?: string;
 }
 
-// LRU Cache helpers
+const DEFAULT_LRU_OPTIONS: Required<LRUOptions> = {
+  maxEntries: 100,
+  maxBytes: 5 * 1024 * 1024,
+  ttlMs: 0,
+  flushDelayMs: 2000,
+};
+
+// Serialized length in UTF-16 code units, two bytes each
+export function estimateSize(value: unknown): number {
+  try {
+    return (JSON.stringify(value) ?? '').length * 2;
+  } catch {
+    return 0;
+  }
+}
+
+function isExpired(entry: CacheEntry, now: number): boolean {
+  return entry.expiresAt !== undefined && entry.expiresAt <= now;
+}
+
+// LRU cache over an object store keyed by cacheKey with a lastAccessedAt index
 export class LRUManager {
-  private maxSize: number;
+  private options: Required<LRUOptions>;
+  private pendingAccess = new Map<string, number>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  // Running totals, kept up to date by every write and eviction; null until
+  // the first full pass
+  private totals: { entries: number; bytes: number } | null = null;
+
+  constructor(
+    private getDatabase: () => Promise<IDBPDatabase<AssistantDB>>,
+    options: LRUOptions = {}
+  ) {
+    this.options = { ...DEFAULT_LRU_OPTIONS, ...options };
+  }
+
+  configure(options: LRUOptions): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  async get(cacheKey: string): Promise<CacheEntry | undefined> {
+    const db = await this.getDatabase();
+    const entry = await db.get('cacheLRU', cacheKey);
+    if (!entry) return undefined;
+
+    if (isExpired(entry, Date.now())) {
+      await this.delete(cacheKey);
+      return undefined;
+    }
 
-  constructor(maxSize = 100) {
-    this.maxSize = maxSize;
+    this.recordAccess(cacheKey);
+    return entry;
   }
 
-  async evictOldest(db: IDBDatabase, storeName: string): Promise<void> {
-    const tx = db.transaction(storeName, 'readwrite');
-    const store = tx.objectStore(storeName);
-    const index = store.index('lastAccessedAt');
-    const cursor = await index.openCursor();
+  async set(
+    cacheKey: string,
+    value: unknown,
+    options: CacheSetOptions = {}
+  ): Promise<void> {
+    const now = Date.now();
+    const ttlMs = options.ttlMs ?? this.options.ttlMs;
+    const entry: CacheEntry = {
+      cacheKey,
+      value,
+      lastAccessedAt: now,
+      size: estimateSize(value),
+    };
+    if (options.version !== undefined) entry.version = options.version;
+    if (ttlMs > 0) entry.expiresAt = now + ttlMs;
+
+    const db = await this.getDatabase();
+    const previous = this.totals ? await db.get('cacheLRU', cacheKey) : null;
+    await db.put('cacheLRU', entry);
+    this.pendingAccess.delete(cacheKey);
+
+    if (!this.totals) {
+      await this.evict();
+      return;
+    }
+    if (!previous) this.totals.entries++;
+    this.totals.bytes += (entry.size ?? 0) - (previous?.size ?? 0);
+    if (this.overBudget(this.totals)) await this.trim(this.totals);
+  }
+
+  async delete(cacheKey: string): Promise<void> {
+    const db = await this.getDatabase();
+    const entry = this.totals ? await db.get('cacheLRU', cacheKey) : null;
+    await db.delete('cacheLRU', cacheKey);
+    this.pendingAccess.delete(cacheKey);
+    if (this.totals && entry) {
+      this.totals.entries--;
+      this.totals.bytes -= entry.size ?? 0;
+    }
+  }
+
+  async count(): Promise<number> {
+    const db = await this.getDatabase();
+    return db.count('cacheLRU');
+  }
 
-    const entries: CacheEntry[] = [];
-    let current = cursor;
+  async clear(): Promise<void> {
+    const db = await this.getDatabase();
+    await db.clear('cacheLRU');
+    this.pendingAccess.clear();
+    this.totals = { entries: 0, bytes: 0 };
+  }
 
-    while (current) {
-      entries.push(current.value);
-      current = await current.continue();
+  // Write the batched access times in a single transaction
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
+    if (this.pendingAccess.size === 0) return;
 
-    if (entries.length > this.maxSize) {
-      const toDelete = entries
-        .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt)
-        .slice(0, entries.length - this.maxSize);
+    const accesses = Array.from(this.pendingAccess);
+    this.pendingAccess.clear();
 
-      for (const entry of toDelete) {
-        await store.delete(entry.cacheKey);
+    const db = await this.getDatabase();
+    const tx = db.transaction('cacheLRU', 'readwrite');
+    for (const [cacheKey, accessedAt] of accesses) {
+      const entry = await tx.store.get(cacheKey);
+      if (entry && entry.lastAccessedAt < accessedAt) {
+        await tx.store.put({ ...entry, lastAccessedAt: accessedAt });
       }
     }
+    await tx.done;
+  }
+
+  // Walk lastAccessedAt from newest to oldest, keeping entries until either
+  // budget is reached and deleting the rest along with expired entries.
+  // Returns the number of entries removed.
+  async evict(
+    shouldDelete: (entry: CacheEntry) => boolean = () => false
+  ): Promise<number> {
+    await this.flush();
+
+    const db = await this.getDatabase();
+    const tx = db.transaction('cacheLRU', 'readwrite');
+    const now = Date.now();
+    const kept = { entries: 0, bytes: 0 };
+    let full = false;
+    let removed = 0;
 
-    await tx.complete;
+    let cursor = await tx.store
+      .index('lastAccessedAt')
+      .openCursor(null, 'prev');
+    while (cursor) {
+      const entry = cursor.value;
+      const size = entry.size ?? 0;
+
+      if (
+        !full &&
+        !isExpired(entry, now) &&
+        !shouldDelete(entry) &&
+        !this.overBudget({
+          entries: kept.entries + 1,
+          bytes: kept.bytes + size,
+        })
+      ) {
+        kept.entries++;
+        kept.bytes += size;
+      } else {
+        // Once the budget is reached everything older goes too
+        if (!isExpired(entry, now) && !shouldDelete(entry)) full = true;
+        await cursor.delete();
+        removed++;
+      }
+      cursor = await cursor.continue();
+    }
+
+    await tx.done;
+    this.totals = kept;
+    return removed;
   }
 
-  updateAccessTime(entry: CacheEntry): CacheEntry {
-    return {
-      ...entry,
-      lastAccessedAt: Date.now(),
-    };
+  // Delete the least recently used entries, oldest first, until the totals
+  // are back under budget; a full cache only reads the few entries it drops
+  private async trim(totals: { entries: number; bytes: number }) {
+    await this.flush();
+
+    const db = await this.getDatabase();
+    const tx = db.transaction('cacheLRU', 'readwrite');
+    let cursor = await tx.store
+      .index('lastAccessedAt')
+      .openCursor(null, 'next');
+    while (cursor && this.overBudget(totals)) {
+      totals.entries--;
+      totals.bytes -= cursor.value.size ?? 0;
+      await cursor.delete();
+      // Stop without reading the next entry
+      if (!this.overBudget(totals)) break;
+      cursor = await cursor.continue();
+    }
+    await tx.done;
+  }
+
+  private overBudget(totals: { entries: number; bytes: number }): boolean {
+    return (
+      totals.entries > this.options.maxEntries ||
+      totals.bytes > this.options.maxBytes
+    );
+  }
+
+  private recordAccess(cacheKey: string): void {
+    this.pendingAccess.set(cacheKey, Date.now());
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush().catch(() => undefined);
+      }, this.options.flushDelayMs);
+    }
   }
 }
 
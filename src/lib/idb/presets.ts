@@ -0,0 +1,138 @@
+// Named transform presets - ordered pipelines persisted in IndexedDB
+
+import { getDB } from './db';
+import { generateId } from './models';
+import type { TransformPreset, TransformStep } from './models';
+import type { TransformSettings } from '../workers/protocol';
+
+export const BUILT_IN_PRESETS: TransformPreset[] = [
+  {
+    presetId: 'builtin_slack_reply',
+    name: 'Slack reply',
+    steps: [
+      { rule: 'length', options: { length: 'short' } },
+      { rule: 'tone', options: { tone: 'casual' } },
+      { rule: 'style', options: { style: 'concise' } },
+    ],
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    presetId: 'builtin_exec_summary',
+    name: 'Exec summary',
+    steps: [
+      { rule: 'length', options: { length: 'short' } },
+      { rule: 'style', options: { style: 'concise' } },
+      { rule: 'tone', options: { tone: 'professional' } },
+    ],
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+];
+
+function isBuiltIn(presetId: string): boolean {
+  return BUILT_IN_PRESETS.some(preset => preset.presetId === presetId);
+}
+
+// Built-in presets first, then saved presets, most recently updated first
+export async function listPresets(): Promise<TransformPreset[]> {
+  const db = await getDB();
+  const saved = await db.getAllFromIndex('presets', 'updatedAt');
+  return [...BUILT_IN_PRESETS, ...saved.reverse()];
+}
+
+export async function getPreset(
+  presetId: string
+): Promise<TransformPreset | null> {
+  const builtIn = BUILT_IN_PRESETS.find(p => p.presetId === presetId);
+  if (builtIn) return builtIn;
+
+  const db = await getDB();
+  return (await db.get('presets', presetId)) || null;
+}
+
+export async function savePreset(
+  name: string,
+  steps: TransformStep[],
+  presetId?: string
+): Promise<TransformPreset> {
+  if (!name.trim()) {
+    throw new Error('Preset name is required');
+  }
+  if (steps.length === 0) {
+    throw new Error('Preset must have at least one step');
+  }
+  if (presetId && isBuiltIn(presetId)) {
+    throw new Error('Built-in presets cannot be modified');
+  }
+
+  const db = await getDB();
+  const existing = presetId ? await db.get('presets', presetId) : undefined;
+  const now = Date.now();
+
+  const preset: TransformPreset = {
+    presetId: existing?.presetId || generateId('preset'),
+    name: name.trim(),
+    steps,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await db.put('presets', preset);
+  return preset;
+}
+
+export async function deletePreset(presetId: string): Promise<void> {
+  if (isBuiltIn(presetId)) {
+    throw new Error('Built-in presets cannot be deleted');
+  }
+
+  const db = await getDB();
+  await db.delete('presets', presetId);
+}
+
+// Plain settings map onto the fixed proofread → length → tone → style →
+// reading level → dialect → format → prompt → redact order. Proofreading runs
+// first so later steps see clean text, and redaction last so no later step
+// can reintroduce PII.
+export function settingsToSteps(settings: TransformSettings): TransformStep[] {
+  if (settings.steps) return settings.steps;
+
+  const steps: TransformStep[] = [];
+  if (settings.proofread) {
+    steps.push({ rule: 'proofread', options: {} });
+  }
+  if (settings.length) {
+    steps.push({
+      rule: 'length',
+      options: { length: settings.length, customLength: settings.customLength },
+    });
+  }
+  if (settings.tone) {
+    steps.push({ rule: 'tone', options: { tone: settings.tone } });
+  }
+  if (settings.style) {
+    steps.push({ rule: 'style', options: { style: settings.style } });
+  }
+  if (settings.readingLevel) {
+    steps.push({
+      rule: 'readingLevel',
+      options: { grade: settings.readingLevel },
+    });
+  }
+  if (settings.dialect) {
+    steps.push({ rule: 'dialect', options: { to: settings.dialect } });
+  }
+  if (settings.format) {
+    steps.push({ rule: 'format', options: { format: settings.format } });
+  }
+  if (settings.prompt?.trim()) {
+    steps.push({ rule: 'instructions', options: { prompt: settings.prompt } });
+  }
+  if (settings.redact) {
+    steps.push({ rule: 'redact', options: { mode: settings.redact } });
+  }
+  return steps;
+}
@@ -0,0 +1,170 @@
+// Chunked processing for long inputs - splits text at paragraph, sentence or
+// word boundaries and runs work chunk by chunk, yielding to the event loop in
+// between so workers can handle cancel messages and report progress
+
+import { segmentSentences } from './segmenter';
+
+export interface TextChunk {
+  text: string;
+  // Character offsets into the chunked text
+  start: number;
+  end: number;
+}
+
+export interface ChunkProgress {
+  completed: number;
+  total: number;
+  // Processed chunks followed by the untouched rest of the input
+  partial: string;
+}
+
+export interface ChunkRunOptions {
+  chunkSize?: number;
+  // Called before every chunk; throw to stop (e.g. once a request is aborted)
+  checkpoint?: () => void;
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
+export const DEFAULT_CHUNK_SIZE = 2000;
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+function trimRange(text: string, start: number, end: number): Range | null {
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  return end > start ? { start, end } : null;
+}
+
+// Last resort for oversized sentences: cut at the last whitespace that fits
+function splitAtWords(text: string, range: Range, maxChars: number): Range[] {
+  const ranges: Range[] = [];
+  let start = range.start;
+
+  while (range.end - start > maxChars) {
+    const window = text.slice(start, start + maxChars);
+    const boundary = window.search(/\s\S*$/);
+    const cut = boundary > 0 ? start + boundary : start + maxChars;
+    const piece = trimRange(text, start, cut);
+    if (piece) ranges.push(piece);
+    start = cut;
+  }
+
+  const rest = trimRange(text, start, range.end);
+  if (rest) ranges.push(rest);
+  return ranges;
+}
+
+function splitUnits(text: string, maxChars: number): Range[] {
+  const units: Range[] = [];
+  const paragraphBreak = /\n[ \t]*\n\s*/g;
+  let cursor = 0;
+
+  const addParagraph = (start: number, end: number) => {
+    const paragraph = trimRange(text, start, end);
+    if (!paragraph) return;
+    if (paragraph.end - paragraph.start <= maxChars) {
+      units.push(paragraph);
+      return;
+    }
+    const slice = text.slice(paragraph.start, paragraph.end);
+    segmentSentences(slice).forEach(sentence => {
+      const range = {
+        start: paragraph.start + sentence.start,
+        end: paragraph.start + sentence.end,
+      };
+      if (range.end - range.start <= maxChars) {
+        units.push(range);
+      } else {
+        units.push(...splitAtWords(text, range, maxChars));
+      }
+    });
+  };
+
+  for (const match of text.matchAll(paragraphBreak)) {
+    const index = match.index ?? 0;
+    addParagraph(cursor, index);
+    cursor = index + match[0].length;
+  }
+  addParagraph(cursor, text.length);
+
+  return units;
+}
+
+// Pack paragraphs (or sentences of oversized paragraphs) into chunks of at
+// most maxChars. Whitespace between chunks is left out of every chunk.
+export function chunkText(
+  text: string,
+  maxChars = DEFAULT_CHUNK_SIZE
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  let current: Range | null = null;
+
+  for (const unit of splitUnits(text, maxChars)) {
+    if (current && unit.end - current.start <= maxChars) {
+      current.end = unit.end;
+      continue;
+    }
+    if (current) {
+      chunks.push({ ...current, text: text.slice(current.start, current.end) });
+    }
+    current = { ...unit };
+  }
+
+  if (current) {
+    chunks.push({ ...current, text: text.slice(current.start, current.end) });
+  }
+  return chunks;
+}
+
+export function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+// Rewrite text chunk by chunk, keeping the whitespace between chunks. The
+// callback gets each chunk along with its offset into the original string.
+export async function mapChunks(
+  text: string,
+  transform: (chunk: string, offset: number) => string,
+  options: ChunkRunOptions = {}
+): Promise<string> {
+  const chunks = chunkText(text, options.chunkSize);
+  let result = '';
+  let cursor = 0;
+
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    options.checkpoint?.();
+
+    result +=
+      text.slice(cursor, chunk.start) + transform(chunk.text, chunk.start);
+    cursor = chunk.end;
+
+    options.onProgress?.({
+      completed: i + 1,
+      total: chunks.length,
+      partial: result + text.slice(cursor),
+    });
+    await yieldToEventLoop();
+  }
+
+  return result + text.slice(cursor);
+}
+
+// Visit every chunk for its side effects (counting, scoring)
+export async function forEachChunk(
+  text: string,
+  visit: (chunk: string, offset: number) => void,
+  options: ChunkRunOptions = {}
+): Promise<void> {
+  await mapChunks(
+    text,
+    (chunk, offset) => {
+      visit(chunk, offset);
+      return chunk;
+    },
+    options
+  );
+}
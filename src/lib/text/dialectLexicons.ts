@@ -0,0 +1,159 @@
+// Spelling, vocabulary and exception tables for the dialect transform
+// Shared with the result cache, whose keys change whenever these tables do
+
+export type Dialect = 'en-US' | 'en-GB' | 'en-AU';
+
+export interface DialectEntry {
+  'en-US': string;
+  'en-GB': string;
+  'en-AU': string;
+  // Dialects where the word has other common meanings ("lift the box"), so
+  // it is only ever converted to, never from
+  ambiguous?: Dialect[];
+}
+
+// Regional words; the longest phrase wins ("movie theater" over "theater")
+// prettier-ignore
+export const VOCABULARY: DialectEntry[] = [
+  { 'en-US': 'elevator', 'en-GB': 'lift', 'en-AU': 'lift', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'elevators', 'en-GB': 'lifts', 'en-AU': 'lifts', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'apartment', 'en-GB': 'flat', 'en-AU': 'flat', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'gasoline', 'en-GB': 'petrol', 'en-AU': 'petrol' },
+  { 'en-US': 'gas station', 'en-GB': 'petrol station', 'en-AU': 'petrol station' },
+  { 'en-US': 'cell phone', 'en-GB': 'mobile phone', 'en-AU': 'mobile phone' },
+  { 'en-US': 'cell phones', 'en-GB': 'mobile phones', 'en-AU': 'mobile phones' },
+  { 'en-US': 'sidewalk', 'en-GB': 'pavement', 'en-AU': 'footpath', ambiguous: ['en-AU'] },
+  { 'en-US': 'parking lot', 'en-GB': 'car park', 'en-AU': 'car park' },
+  { 'en-US': 'diaper', 'en-GB': 'nappy', 'en-AU': 'nappy' },
+  { 'en-US': 'diapers', 'en-GB': 'nappies', 'en-AU': 'nappies' },
+  { 'en-US': 'faucet', 'en-GB': 'tap', 'en-AU': 'tap', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'flashlight', 'en-GB': 'torch', 'en-AU': 'torch', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'trash can', 'en-GB': 'rubbish bin', 'en-AU': 'rubbish bin' },
+  { 'en-US': 'truck', 'en-GB': 'lorry', 'en-AU': 'truck' },
+  { 'en-US': 'trucks', 'en-GB': 'lorries', 'en-AU': 'trucks' },
+  { 'en-US': 'pickup truck', 'en-GB': 'pickup truck', 'en-AU': 'ute' },
+  { 'en-US': 'freeway', 'en-GB': 'motorway', 'en-AU': 'freeway' },
+  { 'en-US': 'zucchini', 'en-GB': 'courgette', 'en-AU': 'zucchini' },
+  { 'en-US': 'eggplant', 'en-GB': 'aubergine', 'en-AU': 'eggplant' },
+  { 'en-US': 'cilantro', 'en-GB': 'coriander', 'en-AU': 'coriander', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'candy', 'en-GB': 'sweets', 'en-AU': 'lollies', ambiguous: ['en-GB'] },
+  { 'en-US': 'sweater', 'en-GB': 'jumper', 'en-AU': 'jumper', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'vacation', 'en-GB': 'holiday', 'en-AU': 'holiday', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'stroller', 'en-GB': 'pushchair', 'en-AU': 'pram' },
+  { 'en-US': 'drugstore', 'en-GB': 'chemist', 'en-AU': 'chemist', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'movie theater', 'en-GB': 'cinema', 'en-AU': 'cinema', ambiguous: ['en-GB', 'en-AU'] },
+  { 'en-US': 'zip code', 'en-GB': 'postcode', 'en-AU': 'postcode' },
+  { 'en-US': 'math', 'en-GB': 'maths', 'en-AU': 'maths' },
+  { 'en-US': 'takeout', 'en-GB': 'takeaway', 'en-AU': 'takeaway' },
+  { 'en-US': 'mom', 'en-GB': 'mum', 'en-AU': 'mum' },
+  { 'en-US': 'soccer', 'en-GB': 'football', 'en-AU': 'soccer', ambiguous: ['en-GB'] },
+  { 'en-US': 'pants', 'en-GB': 'trousers', 'en-AU': 'pants', ambiguous: ['en-US', 'en-AU'] },
+  { 'en-US': 'airplane', 'en-GB': 'aeroplane', 'en-AU': 'aeroplane' },
+  { 'en-US': 'airplanes', 'en-GB': 'aeroplanes', 'en-AU': 'aeroplanes' },
+  { 'en-US': 'aluminum', 'en-GB': 'aluminium', 'en-AU': 'aluminium' },
+];
+
+// US → British/Australian spellings outside the suffix families below
+// prettier-ignore
+export const SPELLING_PAIRS: Record<string, string> = {
+  gray: 'grey', grays: 'greys', defense: 'defence', defenses: 'defences',
+  offense: 'offence', offenses: 'offences', pretense: 'pretence',
+  mustache: 'moustache', plow: 'plough', plows: 'ploughs', pajamas: 'pyjamas',
+  skeptic: 'sceptic', skeptics: 'sceptics', skeptical: 'sceptical',
+  skepticism: 'scepticism', maneuver: 'manoeuvre', maneuvers: 'manoeuvres',
+  maneuvered: 'manoeuvred', maneuvering: 'manoeuvring', aging: 'ageing',
+  enrollment: 'enrolment', enrollments: 'enrolments', fulfill: 'fulfil',
+  fulfills: 'fulfils', fulfillment: 'fulfilment', skillful: 'skilful',
+  skillfully: 'skilfully', installment: 'instalment', installments: 'instalments',
+  jewelry: 'jewellery', pediatric: 'paediatric', anemia: 'anaemia',
+  anesthesia: 'anaesthesia', estrogen: 'oestrogen', fetus: 'foetus',
+  cozy: 'cosy', donut: 'doughnut', donuts: 'doughnuts', mold: 'mould',
+  moldy: 'mouldy', smolder: 'smoulder', woolen: 'woollen', yogurt: 'yoghurt',
+  artifact: 'artefact', artifacts: 'artefacts',
+  acknowledgment: 'acknowledgement', acknowledgments: 'acknowledgements',
+  counselor: 'counsellor', counselors: 'counsellors',
+  // Unit only; "meter" is also a measuring device in British English
+  kilometer: 'kilometre', kilometers: 'kilometres', centimeter: 'centimetre',
+  centimeters: 'centimetres', millimeter: 'millimetre',
+  millimeters: 'millimetres',
+};
+
+// -or/-our stems ("col" → color/colour) and the endings they take
+// prettier-ignore
+export const OUR_STEMS = [
+  'col', 'hon', 'fav', 'behavi', 'lab', 'neighb', 'hum', 'flav', 'harb',
+  'rum', 'vap', 'endeav', 'arm', 'savi', 'od', 'vig', 'rig', 'clam', 'parl',
+  'ard', 'cand', 'splend', 'tum', 'val', 'ferv', 'ranc', 'sav', 'demean',
+];
+// prettier-ignore
+export const OUR_ENDINGS = [
+  '', 's', 'ed', 'ing', 'ful', 'fully', 'less', 'able', 'ably', 'ite', 'ites',
+  'al', 'ally', 'y', 'ist', 'ists', 'hood', 'ly',
+];
+// Same spelling everywhere
+export const OUR_EXCEPTIONS = ['humoral'];
+
+// -er/-re stems ("cent" → center/centre); "meter" is left alone, see above
+// prettier-ignore
+export const RE_STEMS = [
+  'cent', 'theat', 'fib', 'lit', 'calib', 'somb', 'spect', 'lust', 'meag',
+  'sab', 'sepulch',
+];
+
+// -og/-ogue stems ("catal" → catalog/catalogue)
+export const OGUE_STEMS = ['catal', 'dial', 'anal', 'monol', 'epil', 'travel'];
+
+// Phrases every dialect spells the same, shielding the words inside them
+export const FIXED_PHRASES = ['dialog box', 'dialog boxes'];
+
+// Verbs whose final l doubles before -ed/-ing/-er outside the US
+// prettier-ignore
+export const DOUBLED_L_STEMS = [
+  'travel', 'cancel', 'model', 'label', 'level', 'signal', 'fuel', 'marvel',
+  'counsel', 'channel', 'tunnel', 'total', 'dial', 'equal', 'jewel',
+  'quarrel', 'pencil', 'shovel', 'snorkel', 'duel', 'funnel', 'panel',
+];
+
+// -ize words spelled with z in every dialect, as base forms
+// prettier-ignore
+export const IZE_EXCEPTIONS = [
+  'size', 'capsize', 'downsize', 'oversize', 'resize', 'upsize', 'outsize',
+  'bitesize', 'seize', 'prize', 'maize', 'baize', 'assize', 'belize',
+];
+
+// -ise words spelled with s in every dialect, as base forms
+// prettier-ignore
+export const ISE_EXCEPTIONS = [
+  'advertise', 'anise', 'apprise', 'chastise', 'cerise', 'circumcise',
+  'comprise', 'compromise', 'concise', 'demise', 'despise', 'disguise',
+  'elise', 'enfranchise', 'disenfranchise', 'enterprise', 'excise',
+  'exercise', 'expertise', 'franchise', 'incise', 'merchandise', 'mortise',
+  'paradise', 'precise', 'premise', 'promise', 'surmise', 'sunrise',
+  'moonrise', 'uprise', 'treatise', 'denise',
+];
+// Ending the letters before -ise, these never take -ize (praise, noise,
+// cruise, otherwise, advise, surprise)
+export const ISE_STEM_ENDINGS = ['a', 'o', 'u', 'w', 'v', 'pr'];
+// Plurals of -sis nouns that look like -yse verbs
+export const ISE_WORD_EXCEPTIONS = [
+  'analyses',
+  'paralyses',
+  'catalyses',
+  'dialyses',
+];
+
+export const DIALECT_LEXICONS = {
+  vocabulary: VOCABULARY,
+  spelling: SPELLING_PAIRS,
+  our: { stems: OUR_STEMS, endings: OUR_ENDINGS, exceptions: OUR_EXCEPTIONS },
+  re: RE_STEMS,
+  ogue: OGUE_STEMS,
+  fixed: FIXED_PHRASES,
+  doubledL: DOUBLED_L_STEMS,
+  ize: IZE_EXCEPTIONS,
+  ise: {
+    exceptions: ISE_EXCEPTIONS,
+    stemEndings: ISE_STEM_ENDINGS,
+    words: ISE_WORD_EXCEPTIONS,
+  },
+};
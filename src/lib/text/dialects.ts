@@ -0,0 +1,323 @@
+// Regional English conversion between en-US, en-GB and en-AU - spelling and
+// vocabulary through the phrase lexicon, -ize/-ise by rule with exceptions,
+// and date formats (10/19/2026 ↔ 19/10/2026, October 19, 2026 ↔ 19 October
+// 2026). British and Australian English share spelling and dates here; -ise
+// is used for both.
+
+import {
+  DIALECT_LEXICONS,
+  DOUBLED_L_STEMS,
+  FIXED_PHRASES,
+  IZE_EXCEPTIONS,
+  ISE_EXCEPTIONS,
+  ISE_STEM_ENDINGS,
+  ISE_WORD_EXCEPTIONS,
+  OGUE_STEMS,
+  OUR_ENDINGS,
+  OUR_EXCEPTIONS,
+  OUR_STEMS,
+  RE_STEMS,
+  SPELLING_PAIRS,
+  VOCABULARY,
+  type Dialect,
+  type DialectEntry,
+} from './dialectLexicons';
+import { daysInMonth, MONTHS } from './entities';
+import { applyLexicon, compileLexicon, type Lexicon } from './lexicon';
+
+export type { Dialect } from './dialectLexicons';
+
+export type DialectConversionKind = 'spelling' | 'vocabulary' | 'date';
+
+export interface DialectConversion {
+  kind: DialectConversionKind;
+  from: string;
+  to: string;
+  // Character offsets into the converted text
+  start: number;
+  end: number;
+}
+
+export interface DialectResult {
+  text: string;
+  conversions: DialectConversion[];
+}
+
+export const DIALECTS: Dialect[] = ['en-US', 'en-GB', 'en-AU'];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+// Lowercased word → base and suffix; lazy, so the base is as short as the
+// suffix list allows ("organizations" → organ + iz + ations)
+const IZE_PATTERN =
+  /^(\p{L}+?)([iy])z(e|es|ed|ing|er|ers|ation|ations|ational|able)$/u;
+const ISE_PATTERN =
+  /^(\p{L}+?)([iy])s(e|es|ed|ing|er|ers|ation|ations|ational|able)$/u;
+
+const MONTH_NAMES = Object.keys(MONTHS).join('|');
+// 10/19/2026, 19-10-26
+const NUMERIC_DATE = /\b(\d{1,2})([/-])(\d{1,2})\2(\d{4}|\d{2})\b(?![/-]\d)/g;
+// October 19, 2026 / Oct. 19th, 2026
+const US_LONG_DATE = new RegExp(
+  `\\b(${MONTH_NAMES})(\\.?)\\s+(\\d{1,2})(st|nd|rd|th)?,\\s*(\\d{4})\\b`,
+  'gi'
+);
+// 19 October 2026 / 19th of Oct. 2026
+const DAY_FIRST_LONG_DATE = new RegExp(
+  `\\b(\\d{1,2})(st|nd|rd|th)?\\s+(?:of\\s+)?(${MONTH_NAMES})(\\.?),?\\s+(\\d{4})\\b`,
+  'gi'
+);
+
+export const DIALECT_TABLES = {
+  lexicons: DIALECT_LEXICONS,
+  ize: IZE_PATTERN,
+  ise: ISE_PATTERN,
+  dates: [NUMERIC_DATE, US_LONG_DATE, DAY_FIRST_LONG_DATE],
+};
+
+type Spelling = 'us' | 'commonwealth';
+
+function spellingOf(dialect: Dialect): Spelling {
+  return dialect === 'en-US' ? 'us' : 'commonwealth';
+}
+
+export function isDialect(value: unknown): value is Dialect {
+  return DIALECTS.includes(value as Dialect);
+}
+
+// US → British/Australian spellings, from the pair table and the suffix
+// families
+function spellingEntries(): DialectEntry[] {
+  const pairs: Array<[string, string]> = Object.entries(SPELLING_PAIRS);
+
+  OUR_STEMS.forEach(stem =>
+    OUR_ENDINGS.forEach(ending => {
+      const us = `${stem}or${ending}`;
+      if (!OUR_EXCEPTIONS.includes(us)) pairs.push([us, `${stem}our${ending}`]);
+    })
+  );
+  RE_STEMS.forEach(stem =>
+    (
+      [
+        ['er', 're'],
+        ['ers', 'res'],
+        ['ered', 'red'],
+        ['ering', 'ring'],
+      ] as const
+    ).forEach(([us, gb]) => pairs.push([stem + us, stem + gb]))
+  );
+  OGUE_STEMS.forEach(stem =>
+    (
+      [
+        ['og', 'ogue'],
+        ['ogs', 'ogues'],
+        ['oged', 'ogued'],
+        ['oging', 'oguing'],
+      ] as const
+    ).forEach(([us, gb]) => pairs.push([stem + us, stem + gb]))
+  );
+  DOUBLED_L_STEMS.forEach(stem =>
+    ['ed', 'ing', 'er', 'ers'].forEach(ending =>
+      pairs.push([stem + ending, `${stem}l${ending}`])
+    )
+  );
+
+  return pairs.map(([us, gb]) => ({ 'en-US': us, 'en-GB': gb, 'en-AU': gb }));
+}
+
+interface CompiledDialect {
+  lexicon: Lexicon;
+  // Lowercased source phrase → what kind of change swapping it is
+  kinds: Map<string, DialectConversionKind>;
+}
+
+const compiled = new Map<string, CompiledDialect>();
+
+function normalizePhrase(phrase: string): string {
+  return phrase.toLowerCase().split(/\s+/).join(' ');
+}
+
+function getDialectLexicon(from: Dialect, to: Dialect): CompiledDialect {
+  const key = `${from}>${to}`;
+  let result = compiled.get(key);
+  if (result) return result;
+
+  const entries: Record<string, string> = {};
+  const kinds = new Map<string, DialectConversionKind>();
+  const add = (entry: DialectEntry, kind: DialectConversionKind) => {
+    if (entry.ambiguous?.includes(from)) return;
+    // Identity swaps are kept: "pickup truck" stays whole in British English
+    // instead of its "truck" becoming "lorry"
+    entries[entry[from]] = entry[to];
+    kinds.set(normalizePhrase(entry[from]), kind);
+  };
+
+  spellingEntries().forEach(entry => add(entry, 'spelling'));
+  VOCABULARY.forEach(entry => add(entry, 'vocabulary'));
+  // Identity swaps keep the words inside these phrases from matching alone
+  FIXED_PHRASES.forEach(phrase => (entries[phrase] = phrase));
+
+  result = { lexicon: compileLexicon(entries), kinds };
+  compiled.set(key, result);
+  return result;
+}
+
+// Swaps z and s in place, so "ORGANIZE" becomes "ORGANISE"
+function swapSuffixLetter(word: string, index: number, to: 's' | 'z'): string {
+  const letter =
+    word[index] === word[index].toUpperCase() ? to.toUpperCase() : to;
+  return word.slice(0, index) + letter + word.slice(index + 1);
+}
+
+function convertSuffix(word: string, to: Spelling): string | null {
+  const lower = word.toLowerCase();
+  if (to === 'commonwealth') {
+    const match = lower.match(IZE_PATTERN);
+    if (!match || match[1].length < 2) return null;
+    if (IZE_EXCEPTIONS.includes(`${match[1]}${match[2]}ze`)) return null;
+    return swapSuffixLetter(word, match[1].length + 1, 's');
+  }
+
+  const match = lower.match(ISE_PATTERN);
+  if (!match || match[1].length < 3) return null;
+  if (ISE_WORD_EXCEPTIONS.includes(lower)) return null;
+  if (ISE_STEM_ENDINGS.some(ending => match[1].endsWith(ending))) return null;
+  if (ISE_EXCEPTIONS.includes(`${match[1]}${match[2]}se`)) return null;
+  return swapSuffixLetter(word, match[1].length + 1, 'z');
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  return (
+    month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month)
+  );
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function findDates(
+  text: string,
+  from: Spelling,
+  to: Spelling
+): DialectConversion[] {
+  if (from === to) return [];
+  const conversions: DialectConversion[] = [];
+  const push = (match: RegExpMatchArray, replacement: string) => {
+    const start = match.index ?? 0;
+    conversions.push({
+      kind: 'date',
+      from: match[0],
+      to: replacement,
+      start,
+      end: start + match[0].length,
+    });
+  };
+
+  // Only dates valid in the source order are converted, so text already in
+  // the target order is left alone
+  for (const match of text.matchAll(NUMERIC_DATE)) {
+    const [, first, separator, second, year] = match;
+    const [month, day] = from === 'us' ? [first, second] : [second, first];
+    if (!isValidDate(fullYear(year), Number(month), Number(day))) continue;
+    push(match, `${second}${separator}${first}${separator}${year}`);
+  }
+
+  const longDate = from === 'us' ? US_LONG_DATE : DAY_FIRST_LONG_DATE;
+  for (const match of text.matchAll(longDate)) {
+    const [month, period, day, ordinal = '', year] =
+      from === 'us'
+        ? [match[1], match[2], match[3], match[4], match[5]]
+        : [match[3], match[4], match[1], match[2], match[5]];
+    const monthNumber = MONTHS[month.toLowerCase()];
+    if (!isValidDate(Number(year), monthNumber, Number(day))) continue;
+    push(
+      match,
+      from === 'us'
+        ? `${day}${ordinal} ${month}${period} ${year}`
+        : `${month}${period} ${day}${ordinal}, ${year}`
+    );
+  }
+
+  return conversions;
+}
+
+function overlaps(
+  a: { start: number; end: number },
+  taken: DialectConversion[]
+) {
+  return taken.some(b => a.start < b.end && b.start < a.end);
+}
+
+export function convertDialect(
+  text: string,
+  from: Dialect,
+  to: Dialect
+): DialectResult {
+  if (from === to) return { text, conversions: [] };
+
+  // Lexicon swaps win over dates, dates over the -ize/-ise rule
+  const { lexicon, kinds } = getDialectLexicon(from, to);
+  const conversions: DialectConversion[] = applyLexicon(text, lexicon)
+    .swaps.filter(swap => swap.from.toLowerCase() !== swap.to.toLowerCase())
+    .map(swap => ({
+      kind: kinds.get(normalizePhrase(swap.from)) ?? 'spelling',
+      ...swap,
+    }));
+
+  findDates(text, spellingOf(from), spellingOf(to)).forEach(date => {
+    if (!overlaps(date, conversions)) conversions.push(date);
+  });
+
+  if (spellingOf(from) !== spellingOf(to)) {
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const start = match.index ?? 0;
+      const word = { start, end: start + match[0].length };
+      const converted = convertSuffix(match[0], spellingOf(to));
+      if (converted && !overlaps(word, conversions)) {
+        conversions.push({
+          kind: 'spelling',
+          from: match[0],
+          to: converted,
+          ...word,
+        });
+      }
+    }
+  }
+
+  conversions.sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+  conversions.forEach(conversion => {
+    result += text.slice(cursor, conversion.start) + conversion.to;
+    cursor = conversion.end;
+  });
+
+  return { text: result + text.slice(cursor), conversions };
+}
+
+// Words the lexicon from one dialect to another would change
+function markerCount(text: string, from: Dialect, to: Dialect): number {
+  return applyLexicon(text, getDialectLexicon(from, to).lexicon).swaps.filter(
+    swap => swap.from.toLowerCase() !== swap.to.toLowerCase()
+  ).length;
+}
+
+// The dialect whose spellings and words the text uses most; undefined when
+// there are no markers or US and British ones are tied
+export function detectDialect(text: string): Dialect | undefined {
+  let us = markerCount(text, 'en-US', 'en-GB');
+  let commonwealth = markerCount(text, 'en-GB', 'en-US');
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    if (convertSuffix(match[0], 'commonwealth')) us++;
+    if (convertSuffix(match[0], 'us')) commonwealth++;
+  }
+
+  if (us === commonwealth) return undefined;
+  if (us > commonwealth) return 'en-US';
+  // Australian-only words tell the two apart
+  return markerCount(text, 'en-AU', 'en-GB') >
+    markerCount(text, 'en-GB', 'en-AU')
+    ? 'en-AU'
+    : 'en-GB';
+}
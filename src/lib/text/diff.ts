@@ -0,0 +1,322 @@
+// Token-level diff between an original text and its transformed version
+// Used to report exactly which words a transform touched
+
+export interface DiffToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface DiffHunk {
+  type: 'insert' | 'delete' | 'replace';
+  // Character offsets into the original text
+  originalStart: number;
+  originalEnd: number;
+  // Character offsets into the transformed text
+  resultStart: number;
+  resultEnd: number;
+  originalText: string;
+  resultText: string;
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  editDistance: number;
+  ratio: number;
+}
+
+// Bound on the Myers trace size (edit steps x diagonals) before we give up
+// aligning tokens and align sentences and lines instead
+const MAX_TRACE_CELLS = 4_000_000;
+
+const TOKEN_PATTERN =
+  /[\p{L}\p{N}_]+(?:['’][\p{L}\p{N}_]+)*|[^\s\p{L}\p{N}_]/gu;
+
+export function tokenize(text: string): DiffToken[] {
+  const tokens: DiffToken[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ text: match[0], start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+type EditOp = 'equal' | 'delete' | 'insert';
+
+// Myers O(ND) shortest edit script over token strings. Common prefix and
+// suffix are stripped first so typical rewrites only diff their middle.
+function shortestEditScript(a: string[], b: string[]): EditOp[] | null {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const middle = myers(
+    a.slice(prefix, a.length - suffix),
+    b.slice(prefix, b.length - suffix)
+  );
+  if (!middle) return null;
+
+  return [
+    ...new Array<EditOp>(prefix).fill('equal'),
+    ...middle,
+    ...new Array<EditOp>(suffix).fill('equal'),
+  ];
+}
+
+function myers(a: string[], b: string[]): EditOp[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_CELLS) return null;
+    trace.push(v.slice());
+
+    for (let k = -d; k <= d; k += 2) {
+      let x: number;
+      if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+        x = v[offset + k + 1];
+      } else {
+        x = v[offset + k - 1] + 1;
+      }
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(trace, n, m, offset);
+      }
+    }
+  }
+
+  return null;
+}
+
+// Token index where each sentence or line starts, plus the token count
+function blockBounds(tokens: DiffToken[], text: string): number[] {
+  const bounds = [0];
+  for (let i = 1; i < tokens.length; i++) {
+    const gap = text.slice(tokens[i - 1].end, tokens[i].start);
+    if (/^[.!?]$/.test(tokens[i - 1].text) || gap.includes('\n')) {
+      bounds.push(i);
+    }
+  }
+  bounds.push(tokens.length);
+  return bounds;
+}
+
+// Cheaper fallback for inputs too different to align token by token: align
+// whole sentences and lines, then diff tokens only inside the changed runs.
+// A run that is still too large to align becomes a single replace.
+function blockEditScript(
+  originalTokens: DiffToken[],
+  resultTokens: DiffToken[],
+  original: string,
+  result: string
+): EditOp[] | null {
+  const a = originalTokens.map(t => t.text);
+  const b = resultTokens.map(t => t.text);
+  const aBounds = blockBounds(originalTokens, original);
+  const bBounds = blockBounds(resultTokens, result);
+  const blocks = (tokens: string[], bounds: number[]) =>
+    bounds.slice(1).map((end, i) => tokens.slice(bounds[i], end).join(' '));
+
+  const blockOps = shortestEditScript(blocks(a, aBounds), blocks(b, bBounds));
+  if (!blockOps) return null;
+
+  const ops: EditOp[] = [];
+  let i = 0;
+  let j = 0;
+  let p = 0;
+  while (p < blockOps.length) {
+    if (blockOps[p] === 'equal') {
+      ops.push(...new Array<EditOp>(aBounds[i + 1] - aBounds[i]).fill('equal'));
+      i++;
+      j++;
+      p++;
+      continue;
+    }
+    const aStart = i;
+    const bStart = j;
+    while (p < blockOps.length && blockOps[p] !== 'equal') {
+      if (blockOps[p] === 'delete') i++;
+      else j++;
+      p++;
+    }
+    const aSlice = a.slice(aBounds[aStart], aBounds[i]);
+    const bSlice = b.slice(bBounds[bStart], bBounds[j]);
+    ops.push(
+      ...(shortestEditScript(aSlice, bSlice) ?? [
+        ...new Array<EditOp>(aSlice.length).fill('delete'),
+        ...new Array<EditOp>(bSlice.length).fill('insert'),
+      ])
+    );
+  }
+  return ops;
+}
+
+function backtrack(
+  trace: Int32Array[],
+  n: number,
+  m: number,
+  offset: number
+): EditOp[] {
+  const ops: EditOp[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    let prevK: number;
+    if (k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])) {
+      prevK = k + 1;
+    } else {
+      prevK = k - 1;
+    }
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+function buildHunk(
+  original: string,
+  result: string,
+  originalTokens: DiffToken[],
+  resultTokens: DiffToken[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): DiffHunk {
+  const anchor = (tokens: DiffToken[], index: number, text: string) =>
+    index < tokens.length ? tokens[index].start : text.length;
+
+  const originalStart =
+    aEnd > aStart
+      ? originalTokens[aStart].start
+      : anchor(originalTokens, aStart, original);
+  const originalEnd =
+    aEnd > aStart ? originalTokens[aEnd - 1].end : originalStart;
+  const resultStart =
+    bEnd > bStart
+      ? resultTokens[bStart].start
+      : anchor(resultTokens, bStart, result);
+  const resultEnd = bEnd > bStart ? resultTokens[bEnd - 1].end : resultStart;
+
+  let type: DiffHunk['type'] = 'replace';
+  if (aEnd === aStart) type = 'insert';
+  else if (bEnd === bStart) type = 'delete';
+
+  return {
+    type,
+    originalStart,
+    originalEnd,
+    resultStart,
+    resultEnd,
+    originalText: original.slice(originalStart, originalEnd),
+    resultText: result.slice(resultStart, resultEnd),
+  };
+}
+
+export function diffWords(original: string, result: string): TextDiff {
+  const originalTokens = tokenize(original);
+  const resultTokens = tokenize(result);
+  const a = originalTokens.map(t => t.text);
+  const b = resultTokens.map(t => t.text);
+
+  const ops =
+    shortestEditScript(a, b) ??
+    blockEditScript(originalTokens, resultTokens, original, result);
+  const hunks: DiffHunk[] = [];
+  let editDistance = 0;
+
+  if (!ops) {
+    // Too many differences to align usefully; report one replace
+    if (a.length > 0 || b.length > 0) {
+      hunks.push(
+        buildHunk(
+          original,
+          result,
+          originalTokens,
+          resultTokens,
+          0,
+          a.length,
+          0,
+          b.length
+        )
+      );
+    }
+    editDistance = Math.max(a.length, b.length);
+  } else {
+    let i = 0;
+    let j = 0;
+    let p = 0;
+    while (p < ops.length) {
+      if (ops[p] === 'equal') {
+        i++;
+        j++;
+        p++;
+        continue;
+      }
+      const aStart = i;
+      const bStart = j;
+      while (p < ops.length && ops[p] !== 'equal') {
+        if (ops[p] === 'delete') i++;
+        else j++;
+        p++;
+      }
+      hunks.push(
+        buildHunk(
+          original,
+          result,
+          originalTokens,
+          resultTokens,
+          aStart,
+          i,
+          bStart,
+          j
+        )
+      );
+      // Paired deletes/inserts count as substitutions
+      editDistance += Math.max(i - aStart, j - bStart);
+    }
+  }
+
+  const maxTokens = Math.max(a.length, b.length);
+  const ratio = maxTokens > 0 ? editDistance / maxTokens : 0;
+
+  return {
+    hunks,
+    editDistance,
+    ratio: Math.round(ratio * 100) / 100,
+  };
+}
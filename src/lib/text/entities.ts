@@ -0,0 +1,782 @@
+// Heuristic entity extraction - dates and times normalized to ISO 8601 (relative
+// forms resolved against a reference date), money, percentages, URLs, emails,
+// capitalized person/organization candidates and action items
+
+import { detectProtectedSpans } from './protectedSpans';
+import { segmentSentences, type Sentence } from './segmenter';
+import { PHRASE_STOPWORDS } from './stopwords';
+
+export type EntityType =
+  | 'date'
+  | 'time'
+  | 'datetime'
+  | 'money'
+  | 'percent'
+  | 'url'
+  | 'email'
+  | 'person'
+  | 'organization'
+  | 'actionItem';
+
+export interface Entity {
+  type: EntityType;
+  start: number;
+  end: number;
+  text: string;
+  // ISO 8601 for dates and times ("2026-10-20", "2026-W44", "15:30",
+  // "2026-10-20T15:30"), the amount for money and percentages, the task for
+  // action items and the name itself otherwise
+  value: string;
+  // 0-1, how likely the span really is an entity of this type
+  confidence: number;
+  // money only, ISO 4217
+  currency?: string;
+  // actionItem only, when someone is named as responsible
+  owner?: string;
+}
+
+export interface EntityOptions {
+  types?: EntityType[];
+  // YYYY-MM-DD that relative dates resolve against; defaults to today
+  referenceDate?: string;
+}
+
+export const ENTITY_TYPES: EntityType[] = [
+  'date',
+  'time',
+  'datetime',
+  'money',
+  'percent',
+  'url',
+  'email',
+  'person',
+  'organization',
+  'actionItem',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Month names without a year resolve to the occurrence nearest the reference
+const HALF_YEAR_DAYS = 183;
+
+// prettier-ignore
+export const MONTHS: Record<string, number> = {
+  january: 1, jan: 1, february: 2, feb: 2, march: 3, mar: 3, april: 4,
+  apr: 4, may: 5, june: 6, jun: 6, july: 7, jul: 7, august: 8, aug: 8,
+  september: 9, sept: 9, sep: 9, october: 10, oct: 10, november: 11, nov: 11,
+  december: 12, dec: 12,
+};
+
+// Indexed like Date.getUTCDay()
+// prettier-ignore
+const WEEKDAYS = [
+  'sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday',
+];
+
+// prettier-ignore
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+};
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  $: 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+};
+
+const CURRENCY_CODES = 'USD|EUR|GBP|JPY|CAD|AUD|CHF|CNY|INR';
+
+// Word → currency code and confidence; "pounds" is often a weight
+const CURRENCY_WORDS: Record<string, [string, number]> = {
+  dollars: ['USD', 0.8],
+  euros: ['EUR', 0.85],
+  pounds: ['GBP', 0.6],
+  yen: ['JPY', 0.8],
+  rupees: ['INR', 0.8],
+};
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  million: 1e6,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+const HONORIFICS = new Set(['mr', 'mrs', 'ms', 'mx', 'dr', 'prof']);
+
+// prettier-ignore
+const ORG_SUFFIXES = new Set([
+  'inc', 'corp', 'corporation', 'ltd', 'llc', 'gmbh', 'co', 'plc', 'group',
+  'company', 'university', 'institute', 'foundation', 'bank', 'labs',
+  'technologies', 'systems', 'partners', 'association', 'agency',
+  'department', 'ministry', 'council', 'committee',
+]);
+
+// Capitalized or all-caps words that are never names
+// prettier-ignore
+const NOT_NAMES = new Set([
+  'todo', 'fyi', 'asap', 'eod', 'eta', 'tbd', 'note', 'notes', 'action',
+  're', 'ps', 'ok', 'api', 'url', 'faq', 'pdf', 'am', 'pm', 'ceo', 'cto',
+  'cfo', 'hr', 'qa', 'ui', 'ux', 'agenda', 'attendees', 'today', 'tomorrow',
+  'yesterday', 'tonight', 'next', 'last', 'this',
+]);
+
+const NAME_CONNECTORS = 'of|&|de|van|von|der|da|du|la';
+const NAME_CONNECTOR = new RegExp(`^(?:${NAME_CONNECTORS})$`);
+const NAME_WORD = "\\p{Lu}[\\p{L}\\p{N}'’.-]*";
+const NAME_RUN = new RegExp(
+  `(?<![\\p{L}\\p{N}])${NAME_WORD}(?:[ \\t]+(?:(?:${NAME_CONNECTORS})[ \\t]+)?${NAME_WORD})*`,
+  'gu'
+);
+
+// Lower numbers win when two candidates cover the same range
+const PRIORITY: Record<EntityType, number> = {
+  url: 0,
+  email: 1,
+  datetime: 2,
+  date: 3,
+  time: 4,
+  money: 5,
+  percent: 6,
+  organization: 7,
+  person: 8,
+  actionItem: 9,
+};
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addMonths(date: Date, months: number): Date {
+  const index = date.getUTCFullYear() * 12 + date.getUTCMonth() + months;
+  const year = Math.floor(index / 12);
+  const month = (index % 12) + 1;
+  const day = Math.min(date.getUTCDate(), daysInMonth(year, month));
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Null for impossible dates like February 30
+function makeDate(year: number, month: number, day: number): Date | null {
+  if (month < 1 || month > 12 || day < 1) return null;
+  if (day > daysInMonth(year, month)) return null;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+function isoWeek(date: Date): string {
+  // The ISO week belongs to the year of its Thursday
+  const thursday = addDays(date, 3 - ((date.getUTCDay() + 6) % 7));
+  const year = thursday.getUTCFullYear();
+  const dayOfYear = (thursday.getTime() - Date.UTC(year, 0, 1)) / DAY_MS;
+  return `${year}-W${pad(Math.floor(dayOfYear / 7) + 1)}`;
+}
+
+// Local calendar date, the form EntityOptions.referenceDate expects
+export function toReferenceDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseReferenceDate(value: string | undefined): Date {
+  const match = (value ?? toReferenceDate(new Date())).match(
+    /^(\d{4})-(\d{2})-(\d{2})$/
+  );
+  const date = match && makeDate(+match[1], +match[2], +match[3]);
+  if (!date) {
+    throw new Error(`Invalid reference date: ${value}`);
+  }
+  return date;
+}
+
+function expandYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year);
+}
+
+function countOf(word: string): number {
+  return NUMBER_WORDS[word.toLowerCase()] ?? Number(word);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+type Collector = (
+  type: EntityType,
+  start: number,
+  text: string,
+  value: string,
+  confidence: number,
+  extra?: Partial<Entity>
+) => void;
+
+function findDates(text: string, reference: Date, add: Collector): void {
+  const monthNames = Object.keys(MONTHS).join('|');
+  const weekdayNames = WEEKDAYS.join('|');
+
+  for (const match of text.matchAll(/\b(\d{4})-(\d{2})-(\d{2})\b/g)) {
+    const date = makeDate(+match[1], +match[2], +match[3]);
+    if (date) add('date', match.index ?? 0, match[0], isoDate(date), 0.95);
+  }
+
+  // Month first unless the first number cannot be a month
+  for (const match of text.matchAll(
+    /(?<![\d/.])(\d{1,2})([/.])(\d{1,2})\2(\d{4}|\d{2})(?![\d/]|\.\d)/g
+  )) {
+    const [first, second] = [Number(match[1]), Number(match[3])];
+    const dayFirst = first > 12;
+    const date = makeDate(
+      expandYear(match[4]),
+      dayFirst ? second : first,
+      dayFirst ? first : second
+    );
+    if (!date) continue;
+    const ambiguous = !dayFirst && second <= 12 && first !== second;
+    add(
+      'date',
+      match.index ?? 0,
+      match[0],
+      isoDate(date),
+      ambiguous ? 0.6 : 0.85
+    );
+  }
+
+  const withYear = (month: number, day: number, year: string | undefined) => {
+    if (year) return makeDate(Number(year), month, day);
+    const date = makeDate(reference.getUTCFullYear(), month, day);
+    if (!date) return null;
+    const offset = (date.getTime() - reference.getTime()) / DAY_MS;
+    if (offset > HALF_YEAR_DAYS) return addMonths(date, -12);
+    if (offset < -HALF_YEAR_DAYS) return addMonths(date, 12);
+    return date;
+  };
+
+  const ordinal = '(\\d{1,2})(?:st|nd|rd|th)?';
+  const weekdayPrefix = `(?:(?:${weekdayNames}),?\\s+)?`;
+  const patterns: Array<{ pattern: RegExp; month: number; day: number }> = [
+    {
+      pattern: new RegExp(
+        `\\b${weekdayPrefix}(${monthNames})\\.?\\s+${ordinal}\\b(?:,?\\s+(\\d{4})\\b)?`,
+        'gi'
+      ),
+      month: 1,
+      day: 2,
+    },
+    {
+      pattern: new RegExp(
+        `\\b${weekdayPrefix}(?:the\\s+)?${ordinal}\\s+(?:of\\s+)?(${monthNames})\\b\\.?(?:,?\\s+(\\d{4})\\b)?`,
+        'gi'
+      ),
+      month: 2,
+      day: 1,
+    },
+  ];
+  patterns.forEach(({ pattern, month, day }) => {
+    for (const match of text.matchAll(pattern)) {
+      // "may" is far more often the verb
+      if (match[month] === 'may') continue;
+      const date = withYear(
+        MONTHS[match[month].toLowerCase()],
+        Number(match[day]),
+        match[3]
+      );
+      if (!date) continue;
+      const value = match[0].replace(/\.$/, '');
+      add('date', match.index ?? 0, value, isoDate(date), match[3] ? 0.9 : 0.8);
+    }
+  });
+
+  const days: Record<string, number> = { today: 0, tonight: 0, tomorrow: 1 };
+  days.yesterday = -1;
+  for (const match of text.matchAll(
+    /\b(today|tonight|tomorrow|yesterday)\b/gi
+  )) {
+    const date = addDays(reference, days[match[1].toLowerCase()]);
+    add('date', match.index ?? 0, match[0], isoDate(date), 0.85);
+  }
+
+  // Bare and "this" weekdays are the next occurrence counting today, "next"
+  // and "coming" the next one after today, "last" the most recent before it
+  const weekdayPattern = new RegExp(
+    `\\b(?:(next|this|coming|last)\\s+)?(${weekdayNames})\\b`,
+    'gi'
+  );
+  for (const match of text.matchAll(weekdayPattern)) {
+    const qualifier = match[1]?.toLowerCase();
+    const target = WEEKDAYS.indexOf(match[2].toLowerCase());
+    const ahead = (target - reference.getUTCDay() + 7) % 7;
+    let offset = ahead;
+    let confidence = 0.8;
+    if (qualifier === 'next' || qualifier === 'coming') {
+      offset = ahead || 7;
+      confidence = 0.7;
+    } else if (qualifier === 'last') {
+      offset = ahead - 7;
+      confidence = 0.7;
+    } else if (!qualifier) {
+      confidence = 0.6;
+    }
+    add(
+      'date',
+      match.index ?? 0,
+      match[0],
+      isoDate(addDays(reference, offset)),
+      confidence
+    );
+  }
+
+  const count = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+  const unit = '(day|week|month|year)s?';
+  const shift = (amount: number, unitName: string): Date => {
+    const lower = unitName.toLowerCase();
+    if (lower === 'day') return addDays(reference, amount);
+    if (lower === 'week') return addDays(reference, amount * 7);
+    return addMonths(reference, lower === 'month' ? amount : amount * 12);
+  };
+  for (const match of text.matchAll(
+    new RegExp(`\\bin\\s+${count}\\s+${unit}\\b`, 'gi')
+  )) {
+    const date = shift(countOf(match[1]), match[2]);
+    add('date', match.index ?? 0, match[0], isoDate(date), 0.85);
+  }
+  for (const match of text.matchAll(
+    new RegExp(`\\b${count}\\s+${unit}\\s+ago\\b`, 'gi')
+  )) {
+    const date = shift(-countOf(match[1]), match[2]);
+    add('date', match.index ?? 0, match[0], isoDate(date), 0.85);
+  }
+
+  // Whole periods normalize to ISO weeks, months and years
+  for (const match of text.matchAll(
+    /\b(next|this|last)\s+(week|month|year)\b/gi
+  )) {
+    const step = { next: 1, this: 0, last: -1 }[
+      match[1].toLowerCase() as 'next' | 'this' | 'last'
+    ];
+    const period = match[2].toLowerCase();
+    let value: string;
+    if (period === 'week') {
+      value = isoWeek(addDays(reference, step * 7));
+    } else if (period === 'month') {
+      value = isoDate(addMonths(reference, step)).slice(0, 7);
+    } else {
+      value = String(reference.getUTCFullYear() + step);
+    }
+    add('date', match.index ?? 0, match[0], value, 0.8);
+  }
+}
+
+function findTimes(text: string, add: Collector): void {
+  for (const match of text.matchAll(
+    /\b(\d{1,2})(?::([0-5]\d))?\s*([ap])(?:\.m\.|m\b)/gi
+  )) {
+    const hour = Number(match[1]);
+    if (hour < 1 || hour > 12) continue;
+    const pm = match[3].toLowerCase() === 'p';
+    const value = `${pad((hour % 12) + (pm ? 12 : 0))}:${match[2] ?? '00'}`;
+    add('time', match.index ?? 0, match[0], value, 0.95);
+  }
+
+  for (const match of text.matchAll(
+    /(?<![\d:.])([01]?\d|2[0-3]):([0-5]\d)(?![\d:])/g
+  )) {
+    add(
+      'time',
+      match.index ?? 0,
+      match[0],
+      `${pad(Number(match[1]))}:${match[2]}`,
+      0.85
+    );
+  }
+
+  for (const match of text.matchAll(/\b(noon|midday|midnight)\b/gi)) {
+    const value = match[1].toLowerCase() === 'midnight' ? '00:00' : '12:00';
+    add('time', match.index ?? 0, match[0], value, 0.9);
+  }
+}
+
+function findMoney(text: string, add: Collector): void {
+  const amount = '(\\d{1,3}(?:,\\d{3})+|\\d+)(?:\\.(\\d+))?';
+  const multiplier = `(?:\\s?(${Object.keys(MULTIPLIERS).join('|')})\\b)?`;
+  const parse = (whole: string, fraction = '', scale = '') =>
+    String(
+      round2(
+        Number(`${whole.replace(/,/g, '')}.${fraction || '0'}`) *
+          (MULTIPLIERS[scale.toLowerCase()] ?? 1)
+      )
+    );
+
+  for (const match of text.matchAll(
+    new RegExp(`(?<![\\w$€£¥₹])([$€£¥₹])\\s?${amount}${multiplier}`, 'gi')
+  )) {
+    add(
+      'money',
+      match.index ?? 0,
+      match[0],
+      parse(match[2], match[3], match[4]),
+      0.95,
+      { currency: CURRENCY_SYMBOLS[match[1]] }
+    );
+  }
+
+  for (const match of text.matchAll(
+    new RegExp(`\\b(${CURRENCY_CODES})\\s?${amount}${multiplier}`, 'g')
+  )) {
+    add(
+      'money',
+      match.index ?? 0,
+      match[0],
+      parse(match[2], match[3], match[4]),
+      0.9,
+      { currency: match[1] }
+    );
+  }
+
+  for (const match of text.matchAll(
+    new RegExp(
+      `(?<![\\w.])${amount}${multiplier}\\s?(${CURRENCY_CODES})\\b`,
+      'g'
+    )
+  )) {
+    add(
+      'money',
+      match.index ?? 0,
+      match[0],
+      parse(match[1], match[2], match[3]),
+      0.9,
+      { currency: match[4] }
+    );
+  }
+
+  const words = Object.keys(CURRENCY_WORDS).join('|');
+  for (const match of text.matchAll(
+    new RegExp(`(?<![\\w.])${amount}${multiplier}\\s+(${words})\\b`, 'gi')
+  )) {
+    const [currency, confidence] = CURRENCY_WORDS[match[4].toLowerCase()];
+    add(
+      'money',
+      match.index ?? 0,
+      match[0],
+      parse(match[1], match[2], match[3]),
+      confidence,
+      { currency }
+    );
+  }
+}
+
+function findPercentages(text: string, add: Collector): void {
+  for (const match of text.matchAll(
+    /(?<![\w.])(-?\d+(?:\.\d+)?)\s?(%|percent\b|per\s?cent\b)/gi
+  )) {
+    add(
+      'percent',
+      match.index ?? 0,
+      match[0],
+      String(Number(match[1])),
+      match[2] === '%' ? 0.95 : 0.9
+    );
+  }
+}
+
+// Reuses the protected-span patterns, minus file paths
+function findLinks(text: string, add: Collector): void {
+  detectProtectedSpans(text).forEach(span => {
+    if (span.kind === 'email') {
+      add('email', span.start, span.text, span.text.toLowerCase(), 0.95);
+    } else if (
+      span.kind === 'url' &&
+      /^(?:[a-z][\w+.-]*:\/\/|www\.)/i.test(span.text)
+    ) {
+      add(
+        'url',
+        span.start,
+        span.text,
+        span.text,
+        span.text.includes('://') ? 0.98 : 0.9
+      );
+    }
+  });
+}
+
+// Overlapping candidates keep the longest, then the higher priority type
+function resolveOverlaps(candidates: Entity[]): Entity[] {
+  const sorted = [...candidates].sort(
+    (a, b) =>
+      a.start - b.start ||
+      b.end - b.start - (a.end - a.start) ||
+      PRIORITY[a.type] - PRIORITY[b.type]
+  );
+  const kept: Entity[] = [];
+  let lastEnd = 0;
+  sorted.forEach(candidate => {
+    if (candidate.start < lastEnd) return;
+    kept.push(candidate);
+    lastEnd = candidate.end;
+  });
+  return kept;
+}
+
+// "Tuesday at 3pm", "3pm on Oct 20" and the like become one datetime
+function mergeDateTimes(text: string, entities: Entity[]): Entity[] {
+  const merged: Entity[] = [];
+  for (let i = 0; i < entities.length; i++) {
+    const current = entities[i];
+    const next = entities[i + 1];
+    const pair =
+      current.type === 'date' && next?.type === 'time'
+        ? { date: current, time: next, joiner: /^,?\s+(?:at\s+|@\s*)?$/i }
+        : current.type === 'time' && next?.type === 'date'
+          ? { date: next, time: current, joiner: /^,?\s+(?:on\s+)?$/i }
+          : null;
+
+    if (
+      pair &&
+      /^\d{4}-\d{2}-\d{2}$/.test(pair.date.value) &&
+      pair.joiner.test(text.slice(current.end, next.start))
+    ) {
+      merged.push({
+        type: 'datetime',
+        start: current.start,
+        end: next.end,
+        text: text.slice(current.start, next.end),
+        value: `${pair.date.value}T${pair.time.value}`,
+        confidence: Math.min(current.confidence, next.confidence),
+      });
+      i++;
+    } else {
+      merged.push(current);
+    }
+  }
+  return merged;
+}
+
+function isSentenceStart(
+  text: string,
+  sentenceStarts: number[],
+  at: number
+): boolean {
+  return sentenceStarts.some(
+    start => start <= at && /^[\s\p{P}\p{S}\d]*$/u.test(text.slice(start, at))
+  );
+}
+
+// Function words, calendar words and codes like "Q3" are never part of a name
+function isSkippableWord(word: string): boolean {
+  const lower = word.toLowerCase();
+  return (
+    /\p{N}/u.test(word) ||
+    PHRASE_STOPWORDS.has(lower) ||
+    NOT_NAMES.has(lower) ||
+    lower in MONTHS ||
+    WEEKDAYS.includes(lower)
+  );
+}
+
+function findNames(
+  text: string,
+  sentenceStarts: number[],
+  taken: Entity[],
+  owners: Set<string>,
+  add: Collector
+): void {
+  for (const match of text.matchAll(NAME_RUN)) {
+    const base = match.index ?? 0;
+    const words = Array.from(match[0].matchAll(/\S+/g), word => ({
+      start: base + (word.index ?? 0),
+      // Sentence periods and possessives are not part of the name
+      text: word[0].replace(/(?:['’]s)?\.?$/, ''),
+    }));
+
+    while (words.length > 0 && isSkippableWord(words[0].text)) words.shift();
+    while (words.length > 0) {
+      const last = words[words.length - 1].text;
+      if (!isSkippableWord(last) && !NAME_CONNECTOR.test(last)) break;
+      words.pop();
+    }
+    if (words.length === 0) continue;
+    if (
+      words.some(
+        word => isSkippableWord(word.text) && /^\p{Lu}/u.test(word.text)
+      )
+    ) {
+      continue;
+    }
+
+    const start = words[0].start;
+    const lastWord = words[words.length - 1];
+    const end = lastWord.start + lastWord.text.length;
+    if (taken.some(entity => entity.start < end && start < entity.end)) {
+      continue;
+    }
+
+    const name = text.slice(start, end);
+    const first = words[0].text.replace(/\.$/, '').toLowerCase();
+    // "Acme Corp", "University of Oxford"
+    const suffixed =
+      words.length > 1 &&
+      (ORG_SUFFIXES.has(first) ||
+        ORG_SUFFIXES.has(lastWord.text.toLowerCase()));
+    const capitalized = words.filter(word => /^\p{Lu}/u.test(word.text));
+    const initial = isSentenceStart(text, sentenceStarts, start);
+
+    if (HONORIFICS.has(first)) {
+      if (words.length < 2) continue;
+      const value = text.slice(words[1].start, end);
+      add('person', start, name, value, 0.9);
+    } else if (suffixed || capitalized.length < words.length) {
+      add('organization', start, name, name, suffixed ? 0.85 : 0.6);
+    } else if (words.length === 1 && /^\p{Lu}{2,6}$/u.test(name)) {
+      add('organization', start, name, name, 0.4);
+    } else if (words.length <= 3) {
+      let confidence = words.length === 1 ? 0.35 : 0.6;
+      if (initial) confidence -= 0.15;
+      if (owners.has(name)) confidence = Math.max(confidence, 0.75);
+      if (words.length > 1 || !initial || owners.has(name)) {
+        add('person', start, name, name, confidence);
+      }
+    } else {
+      add('organization', start, name, name, 0.5);
+    }
+  }
+}
+
+const ACTION_LABEL =
+  /^((?:[-*•][ \t]*)?(?:\[[ xX]?\][ \t]*)?)(?:TODO|To-?do|Action(?: item)?|Follow[- ]up)[ \t]*[:–-][ \t]*(\S.*)$/is;
+const CHECKBOX = /^([-*•]?[ \t]*\[ ?\][ \t]+)(\S.*)$/s;
+const OWNER_COMMITMENT = new RegExp(
+  `^((?:[-*•][ \\t]+)?)((?:${NAME_WORD})(?:[ \\t]+${NAME_WORD})?|I|We)(?:[ \\t]+(will|needs? to|should|must|is going to|are going to|to)|['’]ll)[ \\t]+(\\S.*)$`,
+  'su'
+);
+
+export const ENTITY_TABLES = {
+  months: MONTHS,
+  weekdays: WEEKDAYS,
+  numberWords: NUMBER_WORDS,
+  currencySymbols: CURRENCY_SYMBOLS,
+  currencyCodes: CURRENCY_CODES,
+  currencyWords: CURRENCY_WORDS,
+  multipliers: MULTIPLIERS,
+  honorifics: HONORIFICS,
+  orgSuffixes: ORG_SUFFIXES,
+  notNames: NOT_NAMES,
+  nameConnectors: NAME_CONNECTORS,
+  actionLabel: ACTION_LABEL,
+  checkbox: CHECKBOX,
+  ownerCommitment: OWNER_COMMITMENT,
+};
+
+function findActionItems(
+  text: string,
+  sentences: Sentence[],
+  owners: Set<string>,
+  add: Collector
+): void {
+  sentences.forEach(sentence => {
+    const content = sentence.text.replace(/[.!]+$/, '');
+    const label = content.match(ACTION_LABEL);
+    const labelled = label || content.match(CHECKBOX);
+    const commitment = labelled ? null : content.match(OWNER_COMMITMENT);
+    if (!labelled && !commitment) return;
+
+    const prefix = (labelled || commitment)?.[1] ?? '';
+    const start = sentence.start + prefix.length;
+    const spanText = text.slice(start, sentence.start + content.length);
+
+    if (labelled) {
+      const task = labelled[2];
+      const assigned = task.match(OWNER_COMMITMENT);
+      const owner =
+        assigned && !/^(?:I|We)$/.test(assigned[2]) ? assigned[2] : undefined;
+      if (owner) owners.add(owner);
+      add(
+        'actionItem',
+        start,
+        spanText,
+        task,
+        label ? 0.95 : 0.9,
+        owner ? { owner } : {}
+      );
+      return;
+    }
+
+    const [, , subject, verb, task] = commitment as RegExpMatchArray;
+    const pronoun = subject === 'I' || subject === 'We';
+    if (!pronoun && isSkippableWord(subject.split(/\s+/)[0])) return;
+    const confidence = pronoun ? 0.6 : verb === 'to' ? 0.7 : 0.75;
+    if (!pronoun) owners.add(subject);
+    add(
+      'actionItem',
+      start,
+      spanText,
+      task,
+      confidence,
+      pronoun ? {} : { owner: subject }
+    );
+  });
+}
+
+export function extractEntities(
+  text: string,
+  options: EntityOptions = {}
+): Entity[] {
+  const reference = parseReferenceDate(options.referenceDate);
+  const wanted = new Set(options.types ?? ENTITY_TYPES);
+
+  const candidates: Entity[] = [];
+  const collect =
+    (target: Entity[]): Collector =>
+    (type, start, value, normalized, confidence, extra = {}) => {
+      target.push({
+        type,
+        start,
+        end: start + value.length,
+        text: value,
+        value: normalized,
+        confidence: round2(confidence),
+        ...extra,
+      });
+    };
+
+  const add = collect(candidates);
+  findLinks(text, add);
+  findDates(text, reference, add);
+  findTimes(text, add);
+  findMoney(text, add);
+  findPercentages(text, add);
+
+  let entities = resolveOverlaps(candidates);
+  if (wanted.has('datetime')) entities = mergeDateTimes(text, entities);
+
+  // Action items come first so their owners count as likelier names
+  const sentences = segmentSentences(text);
+  const owners = new Set<string>();
+  const actions: Entity[] = [];
+  findActionItems(text, sentences, owners, collect(actions));
+
+  const names: Entity[] = [];
+  findNames(
+    text,
+    sentences.map(sentence => sentence.start),
+    entities,
+    owners,
+    collect(names)
+  );
+
+  return [...entities, ...names, ...actions]
+    .filter(entity => wanted.has(entity.type))
+    .sort((a, b) => a.start - b.start || PRIORITY[a.type] - PRIORITY[b.type]);
+}
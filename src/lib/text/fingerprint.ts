@@ -0,0 +1,230 @@
+// Locality-sensitive fingerprints for near-duplicate detection - a MinHash
+// signature over word shingles estimates how much two texts overlap (Jaccard
+// similarity), and a 64-bit SimHash over word counts gives a second, cheaper
+// score. Both work on normalized words, so casing, punctuation and spacing
+// differences between copies of the same paragraph do not matter.
+
+import { hashPair } from '../utils/hash';
+
+export interface TextFingerprint {
+  // FINGERPRINT_VERSION the fingerprint was computed with
+  version: number;
+  // Minimum hash per hash function, MINHASH_SIZE values
+  minhash: number[];
+  // 64 bits as 16 hex digits
+  simhash: string;
+  // Distinct shingles; 0 for text without words
+  shingles: number;
+}
+
+export interface FingerprintSimilarity {
+  // Estimated share of shingles the texts have in common, 0-1
+  jaccard: number;
+  // 1 - Hamming distance / 64
+  simhash: number;
+}
+
+// Fingerprints from other versions are not comparable and get recomputed
+export const FINGERPRINT_VERSION = 1;
+export const MINHASH_SIZE = 64;
+// Words per shingle; shorter texts are one shingle
+export const SHINGLE_SIZE = 3;
+// Near-duplicates share at least this estimated Jaccard similarity
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+// Clustering only compares fingerprints that agree on every row of at least
+// one band. With 16 bands of 4 rows, pairs at 0.8 similarity are found
+// 99.9% of the time and pairs at 0.6 89% of the time.
+const LSH_BANDS = 16;
+const LSH_ROWS = MINHASH_SIZE / LSH_BANDS;
+
+function normalizedWords(text: string): string[] {
+  return (
+    text
+      .normalize('NFKC')
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || []
+  );
+}
+
+function shingles(words: string[]): Set<string> {
+  if (words.length <= SHINGLE_SIZE) {
+    return new Set(words.length ? [words.join(' ')] : []);
+  }
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+// Hash function i is h1 + i * h2 (double hashing), so each shingle is only
+// hashed once
+function minhashSignature(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  shingleSet.forEach(shingle => {
+    const [h1, h2] = hashPair(shingle);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = (h1 + Math.imul(i, h2)) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  });
+  return signature;
+}
+
+function simhash(words: string[]): string {
+  const weights = new Array<number>(64).fill(0);
+  const counts = new Map<string, number>();
+  words.forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+
+  counts.forEach((count, word) => {
+    const halves = hashPair(word);
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? count : -count;
+    }
+  });
+
+  const halves = [0, 0];
+  weights.forEach((weight, bit) => {
+    if (weight > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  });
+  return halves
+    .reverse()
+    .map(half => (half >>> 0).toString(16).padStart(8, '0'))
+    .join('');
+}
+
+export function fingerprintText(text: string): TextFingerprint {
+  const words = normalizedWords(text);
+  const shingleSet = shingles(words);
+  return {
+    version: FINGERPRINT_VERSION,
+    minhash: minhashSignature(shingleSet),
+    simhash: simhash(words),
+    shingles: shingleSet.size,
+  };
+}
+
+// A stored fingerprint that can be compared with new ones
+export function isCurrentFingerprint(value: unknown): value is TextFingerprint {
+  const fingerprint = value as TextFingerprint | undefined;
+  return (
+    fingerprint?.version === FINGERPRINT_VERSION &&
+    Array.isArray(fingerprint.minhash) &&
+    fingerprint.minhash.length === MINHASH_SIZE &&
+    typeof fingerprint.simhash === 'string'
+  );
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let bits = value >>> 0; bits; bits &= bits - 1) count++;
+  return count;
+}
+
+function hammingDistance(a: string, b: string): number {
+  return (
+    popcount(parseInt(a.slice(0, 8), 16) ^ parseInt(b.slice(0, 8), 16)) +
+    popcount(parseInt(a.slice(8), 16) ^ parseInt(b.slice(8), 16))
+  );
+}
+
+// Texts without words resemble nothing, not even each other
+export function compareFingerprints(
+  a: TextFingerprint,
+  b: TextFingerprint
+): FingerprintSimilarity {
+  if (a.shingles === 0 || b.shingles === 0) {
+    return { jaccard: 0, simhash: 0 };
+  }
+  const matching = a.minhash.filter(
+    (value, index) => value === b.minhash[index]
+  ).length;
+  return {
+    jaccard: matching / MINHASH_SIZE,
+    simhash: 1 - hammingDistance(a.simhash, b.simhash) / 64,
+  };
+}
+
+export interface FingerprintEntry {
+  id: string;
+  fingerprint: TextFingerprint;
+}
+
+export interface FingerprintMatch {
+  id: string;
+  similarity: FingerprintSimilarity;
+}
+
+// Entries at or above the threshold, most similar first
+export function findNearDuplicates(
+  fingerprint: TextFingerprint,
+  entries: FingerprintEntry[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): FingerprintMatch[] {
+  return entries
+    .map(entry => ({
+      id: entry.id,
+      similarity: compareFingerprints(fingerprint, entry.fingerprint),
+    }))
+    .filter(match => match.similarity.jaccard >= threshold)
+    .sort((a, b) => b.similarity.jaccard - a.similarity.jaccard);
+}
+
+// Groups of two or more ids, linked by any pair at or above the threshold,
+// so a chain of close copies ends up in one group. Ids keep their input
+// order within and across groups.
+export function clusterNearDuplicates(
+  entries: FingerprintEntry[],
+  threshold = DEFAULT_DUPLICATE_THRESHOLD
+): string[][] {
+  const parent = entries.map((_, index) => index);
+  const root = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const buckets = new Map<string, number[]>();
+  entries.forEach((entry, index) => {
+    if (entry.fingerprint.shingles === 0) return;
+    for (let band = 0; band < LSH_BANDS; band++) {
+      const rows = entry.fingerprint.minhash.slice(
+        band * LSH_ROWS,
+        (band + 1) * LSH_ROWS
+      );
+      const key = `${band}:${rows.join(',')}`;
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const compared = new Set<string>();
+  buckets.forEach(bucket => {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const [a, b] = [bucket[i], bucket[j]];
+        const pair = `${a},${b}`;
+        if (compared.has(pair) || root(a) === root(b)) continue;
+        compared.add(pair);
+        const similarity = compareFingerprints(
+          entries[a].fingerprint,
+          entries[b].fingerprint
+        );
+        if (similarity.jaccard >= threshold) parent[root(b)] = root(a);
+      }
+    }
+  });
+
+  const groups = new Map<number, string[]>();
+  entries.forEach((entry, index) => {
+    const group = groups.get(root(index));
+    if (group) group.push(entry.id);
+    else groups.set(root(index), [entry.id]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
@@ -0,0 +1,329 @@
+// Structural formatting transforms - lists, casing, tables, CSV/JSON
+// and whitespace cleanup. All are pure, deterministic string functions.
+
+import { detectProtectedSpans } from './protectedSpans';
+import { isAbbreviation, segmentSentences } from './segmenter';
+
+export type FormatTransform = (text: string) => string;
+
+const BULLET_MARKER = /^\s*(?:[-*•▪‣◦–]|\d+[.)]|[a-z][.)])\s+/i;
+
+// Words kept lowercase in title case unless first, last or after a colon
+// prettier-ignore
+const SMALL_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'but', 'or', 'nor', 'for', 'so', 'yet', 'as',
+  'at', 'by', 'in', 'of', 'off', 'on', 'per', 'to', 'up', 'via', 'vs',
+  'vs.', 'v.', 'en', 'if', 'from', 'into', 'onto', 'with',
+]);
+
+const DELIMITERS = ['\t', '|', ';', ','];
+
+export const FORMATTING_TABLES = {
+  bulletMarker: BULLET_MARKER,
+  smallWords: SMALL_WORDS,
+  delimiters: DELIMITERS,
+};
+
+// Items of a list: one per non-blank line, or the sentences of a single
+// paragraph
+function listItems(text: string): string[] {
+  const lines = text.split('\n').filter(line => line.trim());
+  if (lines.length > 1) {
+    return lines.map(line => line.replace(BULLET_MARKER, '').trim());
+  }
+  return segmentSentences(text).map(sentence =>
+    sentence.text.replace(BULLET_MARKER, '')
+  );
+}
+
+export function toBulletList(text: string): string {
+  return listItems(text)
+    .map(item => `- ${item}`)
+    .join('\n');
+}
+
+export function toNumberedList(text: string): string {
+  return listItems(text)
+    .map((item, index) => `${index + 1}. ${item}`)
+    .join('\n');
+}
+
+export function bulletsToParagraph(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(BULLET_MARKER, '').trim())
+    .filter(Boolean)
+    .map(item => {
+      const capitalized = item.charAt(0).toUpperCase() + item.slice(1);
+      return /[.!?:;…]$/.test(capitalized) ? capitalized : `${capitalized}.`;
+    })
+    .join(' ');
+}
+
+// Mixed-case words (iPhone, JavaScript), acronyms and URLs keep their casing
+function hasFixedCase(word: string): boolean {
+  if (/[./@\\]\w/.test(word) || /\d/.test(word)) return true;
+  const letters = word.replace(/[^\p{L}]/gu, '');
+  return letters.length > 1 && /\p{Lu}/u.test(letters.slice(1));
+}
+
+function capitalize(word: string): string {
+  return word.replace(/\p{L}/u, ch => ch.toUpperCase());
+}
+
+function titleCaseLine(line: string): string {
+  const parts = line.split(/(\s+)/);
+  const wordIndexes = parts
+    .map((part, index) => (/\S/.test(part) ? index : -1))
+    .filter(index => index >= 0);
+  const first = wordIndexes[0];
+  const last = wordIndexes[wordIndexes.length - 1];
+
+  let afterColon = false;
+  return parts
+    .map((part, index) => {
+      if (!/\S/.test(part)) return part;
+      const forceCap = index === first || index === last || afterColon;
+      afterColon = /[:—–]$/.test(part);
+
+      if (hasFixedCase(part)) return part;
+      const lower = part.toLowerCase();
+      const bare = lower.replace(/^[^\p{L}]+|[^\p{L}.]+$/gu, '');
+      if (!forceCap && SMALL_WORDS.has(bare)) return lower;
+      // Capitalize each part of hyphenated compounds
+      return lower
+        .split('-')
+        .map(segment => capitalize(segment))
+        .join('-');
+    })
+    .join('');
+}
+
+export function toTitleCase(text: string): string {
+  return text.split('\n').map(titleCaseLine).join('\n');
+}
+
+// Ranges of text that start a sentence for sentence case: the start, any
+// word after . ! ? or … (and closing quotes) unless the word before is an
+// abbreviation, and paragraphs and list items. Unlike segmentSentences, a
+// lowercase word can start a sentence here - that is what gets fixed.
+function sentenceCaseRanges(text: string): Array<[number, number]> {
+  const starts = [0];
+  const words = /\S+/g;
+  let previous: RegExpExecArray | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = words.exec(text))) {
+    if (previous) {
+      const gap = text.slice(previous.index + previous[0].length, match.index);
+      const ended =
+        /[.!?…]["'”’)\]]*$/.test(previous[0]) &&
+        !(
+          /\.["'”’)\]]*$/.test(previous[0]) &&
+          isAbbreviation(previous[0].replace(/["'”’)\]]+$/, ''))
+        );
+      const newBlock =
+        /\n\s*\n/.test(gap) ||
+        (gap.includes('\n') && BULLET_MARKER.test(text.slice(match.index)));
+      if (ended || newBlock) starts.push(match.index);
+    }
+    previous = match;
+  }
+  return starts.map((start, index) => [
+    start,
+    starts[index + 1] ?? text.length,
+  ]);
+}
+
+export function toSentenceCase(text: string): string {
+  const spans = detectProtectedSpans(text);
+  const isProtected = (start: number, end: number) =>
+    spans.some(span => start < span.end && span.start < end);
+
+  return sentenceCaseRanges(text)
+    .map(([start, end]) => {
+      const sentence = text.slice(start, end);
+      let seenFirst = false;
+      // An all-caps sentence is shouting, not a run of acronyms
+      const shouting = !/\p{Ll}/u.test(sentence);
+      return sentence.replace(/\S+/g, (word, offset: number) => {
+        const wordStart = start + offset;
+        if (isProtected(wordStart, wordStart + word.length)) {
+          seenFirst = true;
+          return word;
+        }
+        const isFirst = !seenFirst && /\p{L}/u.test(word);
+        if (isFirst) seenFirst = true;
+        const keep =
+          hasFixedCase(word) && !(shouting && /\p{L}{2}/u.test(word));
+        if (keep || word === 'I' || /^I['’]/.test(word)) {
+          return word;
+        }
+        const lower = word.toLowerCase();
+        return isFirst ? capitalize(lower) : lower;
+      });
+    })
+    .join('');
+}
+
+const KEY_VALUE = /^\s*(?:[-*•]\s+)?([^:=|]{1,60}?)\s*[:=]\s+(.+?)\s*$/;
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|');
+}
+
+// Each run of two or more "key: value" lines becomes a Markdown table
+export function keyValueToTable(text: string): string {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  let run: Array<[string, string]> = [];
+  let runLines: string[] = [];
+
+  const flush = () => {
+    if (run.length >= 2) {
+      output.push('| Key | Value |', '| --- | --- |');
+      run.forEach(([key, value]) => {
+        output.push(`| ${escapeCell(key)} | ${escapeCell(value)} |`);
+      });
+    } else {
+      output.push(...runLines);
+    }
+    run = [];
+    runLines = [];
+  };
+
+  lines.forEach(line => {
+    const match = line.match(KEY_VALUE);
+    if (match) {
+      run.push([match[1].trim(), match[2]]);
+      runLines.push(line);
+    } else {
+      flush();
+      output.push(line);
+    }
+  });
+  flush();
+
+  return output.join('\n');
+}
+
+// Split one line of delimited text, honouring double-quoted fields
+export function splitDelimitedLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"' && current.trim() === '') {
+      quoted = true;
+      current = '';
+    } else if (ch === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  fields.push(current.trim());
+
+  // Markdown-style rows ("| a | b |") carry empty edge fields
+  if (delimiter === '|' && fields.length > 2) {
+    if (fields[0] === '') fields.shift();
+    if (fields[fields.length - 1] === '') fields.pop();
+  }
+  return fields;
+}
+
+// Pick the delimiter that splits every line into the same number of fields
+export function detectDelimiter(lines: string[]): string | null {
+  let best: string | null = null;
+  let bestFields = 1;
+
+  for (const delimiter of DELIMITERS) {
+    const counts = lines.map(
+      line => splitDelimitedLine(line, delimiter).length
+    );
+    const consistent = counts.every(count => count === counts[0]);
+    if (consistent && counts[0] > bestFields) {
+      best = delimiter;
+      bestFields = counts[0];
+    }
+  }
+  return best;
+}
+
+export function parseDelimited(text: string): string[][] {
+  const lines = text
+    .split('\n')
+    .filter(line => line.trim() && !/^\s*\|?[\s:|-]+\|?\s*$/.test(line));
+  if (lines.length === 0) return [];
+
+  const delimiter = detectDelimiter(lines);
+  if (!delimiter) {
+    throw new Error('Could not detect a consistent delimiter');
+  }
+  return lines.map(line => splitDelimitedLine(line, delimiter));
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function delimitedToCsv(text: string): string {
+  return parseDelimited(text)
+    .map(row => row.map(csvField).join(','))
+    .join('\n');
+}
+
+// First row is the header; remaining rows become objects
+export function delimitedToJson(text: string): string {
+  const [header, ...rows] = parseDelimited(text);
+  if (!header) return '[]';
+
+  const records = rows.map(row =>
+    Object.fromEntries(header.map((key, index) => [key, row[index] ?? '']))
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+export function normalizeWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[\u200B-\u200D\uFEFF]/g, '')
+    .replace(/[\u00A0\u2000-\u200A\u202F\u205F\u3000]/g, ' ')
+    .split('\n')
+    .map(line => {
+      const indent = line.match(/^[ \t]*/)?.[0] ?? '';
+      return (
+        indent +
+        line
+          .slice(indent.length)
+          .replace(/[ \t]+/g, ' ')
+          .trimEnd()
+      );
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export const FORMAT_TRANSFORMS: Record<string, FormatTransform> = {
+  bullets: toBulletList,
+  numbered: toNumberedList,
+  paragraph: bulletsToParagraph,
+  titleCase: toTitleCase,
+  sentenceCase: toSentenceCase,
+  table: keyValueToTable,
+  csv: delimitedToCsv,
+  json: delimitedToJson,
+  whitespace: normalizeWhitespace,
+};
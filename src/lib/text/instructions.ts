@@ -0,0 +1,295 @@
+// Deterministic instruction mini-language for the `prompt` setting
+// One command per line (or separated by ";"), e.g.
+//   replace "foo" with "bar"
+//   remove sentences containing "TBD"
+//   bulletize
+//   max 50 words
+//   uppercase headings
+// Blank lines and lines starting with "#" are ignored
+
+import { toBulletList } from './formatting';
+import { joinSentences, segmentSentences } from './segmenter';
+
+export type Instruction =
+  | { kind: 'replace'; from: string; to: string; line: number }
+  | { kind: 'remove'; needle: string; line: number }
+  | { kind: 'removeSentences'; needle: string; line: number }
+  | { kind: 'bulletize'; line: number }
+  | {
+      kind: 'max';
+      count: number;
+      unit: 'words' | 'sentences' | 'characters';
+      line: number;
+    }
+  | { kind: 'uppercaseHeadings'; line: number };
+
+export interface InstructionError {
+  line: number;
+  source: string;
+  message: string;
+}
+
+export interface ParsedInstructions {
+  instructions: Instruction[];
+  errors: InstructionError[];
+}
+
+const QUOTED = `"((?:[^"\\\\]|\\\\.)*)"|'((?:[^'\\\\]|\\\\.)*)'`;
+
+const COMMAND_SYNTAX: Record<string, string> = {
+  replace: 'replace "old" with "new"',
+  remove: 'remove "text" or remove sentences containing "text"',
+  bulletize: 'bulletize',
+  max: 'max <number> words|sentences|characters',
+  uppercase: 'uppercase headings',
+};
+
+function unquote(match: RegExpMatchArray, index: number): string {
+  const value = match[index] ?? match[index + 1] ?? '';
+  return value.replace(/\\(.)/g, '$1');
+}
+
+function parseLine(source: string, line: number): Instruction | string {
+  let match = source.match(
+    new RegExp(`^replace\\s+(?:${QUOTED})\\s+with\\s+(?:${QUOTED})$`, 'i')
+  );
+  if (match) {
+    const from = unquote(match, 1);
+    if (!from) return 'replace needs a non-empty search text';
+    return { kind: 'replace', from, to: unquote(match, 3), line };
+  }
+
+  match = source.match(
+    new RegExp(`^remove\\s+sentences?\\s+containing\\s+(?:${QUOTED})$`, 'i')
+  );
+  if (match) {
+    const needle = unquote(match, 1);
+    if (!needle) return 'remove sentences needs a non-empty search text';
+    return { kind: 'removeSentences', needle, line };
+  }
+
+  match = source.match(new RegExp(`^remove\\s+(?:${QUOTED})$`, 'i'));
+  if (match) {
+    const needle = unquote(match, 1);
+    if (!needle) return 'remove needs a non-empty search text';
+    return { kind: 'remove', needle, line };
+  }
+
+  if (/^bulleti[sz]e$/i.test(source)) {
+    return { kind: 'bulletize', line };
+  }
+
+  match = source.match(
+    /^max(?:imum)?\s+(\d+)\s+(words?|sentences?|char(?:acter)?s?)$/i
+  );
+  if (match) {
+    const count = parseInt(match[1], 10);
+    if (count <= 0) return 'max needs a positive number';
+    const unit = match[2].toLowerCase();
+    return {
+      kind: 'max',
+      count,
+      unit: unit.startsWith('word')
+        ? 'words'
+        : unit.startsWith('sentence')
+          ? 'sentences'
+          : 'characters',
+      line,
+    };
+  }
+
+  if (/^uppercase\s+headings?$/i.test(source)) {
+    return { kind: 'uppercaseHeadings', line };
+  }
+
+  const command = source.split(/\s+/)[0].toLowerCase();
+  if (COMMAND_SYNTAX[command]) {
+    return `invalid "${command}" syntax, expected: ${COMMAND_SYNTAX[command]}`;
+  }
+  return `unknown command "${command}", expected one of: ${Object.keys(
+    COMMAND_SYNTAX
+  ).join(', ')}`;
+}
+
+// Split on newlines and on ";" outside quotes
+function splitCommands(source: string): Array<{ text: string; line: number }> {
+  const commands: Array<{ text: string; line: number }> = [];
+  source.split('\n').forEach((lineText, index) => {
+    let current = '';
+    let quote = '';
+    for (let i = 0; i < lineText.length; i++) {
+      const ch = lineText[i];
+      if (quote) {
+        if (ch === '\\') {
+          current += ch + (lineText[i + 1] ?? '');
+          i++;
+          continue;
+        }
+        if (ch === quote) quote = '';
+      } else if (ch === '"' || ch === "'") {
+        quote = ch;
+      } else if (ch === ';') {
+        commands.push({ text: current, line: index + 1 });
+        current = '';
+        continue;
+      }
+      current += ch;
+    }
+    commands.push({ text: current, line: index + 1 });
+  });
+  return commands
+    .map(command => ({ ...command, text: command.text.trim() }))
+    .filter(command => command.text && !command.text.startsWith('#'));
+}
+
+export function parseInstructions(source: string): ParsedInstructions {
+  const instructions: Instruction[] = [];
+  const errors: InstructionError[] = [];
+
+  splitCommands(source).forEach(({ text, line }) => {
+    const parsed = parseLine(text, line);
+    if (typeof parsed === 'string') {
+      errors.push({ line, source: text, message: `Line ${line}: ${parsed}` });
+    } else {
+      instructions.push(parsed);
+    }
+  });
+
+  return { instructions, errors };
+}
+
+function countOccurrences(text: string, needle: string): number {
+  return text.split(needle).length - 1;
+}
+
+function isHeading(line: string): boolean {
+  const trimmed = line.trim();
+  if (/^#{1,6}\s+\S/.test(trimmed)) return true;
+  return (
+    /\p{L}/u.test(trimmed) &&
+    !/[.!?,;:]$/.test(trimmed) &&
+    trimmed.split(/\s+/).length <= 8
+  );
+}
+
+function truncateWords(text: string, count: number): string {
+  const words = Array.from(text.matchAll(/\S+/g));
+  if (words.length <= count) return text;
+  const last = words[count - 1];
+  const cut = text.slice(0, (last.index ?? 0) + last[0].length);
+  return /[.!?]$/.test(cut) ? cut : cut.replace(/[,;:]$/, '') + '…';
+}
+
+function truncateCharacters(text: string, count: number): string {
+  if (text.length <= count) return text;
+  // Cut at the last word boundary that fits, leaving room for the ellipsis
+  const slice = text.slice(0, Math.max(0, count - 1));
+  const boundary = slice.search(/\s+\S*$/);
+  const cut = boundary > 0 ? slice.slice(0, boundary) : slice;
+  return cut.replace(/[\s,;:]+$/, '') + '…';
+}
+
+function describeInstruction(instruction: Instruction): string {
+  switch (instruction.kind) {
+    case 'replace':
+      return `replace("${instruction.from}"→"${instruction.to}")`;
+    case 'remove':
+      return `remove("${instruction.needle}")`;
+    case 'removeSentences':
+      return `remove_sentences_containing("${instruction.needle}")`;
+    case 'bulletize':
+      return 'bulletize';
+    case 'max':
+      return `max_${instruction.count}_${instruction.unit}`;
+    case 'uppercaseHeadings':
+      return 'uppercase_headings';
+  }
+}
+
+export function executeInstruction(
+  text: string,
+  instruction: Instruction
+): { text: string; changes: number } {
+  switch (instruction.kind) {
+    case 'replace': {
+      const changes = countOccurrences(text, instruction.from);
+      return {
+        text: text.split(instruction.from).join(instruction.to),
+        changes,
+      };
+    }
+
+    case 'remove': {
+      const changes = countOccurrences(text, instruction.needle);
+      if (changes === 0) return { text, changes };
+      const result = text
+        .split(instruction.needle)
+        .join('')
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/[ \t]+([,.;:!?])/g, '$1');
+      return { text: result.trim(), changes };
+    }
+
+    case 'removeSentences': {
+      const needle = instruction.needle.toLowerCase();
+      const sentences = segmentSentences(text);
+      const kept = sentences.filter(
+        sentence => !sentence.text.toLowerCase().includes(needle)
+      );
+      return {
+        text: joinSentences(text, kept),
+        changes: sentences.length - kept.length,
+      };
+    }
+
+    case 'bulletize': {
+      const result = toBulletList(text);
+      return { text: result, changes: result.split('\n').length };
+    }
+
+    case 'max': {
+      let result = text;
+      if (instruction.unit === 'words') {
+        result = truncateWords(text, instruction.count);
+      } else if (instruction.unit === 'sentences') {
+        const sentences = segmentSentences(text);
+        result = joinSentences(text, sentences.slice(0, instruction.count));
+      } else {
+        result = truncateCharacters(text, instruction.count);
+      }
+      return { text: result, changes: result === text ? 0 : 1 };
+    }
+
+    case 'uppercaseHeadings': {
+      let changes = 0;
+      const lines = text.split('\n');
+      const result = lines.map((line, index) => {
+        // A trailing line is body text, not a heading
+        const isLast = index === lines.length - 1;
+        if (isLast || !isHeading(line)) return line;
+        const upper = line.toUpperCase();
+        if (upper !== line) changes++;
+        return upper;
+      });
+      return { text: result.join('\n'), changes };
+    }
+  }
+}
+
+export function executeInstructions(
+  text: string,
+  instructions: Instruction[]
+): { text: string; rules: string[] } {
+  const rules: string[] = [];
+  let result = text;
+
+  instructions.forEach(instruction => {
+    const step = executeInstruction(result, instruction);
+    result = step.text;
+    rules.push(
+      `instruction_${instruction.line}:${describeInstruction(instruction)}_${step.changes}_changes`
+    );
+  });
+
+  return { text: result, rules };
+}
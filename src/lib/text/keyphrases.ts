@@ -0,0 +1,213 @@
+// RAKE-style key-phrase extraction - candidate phrases are runs of content
+// words between stopwords and punctuation, scored by word degree/frequency over
+// stems, optionally weighted by inverse document frequency over saved items
+
+import type { LanguageResources } from './languageResources';
+import { stem } from './stemmer';
+import { PHRASE_STOPWORDS } from './stopwords';
+
+export interface ScoredKeyword {
+  keyword: string;
+  score: number;
+  // Occurrences of the phrase, counting every inflected form
+  count: number;
+}
+
+// Document frequencies of stems across the user's saved items
+export interface CorpusStats {
+  documents: number;
+  frequencies: Record<string, number>;
+}
+
+export interface KeyphraseOptions {
+  maxKeywords?: number;
+  // Weights word scores by IDF when present
+  corpus?: CorpusStats;
+  language?: PhraseLanguage;
+}
+
+interface Candidate {
+  count: number;
+  stems: string[];
+  // Surface forms seen, with counts; the most common one is shown
+  forms: Map<string, number>;
+}
+
+// Accumulates candidates over chunks so long texts can be counted in pieces
+export interface PhraseStats {
+  candidates: Map<string, Candidate>;
+  wordFrequency: Map<string, number>;
+  wordDegree: Map<string, number>;
+}
+
+export const DEFAULT_MAX_KEYWORDS = 10;
+
+// Longer runs of content words are split into phrases of at most this length
+const MAX_PHRASE_WORDS = 4;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’.+#-][\p{L}\p{N}]+)*[+#]*/gu;
+
+// Stopwords and stemmer for the text's language; English when absent
+export type PhraseLanguage = Pick<
+  LanguageResources,
+  'phraseStopwords' | 'stem'
+>;
+
+const ENGLISH: PhraseLanguage = { phraseStopwords: PHRASE_STOPWORDS, stem };
+
+function isContentWord(token: string, stopwords: ReadonlySet<string>): boolean {
+  const lower = token.toLowerCase();
+  if (stopwords.has(lower)) return false;
+  if (/^[\d.,'’-]+$/.test(token)) return false;
+  // Two-letter words only count as acronyms ("AI", "UX")
+  return token.length > 2 || /^\p{Lu}{2}$/u.test(token);
+}
+
+// Acronyms keep their case; everything else is shown in lowercase
+function displayForm(token: string): string {
+  return /^\p{Lu}[\p{Lu}\p{N}]+s?$/u.test(token) ? token : token.toLowerCase();
+}
+
+// Content-word runs, split at stopwords, punctuation and line breaks
+function candidatePhrases(
+  text: string,
+  stopwords: ReadonlySet<string>
+): string[][] {
+  const phrases: string[][] = [];
+  let current: string[] = [];
+  let lastEnd = 0;
+
+  const flush = () => {
+    for (let i = 0; i < current.length; i += MAX_PHRASE_WORDS) {
+      phrases.push(current.slice(i, i + MAX_PHRASE_WORDS));
+    }
+    current = [];
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const gap = text.slice(lastEnd, start);
+    lastEnd = start + match[0].length;
+
+    if (/[^\s]|\n/.test(gap)) flush();
+    if (isContentWord(match[0], stopwords)) {
+      current.push(match[0]);
+    } else {
+      flush();
+    }
+  }
+  flush();
+  return phrases;
+}
+
+export function createPhraseStats(): PhraseStats {
+  return {
+    candidates: new Map(),
+    wordFrequency: new Map(),
+    wordDegree: new Map(),
+  };
+}
+
+export function addPhraseCandidates(
+  stats: PhraseStats,
+  text: string,
+  language: PhraseLanguage = ENGLISH
+): void {
+  for (const phrase of candidatePhrases(text, language.phraseStopwords)) {
+    const stems = phrase.map(word => language.stem(word));
+    const key = stems.join(' ');
+    const form = phrase.map(displayForm).join(' ');
+
+    const candidate = stats.candidates.get(key) || {
+      count: 0,
+      stems,
+      forms: new Map<string, number>(),
+    };
+    candidate.count++;
+    candidate.forms.set(form, (candidate.forms.get(form) || 0) + 1);
+    stats.candidates.set(key, candidate);
+
+    stems.forEach(word => {
+      stats.wordFrequency.set(word, (stats.wordFrequency.get(word) || 0) + 1);
+      stats.wordDegree.set(
+        word,
+        (stats.wordDegree.get(word) || 0) + stems.length
+      );
+    });
+  }
+}
+
+// Smoothed, so stems the corpus has never seen get the highest weight
+export function inverseDocumentFrequency(
+  stemmed: string,
+  corpus: CorpusStats
+): number {
+  const frequency = corpus.frequencies[stemmed] || 0;
+  return Math.log((1 + corpus.documents) / (1 + frequency)) + 1;
+}
+
+function mostCommonForm(forms: Map<string, number>): string {
+  let best = '';
+  let bestCount = 0;
+  forms.forEach((count, form) => {
+    if (count > bestCount || (count === bestCount && form < best)) {
+      best = form;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+export function rankKeyphrases(
+  stats: PhraseStats,
+  options: KeyphraseOptions = {}
+): ScoredKeyword[] {
+  const wordScore = (word: string) => {
+    const score =
+      (stats.wordDegree.get(word) || 0) / (stats.wordFrequency.get(word) || 1);
+    return options.corpus
+      ? score * inverseDocumentFrequency(word, options.corpus)
+      : score;
+  };
+
+  return Array.from(stats.candidates, ([key, candidate]) => ({
+    key,
+    keyword: mostCommonForm(candidate.forms),
+    // Classic RAKE ignores repetition; weighting by it keeps one-off long
+    // phrases from crowding out the text's recurring terms
+    score:
+      candidate.stems.reduce((sum, word) => sum + wordScore(word), 0) *
+      Math.sqrt(candidate.count),
+    count: candidate.count,
+  }))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.count - a.count ||
+        (a.key < b.key ? -1 : a.key > b.key ? 1 : 0)
+    )
+    .slice(0, options.maxKeywords ?? DEFAULT_MAX_KEYWORDS)
+    .map(({ keyword, score, count }) => ({
+      keyword,
+      score: Math.round(score * 1000) / 1000,
+      count,
+    }));
+}
+
+export function extractKeyphrases(
+  text: string,
+  options: KeyphraseOptions = {}
+): ScoredKeyword[] {
+  const stats = createPhraseStats();
+  addPhraseCandidates(stats, text, options.language);
+  return rankKeyphrases(stats, options);
+}
+
+// Distinct content-word stems of a document, for document frequencies
+export function documentTerms(text: string): string[] {
+  const terms = new Set<string>();
+  candidatePhrases(text, PHRASE_STOPWORDS).forEach(phrase =>
+    phrase.forEach(word => terms.add(stem(word)))
+  );
+  return Array.from(terms).sort();
+}
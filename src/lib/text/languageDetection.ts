@@ -0,0 +1,186 @@
+// Character n-gram language identification - texts are compared with trigram
+// profiles built from short reference samples by cosine similarity. Profiles
+// can be registered for more languages; resource bundles are separate
+// (languageResources.ts), so a language can be recognized without being
+// supported.
+
+export interface LanguageScore {
+  // ISO 639-1 code
+  language: string;
+  // Cosine similarity with the language's profile, 0-1
+  score: number;
+}
+
+export interface LanguageGuess {
+  // 'und' (undetermined) when the text is too short, matches nothing well or
+  // matches several languages about equally
+  language: string;
+  // 0-1: how far the best profile stands out from the runner-up
+  confidence: number;
+  // Best first
+  candidates: LanguageScore[];
+}
+
+export const UNDETERMINED = 'und';
+
+// Shorter texts are undetermined
+const MIN_LETTERS = 20;
+// Only this much of a long text is profiled
+const MAX_SAMPLE_CHARS = 2000;
+// Below this similarity no profile matches
+const MIN_SCORE = 0.1;
+// Short noun-heavy English ("Inventory management system") can edge towards
+// a Romance profile; guesses this close to the runner-up are not trusted
+const MIN_CONFIDENCE = 0.3;
+
+// Links and addresses say nothing about the prose around them
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\S+@\S+/gi;
+
+// Reference samples: everyday prose heavy in function words, which carry
+// most of a language's trigram signature
+const SAMPLES: Record<string, string> = {
+  en: `The meeting was moved to the afternoon because most of the team had
+    other plans in the morning. We will review the report and then decide what
+    should happen with the project. It is important that everyone has the
+    information they need before the end of the week. If you have any questions
+    about this, please let me know and I would be happy to help. They said that
+    there were some problems with the new system, but these have now been
+    fixed. Which of these options do you think would work best for your work?`,
+  de: `Die Besprechung wurde auf den Nachmittag verschoben, weil die meisten
+    aus dem Team am Vormittag andere Termine hatten. Wir werden den Bericht
+    prüfen und dann entscheiden, was mit dem Projekt geschehen soll. Es ist
+    wichtig, dass alle vor dem Ende der Woche die nötigen Informationen haben.
+    Wenn Sie dazu Fragen haben, lassen Sie es mich bitte wissen, ich helfe
+    gerne. Sie sagten, dass es einige Probleme mit dem neuen System gab, aber
+    diese sind inzwischen behoben. Welche dieser Möglichkeiten ist für Ihre
+    Arbeit am besten geeignet? Auch nicht nur noch schon sich auch über zwischen.`,
+  es: `La reunión se trasladó a la tarde porque la mayoría del equipo tenía
+    otros planes por la mañana. Vamos a revisar el informe y luego decidiremos
+    qué debe pasar con el proyecto. Es importante que todos tengan la
+    información que necesitan antes del final de la semana. Si tiene alguna
+    pregunta sobre esto, por favor hágamelo saber y con gusto le ayudaré.
+    Dijeron que había algunos problemas con el nuevo sistema, pero ya se han
+    solucionado. ¿Cuál de estas opciones cree que funcionaría mejor para su
+    trabajo? También los las del una como pero muy cuando.`,
+  fr: `La réunion a été déplacée à l'après-midi parce que la plupart de
+    l'équipe avait d'autres projets le matin. Nous allons examiner le rapport
+    et ensuite décider de ce qui doit se passer avec le projet. Il est
+    important que chacun ait les informations nécessaires avant la fin de la
+    semaine. Si vous avez des questions à ce sujet, n'hésitez pas à me le faire
+    savoir, je serai heureux de vous aider. Ils ont dit qu'il y avait quelques
+    problèmes avec le nouveau système, mais ils sont maintenant résolus. Quelle
+    option vous semble la meilleure pour votre travail? Les des une pour avec.`,
+  it: `La riunione è stata spostata al pomeriggio perché la maggior parte
+    della squadra aveva altri impegni la mattina. Esamineremo il rapporto e poi
+    decideremo che cosa deve succedere con il progetto. È importante che tutti
+    abbiano le informazioni necessarie prima della fine della settimana. Se ha
+    delle domande su questo, me lo faccia sapere e sarò felice di aiutarla.
+    Hanno detto che c'erano alcuni problemi con il nuovo sistema, ma adesso
+    sono stati risolti. Quale di queste opzioni pensa che sia la migliore per
+    il suo lavoro? Anche gli delle questo quella sono non più.`,
+  pt: `A reunião foi transferida para a tarde porque a maioria da equipe
+    tinha outros compromissos pela manhã. Vamos analisar o relatório e depois
+    decidir o que deve acontecer com o projeto. É importante que todos tenham
+    as informações necessárias antes do fim da semana. Se tiver alguma dúvida
+    sobre isso, por favor me avise e terei prazer em ajudar. Eles disseram que
+    havia alguns problemas com o novo sistema, mas agora já foram resolvidos.
+    Qual dessas opções você acha que funcionaria melhor para o seu trabalho?
+    Também não são uma dos das com mais muito quando.`,
+  nl: `De vergadering is verplaatst naar de middag omdat de meeste mensen
+    van het team 's ochtends andere afspraken hadden. We zullen het rapport
+    bekijken en dan beslissen wat er met het project moet gebeuren. Het is
+    belangrijk dat iedereen voor het einde van de week de nodige informatie
+    heeft. Als u hierover vragen heeft, laat het mij dan weten, ik help graag.
+    Ze zeiden dat er enkele problemen waren met het nieuwe systeem, maar die
+    zijn inmiddels opgelost. Welke van deze mogelijkheden is volgens u het
+    beste voor uw werk? Ook niet een van het zijn maar wel.`,
+};
+
+export const DETECTION_TABLES = { samples: SAMPLES, links: LINK_PATTERN };
+
+type Profile = Map<string, number>;
+
+interface NormalizedProfile {
+  counts: Profile;
+  norm: number;
+}
+
+let profiles: Map<string, NormalizedProfile> | null = null;
+
+// Trigrams of each lowercased word padded with spaces, so word starts and
+// ends ("_th", "en_") count separately from word-internal trigrams
+function trigramProfile(text: string): Profile {
+  const counts: Profile = new Map();
+  const words = text.toLowerCase().match(/\p{L}+/gu) || [];
+  words.forEach(word => {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const gram = padded.slice(i, i + 3);
+      counts.set(gram, (counts.get(gram) || 0) + 1);
+    }
+  });
+  return counts;
+}
+
+function normalize(counts: Profile): NormalizedProfile {
+  let sum = 0;
+  counts.forEach(count => (sum += count * count));
+  return { counts, norm: Math.sqrt(sum) };
+}
+
+function getProfiles(): Map<string, NormalizedProfile> {
+  if (!profiles) {
+    profiles = new Map(
+      Object.entries(SAMPLES).map(([language, sample]) => [
+        language,
+        normalize(trigramProfile(sample)),
+      ])
+    );
+  }
+  return profiles;
+}
+
+// Adds or replaces the profile for a language
+export function registerLanguageProfile(language: string, sample: string) {
+  SAMPLES[language] = sample;
+  getProfiles().set(language, normalize(trigramProfile(sample)));
+}
+
+export function knownLanguages(): string[] {
+  return Array.from(getProfiles().keys()).sort();
+}
+
+function cosine(text: NormalizedProfile, profile: NormalizedProfile): number {
+  if (text.norm === 0 || profile.norm === 0) return 0;
+  let dot = 0;
+  text.counts.forEach((count, gram) => {
+    dot += count * (profile.counts.get(gram) || 0);
+  });
+  return dot / (text.norm * profile.norm);
+}
+
+export function detectLanguage(text: string): LanguageGuess {
+  const sample = text.slice(0, MAX_SAMPLE_CHARS).replace(LINK_PATTERN, ' ');
+  const letters = sample.match(/\p{L}/gu)?.length ?? 0;
+  const textProfile = normalize(trigramProfile(sample));
+
+  const candidates = Array.from(getProfiles(), ([language, profile]) => ({
+    language,
+    score: Math.round(cosine(textProfile, profile) * 1000) / 1000,
+  })).sort(
+    (a, b) =>
+      b.score - a.score ||
+      (a.language < b.language ? -1 : a.language > b.language ? 1 : 0)
+  );
+
+  const [best, second] = candidates;
+  if (letters < MIN_LETTERS || !best || best.score < MIN_SCORE) {
+    return { language: UNDETERMINED, confidence: 0, candidates };
+  }
+
+  const margin = second ? (best.score - second.score) / best.score : 1;
+  const confidence = Math.round(Math.min(1, margin * 2) * 100) / 100;
+  return confidence < MIN_CONFIDENCE
+    ? { language: UNDETERMINED, confidence, candidates }
+    : { language: best.language, confidence, candidates };
+}
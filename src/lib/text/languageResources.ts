@@ -0,0 +1,267 @@
+// Per-language resource bundles - stopwords, abbreviations, stemming, syllable
+// counting and a reading-ease formula for each supported language. English
+// also has the rule sets (tone, style, proofreading, entities); other bundles
+// list what they support so callers can decline the rest with a reason.
+
+import { detectLanguage, UNDETERMINED } from './languageDetection';
+import {
+  amstadReadingEase,
+  countSyllables,
+  fernandezHuertaReadingEase,
+  fleschReadingEase,
+  type ReadingEaseFormula,
+} from './readability';
+import { stem } from './stemmer';
+import {
+  GERMAN_STOPWORDS,
+  PHRASE_STOPWORDS,
+  SPANISH_STOPWORDS,
+  STOPWORDS,
+} from './stopwords';
+
+// 'rules' covers everything built on English word lists and patterns
+export type LanguageFeature = 'keywords' | 'summary' | 'readability' | 'rules';
+
+export interface LanguageResources {
+  // ISO 639-1 code
+  code: string;
+  name: string;
+  features: LanguageFeature[];
+  // For summarization
+  stopwords: ReadonlySet<string>;
+  // Phrase boundaries for key phrases
+  phraseStopwords: ReadonlySet<string>;
+  // Lowercase, without the final period; added to the segmenter's own
+  abbreviations: ReadonlySet<string>;
+  stem: (word: string) => string;
+  countSyllables: (word: string) => number;
+  readingEase: (sentences: number, words: number, syllables: number) => number;
+  readingEaseFormula: ReadingEaseFormula;
+}
+
+export interface LanguageResolution {
+  code: string;
+  name: string;
+  // 'default' when the text was too short or ambiguous to tell: English
+  source: 'detected' | 'override' | 'default';
+  confidence: number;
+  // Absent when the language is recognized but has no bundle
+  resources?: LanguageResources;
+}
+
+// The part of a resolution that can be posted between contexts
+export type LanguageInfo = Pick<
+  LanguageResolution,
+  'code' | 'name' | 'source' | 'confidence'
+>;
+
+export const AUTO_LANGUAGE = 'auto';
+export const DEFAULT_LANGUAGE = 'en';
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+};
+
+const FEATURE_LABELS: Record<LanguageFeature, string> = {
+  keywords: 'Keyword extraction',
+  summary: 'Summarization',
+  readability: 'Readability scoring',
+  rules: 'Rule-based analysis',
+};
+
+// Words shorter than this are left unstemmed
+const MIN_STEM = 3;
+
+function stripSuffix(word: string, suffixes: string[]): string {
+  const lower = word.toLowerCase();
+  const suffix = suffixes.find(
+    ending => lower.endsWith(ending) && lower.length - ending.length >= MIN_STEM
+  );
+  return suffix ? lower.slice(0, -suffix.length) : lower;
+}
+
+// Inflectional endings only, longest first
+// prettier-ignore
+const GERMAN_SUFFIXES = ['ern', 'em', 'en', 'er', 'es', 'e', 's', 'n'];
+
+// prettier-ignore
+const SPANISH_SUFFIXES = [
+  'amente', 'mente', 'aciones', 'ación', 'iones', 'ión', 'es', 'os', 'as',
+  's', 'o', 'a', 'e',
+];
+
+function germanStem(word: string): string {
+  return stripSuffix(word.replace(/ß/g, 'ss'), GERMAN_SUFFIXES);
+}
+
+function spanishStem(word: string): string {
+  return stripSuffix(word, SPANISH_SUFFIXES)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+// German has no silent final e, so every vowel group is a syllable
+// ("Straße" 2, "Bäume" 2, "Information" 4)
+function germanSyllables(word: string): number {
+  const vowels = word.toLowerCase().match(/[aeiouyäöü]+/g);
+  return Math.max(1, vowels ? vowels.length : 1);
+}
+
+// Vowel groups, split where two strong vowels meet (hiatus: "le-er",
+// "po-e-sí-a"); an accent on i or u also makes it strong
+function spanishSyllables(word: string): number {
+  const groups = word.toLowerCase().match(/[aeiouáéíóúü]+/g) || [];
+  const count = groups.reduce((total, group) => {
+    let syllables = 1;
+    for (let i = 1; i < group.length; i++) {
+      if (/[aeoáéíóú]/.test(group[i - 1]) && /[aeoáéíóú]/.test(group[i])) {
+        syllables++;
+      }
+    }
+    return total + syllables;
+  }, 0);
+  return Math.max(1, count);
+}
+
+// prettier-ignore
+const GERMAN_ABBREVIATIONS = new Set([
+  'bzw', 'ca', 'evtl', 'ggf', 'inkl', 'zzgl', 'vgl', 'bspw', 'sog', 'nr',
+  'str', 'tel', 'hr', 'fr', 'abs', 'jh', 'z.b', 'd.h', 'u.a', 'u.u', 'v.a',
+  'o.ä', 'z.t',
+]);
+
+// prettier-ignore
+const SPANISH_ABBREVIATIONS = new Set([
+  'sra', 'srta', 'dra', 'lic', 'ing', 'ud', 'uds', 'pág', 'núm', 'av',
+  'avda', 'tel', 'dpto', 'ej', 'p.ej', 'ee.uu',
+]);
+
+const BUNDLES = new Map<string, LanguageResources>();
+
+// Stem functions hash as nothing, so their suffix lists go in separately
+export const LANGUAGE_TABLES = {
+  bundles: BUNDLES,
+  germanSuffixes: GERMAN_SUFFIXES,
+  spanishSuffixes: SPANISH_SUFFIXES,
+};
+
+export function registerLanguageResources(resources: LanguageResources) {
+  BUNDLES.set(resources.code, resources);
+  LANGUAGE_NAMES[resources.code] = resources.name;
+}
+
+registerLanguageResources({
+  code: 'en',
+  name: 'English',
+  features: ['keywords', 'summary', 'readability', 'rules'],
+  stopwords: STOPWORDS,
+  phraseStopwords: PHRASE_STOPWORDS,
+  // The segmenter's built-in lists are English
+  abbreviations: new Set(),
+  stem,
+  countSyllables,
+  readingEase: fleschReadingEase,
+  readingEaseFormula: 'flesch',
+});
+
+registerLanguageResources({
+  code: 'de',
+  name: 'German',
+  features: ['keywords', 'summary', 'readability'],
+  stopwords: GERMAN_STOPWORDS,
+  phraseStopwords: new Set([...GERMAN_STOPWORDS, ...GERMAN_ABBREVIATIONS]),
+  abbreviations: GERMAN_ABBREVIATIONS,
+  stem: germanStem,
+  countSyllables: germanSyllables,
+  readingEase: amstadReadingEase,
+  readingEaseFormula: 'amstad',
+});
+
+registerLanguageResources({
+  code: 'es',
+  name: 'Spanish',
+  features: ['keywords', 'summary', 'readability'],
+  stopwords: SPANISH_STOPWORDS,
+  phraseStopwords: new Set([...SPANISH_STOPWORDS, ...SPANISH_ABBREVIATIONS]),
+  abbreviations: SPANISH_ABBREVIATIONS,
+  stem: spanishStem,
+  countSyllables: spanishSyllables,
+  readingEase: fernandezHuertaReadingEase,
+  readingEaseFormula: 'fernandezHuerta',
+});
+
+export function getLanguageResources(
+  code: string
+): LanguageResources | undefined {
+  return BUNDLES.get(code);
+}
+
+export function supportedLanguages(): string[] {
+  return Array.from(BUNDLES.keys()).sort();
+}
+
+function languageName(code: string): string {
+  return LANGUAGE_NAMES[code] ?? code;
+}
+
+// An explicit language wins over detection; 'auto' or nothing detects it
+export function resolveLanguage(
+  text: string,
+  override?: string
+): LanguageResolution {
+  if (override && override !== AUTO_LANGUAGE) {
+    return {
+      code: override,
+      name: languageName(override),
+      source: 'override',
+      confidence: 1,
+      resources: BUNDLES.get(override),
+    };
+  }
+
+  const guess = detectLanguage(text);
+  const code =
+    guess.language === UNDETERMINED ? DEFAULT_LANGUAGE : guess.language;
+  return {
+    code,
+    name: languageName(code),
+    source: guess.language === UNDETERMINED ? 'default' : 'detected',
+    confidence: guess.confidence,
+    resources: BUNDLES.get(code),
+  };
+}
+
+export function languageInfo(language: LanguageResolution): LanguageInfo {
+  return {
+    code: language.code,
+    name: language.name,
+    source: language.source,
+    confidence: language.confidence,
+  };
+}
+
+export function supportsFeature(
+  language: LanguageResolution,
+  feature: LanguageFeature
+): boolean {
+  return language.resources?.features.includes(feature) ?? false;
+}
+
+// Why a feature cannot run on the text, or undefined when it can. `label`
+// names the specific step ("Tone rewriting") instead of the feature group.
+export function unsupportedReason(
+  language: LanguageResolution,
+  feature: LanguageFeature,
+  label = FEATURE_LABELS[feature]
+): string | undefined {
+  if (supportsFeature(language, feature)) return undefined;
+  return language.resources
+    ? `${label} is not available for ${language.name} text`
+    : `${label} is not available for ${language.name} text: no language resources are installed for it`;
+}
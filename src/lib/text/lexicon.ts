@@ -0,0 +1,131 @@
+// Phrase-aware lexicon matcher for word/phrase swap transforms
+// Single pass, longest match first, preserves the casing of the source text
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  replacement?: string;
+}
+
+export interface Lexicon {
+  root: TrieNode;
+  size: number;
+}
+
+export interface LexiconSwap {
+  from: string;
+  to: string;
+  // Character offsets into the text the lexicon was applied to
+  start: number;
+  end: number;
+}
+
+export interface LexiconResult {
+  text: string;
+  swaps: LexiconSwap[];
+}
+
+type CasePattern = 'lower' | 'upper' | 'title';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+function splitPhrase(phrase: string): string[] {
+  return phrase.toLowerCase().trim().split(/\s+/).filter(Boolean);
+}
+
+export function compileLexicon(entries: Record<string, string>): Lexicon {
+  const root: TrieNode = { children: new Map() };
+  let size = 0;
+
+  Object.entries(entries).forEach(([from, to]) => {
+    const words = splitPhrase(from);
+    if (words.length === 0) return;
+
+    let node = root;
+    for (const word of words) {
+      let child = node.children.get(word);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(word, child);
+      }
+      node = child;
+    }
+    node.replacement = to;
+    size++;
+  });
+
+  return { root, size };
+}
+
+export function detectCase(text: string): CasePattern {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (letters.length > 1 && letters === letters.toUpperCase()) {
+    if (letters !== letters.toLowerCase()) return 'upper';
+  }
+  const first = letters.charAt(0);
+  if (first && first === first.toUpperCase() && first !== first.toLowerCase()) {
+    return 'title';
+  }
+  return 'lower';
+}
+
+export function applyCase(text: string, pattern: CasePattern): string {
+  switch (pattern) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'title':
+      return text.charAt(0).toUpperCase() + text.slice(1);
+    case 'lower':
+      return text;
+  }
+}
+
+export function applyLexicon(text: string, lexicon: Lexicon): LexiconResult {
+  const words = Array.from(text.matchAll(WORD_PATTERN), match => ({
+    word: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }));
+
+  const swaps: LexiconSwap[] = [];
+  let result = '';
+  let cursor = 0;
+  let i = 0;
+
+  while (i < words.length) {
+    let node: TrieNode | undefined = lexicon.root;
+    let matchEnd = -1;
+    let replacement = '';
+
+    // Walk the trie across whitespace-separated words, keeping the longest hit
+    for (let j = i; j < words.length && node; j++) {
+      if (
+        j > i &&
+        !/^\s+$/.test(text.slice(words[j - 1].end, words[j].start))
+      ) {
+        break;
+      }
+      node = node.children.get(words[j].word.toLowerCase());
+      if (node?.replacement !== undefined) {
+        matchEnd = j;
+        replacement = node.replacement;
+      }
+    }
+
+    if (matchEnd < 0) {
+      i++;
+      continue;
+    }
+
+    const start = words[i].start;
+    const end = words[matchEnd].end;
+    const from = text.slice(start, end);
+    const to = applyCase(replacement, detectCase(from));
+
+    result += text.slice(cursor, start) + to;
+    cursor = end;
+    swaps.push({ from, to, start, end });
+    i = matchEnd + 1;
+  }
+
+  return { text: result + text.slice(cursor), swaps };
+}
@@ -0,0 +1,463 @@
+// Rule-based proofreader - doubled words, a/an agreement, sentence
+// capitalization, spacing around punctuation, unbalanced quotes and brackets
+// and common confusables. Each rule can be switched off; only suggestions
+// marked safe are applied automatically.
+
+import { detectProtectedSpans } from './protectedSpans';
+import { isAbbreviation } from './segmenter';
+
+export type ProofreadRule =
+  | 'doubledWord'
+  | 'article'
+  | 'capitalization'
+  | 'spacing'
+  | 'unbalanced'
+  | 'confusable';
+
+export interface ProofreadSuggestion {
+  rule: ProofreadRule;
+  // Character offsets into the proofread text
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+  // Missing when the problem has no mechanical fix (an unmatched bracket)
+  replacement?: string;
+  // Safe fixes are applied by the proofread step; the rest are only reported
+  safe: boolean;
+}
+
+export interface ProofreadOptions {
+  // Rules to run; defaults to all
+  rules?: ProofreadRule[];
+}
+
+export interface ProofreadFixResult {
+  text: string;
+  // In text order, with offsets into the input text
+  applied: ProofreadSuggestion[];
+}
+
+// Fixes that overlap an earlier one are applied by another pass over the
+// fixed text; a few passes settle everything the rules find in practice
+export const MAX_PROOFREAD_PASSES = 3;
+
+export const PROOFREAD_RULES: ProofreadRule[] = [
+  'doubledWord',
+  'article',
+  'capitalization',
+  'spacing',
+  'unbalanced',
+  'confusable',
+];
+
+// Words that are grammatical when doubled ("I had had enough")
+const LEGITIMATE_DOUBLES = new Set(['had', 'that', 'is', 'do', 'bye', 'no']);
+
+// Vowel letters that sound like consonants, and silent-h words, decided on the
+// start of the following word
+const CONSONANT_SOUND =
+  /^(?:uni(?!n|mp)|use|usu|ura|ure|uro|uti|ubiq|eu|ewe|one(?!r)|once|ouija)/i;
+const VOWEL_SOUND = /^(?:hour|honest|honou?r|heir|herb)/i;
+
+// Letters whose spoken name starts with a vowel (an FBI agent, an MRI)
+const VOWEL_LETTER_NAMES = /^[AEFHILMNORSX]/;
+
+// prettier-ignore
+const CONFUSABLES: Array<{ pattern: RegExp; replacement: string; message: string }> = [
+  { pattern: /\bits (?=(?:a|an|the|been|not|going|gonna|time|important|possible|true|ok|okay)\b)/gi, replacement: "it's ", message: '"its" is possessive; "it\'s" means "it is"' },
+  { pattern: /\bit's (?=own\b)/gi, replacement: 'its ', message: '"its own" is possessive' },
+  { pattern: /\b(could|should|would|must|might) of\b/gi, replacement: '$1 have', message: 'Use "have" after a modal verb' },
+  { pattern: /\byour (?=welcome\b)/gi, replacement: "you're ", message: '"you\'re" means "you are"' },
+  { pattern: /\btheir (?=(?:is|are|was|were)\b)/gi, replacement: 'there ', message: '"their" is possessive' },
+  { pattern: /\b(more|less|better|worse|rather|other|greater|fewer) then\b/gi, replacement: '$1 than', message: 'Use "than" for comparisons' },
+  { pattern: /\balot\b/gi, replacement: 'a lot', message: '"a lot" is two words' },
+  { pattern: /\bcould care less\b/gi, replacement: "couldn't care less", message: 'The idiom is "couldn\'t care less"' },
+];
+
+export const PROOFREAD_TABLES = {
+  legitimateDoubles: LEGITIMATE_DOUBLES,
+  consonantSound: CONSONANT_SOUND,
+  vowelSound: VOWEL_SOUND,
+  vowelLetterNames: VOWEL_LETTER_NAMES,
+  confusables: CONFUSABLES,
+};
+
+const BRACKETS: Record<string, string> = { '(': ')', '[': ']', '{': '}' };
+const CLOSING_BRACKETS: Record<string, string> = {
+  ')': '(',
+  ']': '[',
+  '}': '{',
+};
+
+function matchCase(replacement: string, original: string): string {
+  return /^\p{Lu}/u.test(original)
+    ? replacement.charAt(0).toUpperCase() + replacement.slice(1)
+    : replacement;
+}
+
+function findDoubledWords(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+  const pattern =
+    /(?<![\p{L}\p{N}])(\p{L}+)([ \t]+|[ \t]*\n[ \t]*)(\1)(?![\p{L}\p{N}])/giu;
+
+  for (const match of text.matchAll(pattern)) {
+    const [whole, first] = match;
+    const start = match.index ?? 0;
+    // "what it is is" is grammatical, "Is is" at a sentence start is not
+    const startsSentence = /(?:^|[.!?]\s+)$/.test(text.slice(0, start));
+    if (LEGITIMATE_DOUBLES.has(first.toLowerCase()) && !startsSentence) {
+      continue;
+    }
+    suggestions.push({
+      rule: 'doubledWord',
+      start,
+      end: start + whole.length,
+      text: whole,
+      message: `"${first}" is repeated`,
+      replacement: first,
+      safe: true,
+    });
+  }
+  return suggestions;
+}
+
+function wantsAn(word: string): boolean {
+  // Acronyms read letter by letter
+  if (/^\p{Lu}{2,}\b/u.test(word)) return VOWEL_LETTER_NAMES.test(word);
+  if (VOWEL_SOUND.test(word)) return true;
+  if (CONSONANT_SOUND.test(word)) return false;
+  return /^[aeiou]/i.test(word);
+}
+
+function findArticles(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+
+  for (const match of text.matchAll(/\b(an?)\s+(\p{L}[\p{L}\p{N}]*)/giu)) {
+    const [, article, word] = match;
+    // Single letters ("a b c", "plan a") are too ambiguous to judge
+    if (word.length < 2) continue;
+    const expected = wantsAn(word) ? 'an' : 'a';
+    if (article.toLowerCase() === expected) continue;
+
+    const start = match.index ?? 0;
+    const replacement =
+      article === article.toUpperCase() && article.length > 1
+        ? expected.toUpperCase()
+        : matchCase(expected, article);
+    suggestions.push({
+      rule: 'article',
+      start,
+      end: start + article.length,
+      text: article,
+      message: `Use "${expected}" before "${word}"`,
+      replacement,
+      // Some acronyms are read as words ("a NATO summit")
+      safe: !/^\p{Lu}{2,}/u.test(word),
+    });
+  }
+  return suggestions;
+}
+
+function findCapitalization(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+  const capitalize = (
+    start: number,
+    letter: string,
+    message: string,
+    safe: boolean
+  ) =>
+    suggestions.push({
+      rule: 'capitalization',
+      start,
+      end: start + letter.length,
+      text: letter,
+      message,
+      replacement: letter.toUpperCase(),
+      safe,
+    });
+
+  for (const match of text.matchAll(/([.!?])(\s+)(\p{Ll})/gu)) {
+    const index = match.index ?? 0;
+    // Look past a stray space before the period ("end . next")
+    const before = text.slice(Math.max(0, index - 32), index).trimEnd();
+    const word = before.match(/[\p{L}\p{N}.]*$/u)?.[0] ?? '';
+    if (match[1] === '.') {
+      // "e.g. this", "3.5. next", "... and"
+      if (!word || isAbbreviation(word) || /\d|\.$/.test(word)) continue;
+      if (text[index - 1] === '.') continue;
+    }
+    capitalize(
+      index + match[1].length + match[2].length,
+      match[3],
+      'Start the sentence with a capital letter',
+      true
+    );
+  }
+
+  // A lowercase start may just be a partial selection, so it is only reported
+  const first = text.match(/^\s*(\p{Ll})/u);
+  if (first) {
+    capitalize(
+      first[0].length - 1,
+      first[1],
+      'Text starts with a lowercase letter',
+      false
+    );
+  }
+
+  for (const match of text.matchAll(
+    /(?<![\p{L}\p{N}'’-])i(?![\p{L}\p{N}-])/gu
+  )) {
+    // "i.e." and "i.e," are abbreviations
+    if (text[(match.index ?? 0) + 1] === '.') continue;
+    capitalize(match.index ?? 0, 'i', 'Capitalize the pronoun "I"', true);
+  }
+  return suggestions;
+}
+
+function findSpacing(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+  const add = (
+    start: number,
+    found: string,
+    replacement: string,
+    message: string
+  ) =>
+    suggestions.push({
+      rule: 'spacing',
+      start,
+      end: start + found.length,
+      text: found,
+      message,
+      replacement,
+      safe: true,
+    });
+
+  // "word ," but not emoticons (" :)") or ellipses (" ...")
+  for (const match of text.matchAll(/(?<=\S)[ \t]+([,.;:!?])(?=\s|$)/g)) {
+    add(
+      match.index ?? 0,
+      match[0],
+      match[1],
+      'Remove the space before punctuation'
+    );
+  }
+
+  // "works ,ok" - the space belongs after the comma; not " :D" or " .NET"
+  for (const match of text.matchAll(/(?<=\S)[ \t]+([,;!?])(?=\p{L})/gu)) {
+    add(
+      match.index ?? 0,
+      match[0],
+      `${match[1]} `,
+      'Move the space after the punctuation'
+    );
+  }
+
+  // "word,next" but not numbers ("1,000") or times ("10:30")
+  for (const match of text.matchAll(/(?<=\p{L})([,;:!?])(?=\p{L})/gu)) {
+    add(
+      match.index ?? 0,
+      match[1],
+      `${match[1]} `,
+      'Add a space after punctuation'
+    );
+  }
+
+  // "end.Next" where both sides look like words, not "e.g." or "file.Name"
+  for (const match of text.matchAll(
+    /(?<=\p{Ll}{2})\.(?=\p{Lu}\p{Ll}+(?![\p{L}\p{N}]))/gu
+  )) {
+    add(match.index ?? 0, '.', '. ', 'Add a space after the full stop');
+  }
+
+  // Runs of spaces between words; indentation is left alone
+  for (const match of text.matchAll(/(?<=\S)[ \t]{2,}(?=\S)/g)) {
+    add(match.index ?? 0, match[0], ' ', 'Use a single space');
+  }
+  return suggestions;
+}
+
+function findUnbalanced(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+  const report = (index: number, message: string) =>
+    suggestions.push({
+      rule: 'unbalanced',
+      start: index,
+      end: index + 1,
+      text: text[index],
+      message,
+      safe: false,
+    });
+
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (BRACKETS[ch]) {
+      open.push(i);
+    } else if (CLOSING_BRACKETS[ch]) {
+      // List markers like "1)" and "a)" close nothing
+      if (/(?:^|\n)[ \t]*[\p{L}\p{N}]\)$/u.test(text.slice(0, i + 1))) continue;
+      const last = open[open.length - 1];
+      if (last !== undefined && text[last] === CLOSING_BRACKETS[ch]) {
+        open.pop();
+      } else {
+        report(i, `"${ch}" has no matching "${CLOSING_BRACKETS[ch]}"`);
+      }
+    }
+  }
+  open.forEach(index =>
+    report(
+      index,
+      `"${text[index]}" is never closed with "${BRACKETS[text[index]]}"`
+    )
+  );
+
+  const straight = Array.from(text.matchAll(/"/g), match => match.index ?? 0);
+  if (straight.length % 2 === 1) {
+    report(straight[straight.length - 1], 'Unmatched double quote');
+  }
+  const opening = (text.match(/“/g) || []).length;
+  const closing = (text.match(/”/g) || []).length;
+  if (opening !== closing) {
+    const quote = opening > closing ? '“' : '”';
+    report(text.lastIndexOf(quote), `Unmatched ${quote} quote`);
+  }
+  return suggestions;
+}
+
+function findConfusables(text: string): ProofreadSuggestion[] {
+  const suggestions: ProofreadSuggestion[] = [];
+  CONFUSABLES.forEach(({ pattern, replacement, message }) => {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const fixed = replacement.replace('$1', match[1] ?? '');
+      suggestions.push({
+        rule: 'confusable',
+        start,
+        end: start + match[0].length,
+        text: match[0],
+        message,
+        replacement: matchCase(fixed, match[0]),
+        safe: true,
+      });
+    }
+  });
+  return suggestions;
+}
+
+const FINDERS: Record<ProofreadRule, (text: string) => ProofreadSuggestion[]> =
+  {
+    doubledWord: findDoubledWords,
+    article: findArticles,
+    capitalization: findCapitalization,
+    spacing: findSpacing,
+    unbalanced: findUnbalanced,
+    confusable: findConfusables,
+  };
+
+export function proofread(
+  text: string,
+  options: ProofreadOptions = {}
+): ProofreadSuggestion[] {
+  const rules = options.rules ?? PROOFREAD_RULES;
+  const spans = detectProtectedSpans(text);
+
+  return rules
+    .flatMap(rule => FINDERS[rule](text))
+    .filter(
+      suggestion =>
+        !spans.some(
+          span => suggestion.start < span.end && span.start < suggestion.end
+        )
+    )
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// Apply every safe suggestion in one pass; when two overlap the earlier one
+// wins and the other is dropped. proofreadAndFix re-runs the rules to pick
+// those up.
+export function applyProofreadFixes(
+  text: string,
+  suggestions: ProofreadSuggestion[]
+): ProofreadFixResult {
+  const applied: ProofreadSuggestion[] = [];
+  let result = '';
+  let cursor = 0;
+
+  for (const suggestion of suggestions) {
+    if (!suggestion.safe || suggestion.replacement === undefined) continue;
+    if (suggestion.start < cursor) continue;
+    result += text.slice(cursor, suggestion.start) + suggestion.replacement;
+    cursor = suggestion.end;
+    applied.push(suggestion);
+  }
+
+  return { text: result + text.slice(cursor), applied };
+}
+
+// Map an offset in the output of applyProofreadFixes back to its input. An
+// offset inside a replacement maps to the edge of the replaced text.
+function toInputOffset(
+  offset: number,
+  applied: ProofreadSuggestion[],
+  edge: 'start' | 'end'
+): number {
+  let delta = 0;
+  for (const fix of applied) {
+    const outputStart = fix.start + delta;
+    const outputEnd = outputStart + (fix.replacement ?? fix.text).length;
+    if (offset < outputStart || (offset === outputStart && edge === 'end')) {
+      break;
+    }
+    if (offset < outputEnd || (offset === outputEnd && edge === 'start')) {
+      return edge === 'start' && offset < outputEnd ? fix.start : fix.end;
+    }
+    delta = outputEnd - fix.end;
+  }
+  return offset - delta;
+}
+
+// Proofread and apply the safe fixes until a pass finds nothing more to fix,
+// so fixes dropped for overlapping an earlier one ("i i" is both a doubled
+// word and a lowercase "I") still land. Offsets of fixes from later passes
+// are mapped back to the input text.
+export function proofreadAndFix(
+  text: string,
+  options: ProofreadOptions = {},
+  maxPasses = MAX_PROOFREAD_PASSES
+): ProofreadFixResult {
+  const applied: ProofreadSuggestion[] = [];
+  let current = text;
+  const passes: ProofreadSuggestion[][] = [];
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    const fixes = applyProofreadFixes(current, proofread(current, options));
+    if (!fixes.applied.length) break;
+    fixes.applied.forEach(fix => {
+      let { start, end } = fix;
+      for (let i = passes.length - 1; i >= 0; i--) {
+        start = toInputOffset(start, passes[i], 'start');
+        end = toInputOffset(end, passes[i], 'end');
+      }
+      applied.push({ ...fix, start, end });
+    });
+    passes.push(fixes.applied);
+    current = fixes.text;
+  }
+
+  applied.sort((a, b) => a.start - b.start || a.end - b.end);
+  return { text: current, applied };
+}
+
+export function describeProofreadFixes(
+  applied: ProofreadSuggestion[]
+): string[] {
+  return [
+    `proofread_${applied.length}_fixes`,
+    ...applied.map(
+      fix =>
+        `proofread_${fix.rule}:${fix.text}→${fix.replacement}@${fix.start}-${fix.end}`
+    ),
+  ];
+}
@@ -0,0 +1,111 @@
+// Protected span detection - regions of text that transforms must never rewrite
+// (URLs, paths, emails, code, numbers with units, quotes, mentions, hashtags)
+
+export type ProtectedKind =
+  'code' | 'url' | 'email' | 'quote' | 'mention' | 'hashtag' | 'number';
+
+export interface ProtectedSpan {
+  kind: ProtectedKind;
+  start: number;
+  end: number;
+  text: string;
+}
+
+const UNITS =
+  '%|ms|s|sec|secs|min|mins|h|hr|hrs|kb|mb|gb|tb|kbps|mbps|px|em|rem|pt|mm|cm|m|km|in|ft|mi|mph|kg|g|mg|lb|lbs|oz|l|ml|°c|°f|k|x';
+
+// Listed in priority order: earlier kinds win when two matches cover the same
+// range; otherwise the earliest, longest match wins
+const PATTERNS: Array<{ kind: ProtectedKind; pattern: RegExp }> = [
+  { kind: 'code', pattern: /```[\s\S]*?```/g },
+  { kind: 'code', pattern: /`[^`\n]+`/g },
+  { kind: 'url', pattern: /\b(?:[a-z][a-z0-9+.-]*:\/\/|www\.)[^\s<>"'`]+/gi },
+  {
+    kind: 'url',
+    pattern: /(?<![\w/.~-])(?:~|\.{1,2})?\/[\w.-]+(?:\/[\w.-]*)*/g,
+  },
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    kind: 'quote',
+    pattern:
+      /"[^"\n]*"|“[^”]*”|‘[^’]*’|(?<![\p{L}\p{N}])'[^'\n]+'(?![\p{L}\p{N}])/gu,
+  },
+  { kind: 'mention', pattern: /(?<![\w.@])@\w+(?:[.-]\w+)*/g },
+  { kind: 'hashtag', pattern: /(?<![\w#&])#[\p{L}\p{N}_]+/gu },
+  {
+    kind: 'number',
+    pattern: new RegExp(
+      `(?<![\\w.])[$€£¥]?\\d+(?:[.,:]\\d+)*(?:\\s?(?:${UNITS})(?![\\p{L}\\p{N}]))?`,
+      'giu'
+    ),
+  },
+];
+
+export const PROTECTED_SPAN_TABLES = { units: UNITS, patterns: PATTERNS };
+
+// Trailing punctuation is almost always sentence punctuation, not part of a URL
+function trimTrailingPunctuation(kind: ProtectedKind, value: string): string {
+  if (kind !== 'url' && kind !== 'email') return value;
+  return value.replace(/[.,;:!?)\]}'"]+$/, '');
+}
+
+export function detectProtectedSpans(text: string): ProtectedSpan[] {
+  const candidates: Array<ProtectedSpan & { priority: number }> = [];
+
+  PATTERNS.forEach(({ kind, pattern }, priority) => {
+    for (const match of text.matchAll(pattern)) {
+      const value = trimTrailingPunctuation(kind, match[0]);
+      if (value.length === 0) continue;
+      const start = match.index ?? 0;
+      candidates.push({
+        kind,
+        start,
+        end: start + value.length,
+        text: value,
+        priority,
+      });
+    }
+  });
+
+  candidates.sort(
+    (a, b) =>
+      a.start - b.start ||
+      b.end - b.start - (a.end - a.start) ||
+      a.priority - b.priority
+  );
+
+  const spans: ProtectedSpan[] = [];
+  let lastEnd = 0;
+  for (const { kind, start, end, text: value } of candidates) {
+    if (start < lastEnd) continue;
+    spans.push({ kind, start, end, text: value });
+    lastEnd = end;
+  }
+
+  return spans;
+}
+
+// Apply a rewrite only to the unprotected segments of text. The callback gets
+// each segment along with its offset into the original string.
+export function mapUnprotected(
+  text: string,
+  transform: (segment: string, offset: number) => string,
+  spans: ProtectedSpan[] = detectProtectedSpans(text)
+): string {
+  let result = '';
+  let cursor = 0;
+
+  for (const span of spans) {
+    if (span.start > cursor) {
+      result += transform(text.slice(cursor, span.start), cursor);
+    }
+    result += text.slice(span.start, span.end);
+    cursor = span.end;
+  }
+
+  if (cursor < text.length) {
+    result += transform(text.slice(cursor), cursor);
+  }
+
+  return result;
+}
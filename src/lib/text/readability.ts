@@ -0,0 +1,323 @@
+// Readability scoring shared by the NLP and transform workers
+// Flesch, Flesch-Kincaid, Gunning Fog, SMOG, Coleman-Liau and ARI from shared
+// counts, plus a per-sentence difficulty rating with offsets for highlighting.
+// Other languages bring their own syllable counter and reading-ease formula
+// (Amstad, Fernández-Huerta); the grade formulas stay English-calibrated.
+
+import type { LanguageResources } from './languageResources';
+import { segmentSentences } from './segmenter';
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+export function countSyllables(word: string): number {
+  // Simple syllable counting heuristic
+  word = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (word.length <= 3) return 1;
+
+  const vowels = word.match(/[aeiouy]+/g);
+  let count = vowels ? vowels.length : 1;
+
+  // Adjust for silent e
+  if (word.endsWith('e')) count--;
+  if (word.endsWith('le') && word.length > 2) count++;
+
+  return Math.max(1, count);
+}
+
+// Flesch Reading Ease from raw counts, clamped to 0-100
+export function fleschReadingEase(
+  sentences: number,
+  words: number,
+  syllables: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+
+  const avgWordsPerSentence = words / sentences;
+  const avgSyllablesPerWord = syllables / words;
+  const score =
+    206.835 - 1.015 * avgWordsPerSentence - 84.6 * avgSyllablesPerWord;
+
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// Amstad's German adaptation of Flesch, clamped to 0-100
+export function amstadReadingEase(
+  sentences: number,
+  words: number,
+  syllables: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+
+  const score = 180 - words / sentences - 58.5 * (syllables / words);
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// Fernández-Huerta's Spanish adaptation of Flesch, clamped to 0-100
+export function fernandezHuertaReadingEase(
+  sentences: number,
+  words: number,
+  syllables: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+
+  // 206.84 - 0.60 P - 1.02 F, with P syllables and F sentences per 100 words
+  const score = 206.84 - 60 * (syllables / words) - 102 * (sentences / words);
+  return Math.max(0, Math.min(100, Math.round(score)));
+}
+
+// Flesch-Kincaid grade level from raw counts, one decimal
+export function fleschKincaidGrade(
+  sentences: number,
+  words: number,
+  syllables: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+
+  const grade = 0.39 * (words / sentences) + 11.8 * (syllables / words) - 15.59;
+  return Math.max(0, round1(grade));
+}
+
+export function gunningFog(
+  sentences: number,
+  words: number,
+  complexWords: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+  return round1(0.4 * (words / sentences + (100 * complexWords) / words));
+}
+
+// SMOG is normalised to 30 sentences; short texts are extrapolated
+export function smogIndex(sentences: number, polysyllables: number): number {
+  if (sentences === 0) return 0;
+  return round1(1.043 * Math.sqrt((polysyllables * 30) / sentences) + 3.1291);
+}
+
+export function colemanLiau(
+  sentences: number,
+  words: number,
+  letters: number
+): number {
+  if (words === 0) return 0;
+  const lettersPer100 = (letters / words) * 100;
+  const sentencesPer100 = (sentences / words) * 100;
+  return Math.max(
+    0,
+    round1(0.0588 * lettersPer100 - 0.296 * sentencesPer100 - 15.8)
+  );
+}
+
+export function automatedReadabilityIndex(
+  sentences: number,
+  words: number,
+  characters: number
+): number {
+  if (sentences === 0 || words === 0) return 0;
+  return Math.max(
+    0,
+    round1(4.71 * (characters / words) + 0.5 * (words / sentences) - 21.43)
+  );
+}
+
+export interface ReadabilityMetrics {
+  // Flesch Reading Ease, 0-100 (higher is easier)
+  readingEase: number;
+  // Flesch-Kincaid US school grade
+  grade: number;
+  sentences: number;
+  words: number;
+  syllables: number;
+}
+
+export interface ReadabilityCounts {
+  sentences: number;
+  words: number;
+  syllables: number;
+  // Letters and digits
+  characters: number;
+  letters: number;
+  // Three or more syllables
+  polysyllables: number;
+  // Polysyllables that are not hyphenated compounds or inflected short words
+  // (Gunning Fog's "complex words")
+  complexWords: number;
+}
+
+export type SentenceDifficultyLevel = 'easy' | 'moderate' | 'hard' | 'veryHard';
+
+export interface SentenceDifficulty {
+  // Character offsets into the measured text
+  start: number;
+  end: number;
+  words: number;
+  syllables: number;
+  // Flesch-Kincaid grade of the sentence on its own
+  grade: number;
+  level: SentenceDifficultyLevel;
+}
+
+export interface ReadabilityScores {
+  fleschReadingEase: number;
+  fleschKincaidGrade: number;
+  gunningFog: number;
+  smog: number;
+  colemanLiau: number;
+  automatedReadabilityIndex: number;
+}
+
+export type ReadingEaseFormula = 'flesch' | 'amstad' | 'fernandezHuerta';
+
+// What measuring needs from a language resource bundle
+export type ReadabilityLanguage = Pick<
+  LanguageResources,
+  'abbreviations' | 'countSyllables' | 'readingEase' | 'readingEaseFormula'
+>;
+
+export interface ReadabilityReport {
+  scores: ReadabilityScores;
+  // Reading ease under the language's own formula (Flesch for English)
+  readingEase: number;
+  readingEaseFormula: ReadingEaseFormula;
+  counts: ReadabilityCounts;
+  readingTimeSeconds: number;
+  speakingTimeSeconds: number;
+  sentences: SentenceDifficulty[];
+}
+
+// Adult silent reading and presentation speaking rates
+export const READING_WORDS_PER_MINUTE = 238;
+export const SPEAKING_WORDS_PER_MINUTE = 150;
+
+// Upper grade bounds for each sentence level; anything above is veryHard
+const DIFFICULTY_GRADES: Array<[SentenceDifficultyLevel, number]> = [
+  ['easy', 8],
+  ['moderate', 12],
+  ['hard', 16],
+];
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+
+export function difficultyLevel(grade: number): SentenceDifficultyLevel {
+  const match = DIFFICULTY_GRADES.find(([, max]) => grade <= max);
+  return match ? match[0] : 'veryHard';
+}
+
+function isComplexWord(
+  word: string,
+  syllables: number,
+  count: (word: string) => number
+): boolean {
+  if (syllables < 3 || word.includes('-')) return false;
+  // "created" and "boxes" do not count: drop the suffix syllable and recheck
+  const stem = word.replace(/(?:es|ed|ing)$/i, '');
+  return stem === word || count(stem) >= 3;
+}
+
+export interface SentenceStats {
+  difficulty: SentenceDifficulty;
+  counts: ReadabilityCounts;
+}
+
+function emptyCounts(): ReadabilityCounts {
+  return {
+    sentences: 0,
+    words: 0,
+    syllables: 0,
+    characters: 0,
+    letters: 0,
+    polysyllables: 0,
+    complexWords: 0,
+  };
+}
+
+// Per-sentence counts and difficulty; offsets are relative to `text` plus
+// `offset`, so chunked callers can pass the chunk's position
+export function measureSentences(
+  text: string,
+  offset = 0,
+  language?: ReadabilityLanguage
+): SentenceStats[] {
+  const count = language?.countSyllables ?? countSyllables;
+  return segmentSentences(text, language?.abbreviations).flatMap(sentence => {
+    const counts = emptyCounts();
+    for (const match of sentence.text.matchAll(WORD_PATTERN)) {
+      const word = match[0];
+      const syllables = count(word);
+      counts.words++;
+      counts.syllables += syllables;
+      counts.characters += word.replace(/[^\p{L}\p{N}]/gu, '').length;
+      counts.letters += word.replace(/[^\p{L}]/gu, '').length;
+      if (syllables >= 3) counts.polysyllables++;
+      if (isComplexWord(word, syllables, count)) counts.complexWords++;
+    }
+    // Bare punctuation or symbols are not sentences
+    if (counts.words === 0) return [];
+    counts.sentences = 1;
+
+    const grade = fleschKincaidGrade(1, counts.words, counts.syllables);
+    const difficulty: SentenceDifficulty = {
+      start: sentence.start + offset,
+      end: sentence.end + offset,
+      words: counts.words,
+      syllables: counts.syllables,
+      grade,
+      level: difficultyLevel(grade),
+    };
+    return [{ difficulty, counts }];
+  });
+}
+
+export function readabilityReport(
+  stats: SentenceStats[],
+  language?: ReadabilityLanguage
+): ReadabilityReport {
+  const counts = emptyCounts();
+  stats.forEach(sentence => {
+    (Object.keys(counts) as Array<keyof ReadabilityCounts>).forEach(key => {
+      counts[key] += sentence.counts[key];
+    });
+  });
+
+  const { sentences, words, syllables } = counts;
+  const flesch = fleschReadingEase(sentences, words, syllables);
+  return {
+    scores: {
+      fleschReadingEase: flesch,
+      fleschKincaidGrade: fleschKincaidGrade(sentences, words, syllables),
+      gunningFog: gunningFog(sentences, words, counts.complexWords),
+      smog: smogIndex(sentences, counts.polysyllables),
+      colemanLiau: colemanLiau(sentences, words, counts.letters),
+      automatedReadabilityIndex: automatedReadabilityIndex(
+        sentences,
+        words,
+        counts.characters
+      ),
+    },
+    readingEase: language
+      ? language.readingEase(sentences, words, syllables)
+      : flesch,
+    readingEaseFormula: language?.readingEaseFormula ?? 'flesch',
+    counts,
+    readingTimeSeconds: Math.round((words / READING_WORDS_PER_MINUTE) * 60),
+    speakingTimeSeconds: Math.round((words / SPEAKING_WORDS_PER_MINUTE) * 60),
+    sentences: stats.map(sentence => sentence.difficulty),
+  };
+}
+
+export function measureReadability(text: string): ReadabilityMetrics {
+  const { scores, counts } = readabilityReport(measureSentences(text));
+  return {
+    readingEase: scores.fleschReadingEase,
+    grade: scores.fleschKincaidGrade,
+    sentences: counts.sentences,
+    words: counts.words,
+    syllables: counts.syllables,
+  };
+}
+
+// Single-pass score for short texts; long inputs go through the NLP worker,
+// which counts chunk by chunk
+export function readingEase(text: string): number {
+  return measureReadability(text).readingEase;
+}
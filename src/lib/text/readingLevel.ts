@@ -0,0 +1,265 @@
+// Reading-level transform - swaps complex words for plain ones, drops
+// parenthetical asides and splits overlong sentences, one rule per pass,
+// until the text reaches a target Flesch-Kincaid grade or nothing changes
+
+import { applyLexicon, compileLexicon, type Lexicon } from './lexicon';
+import { detectProtectedSpans, mapUnprotected } from './protectedSpans';
+import { measureReadability, type ReadabilityMetrics } from './readability';
+import { segmentSentences } from './segmenter';
+
+export interface ReadingLevelOptions {
+  // Target Flesch-Kincaid grade
+  grade: number;
+  maxPasses?: number;
+}
+
+export interface ReadingLevelResult {
+  text: string;
+  before: ReadabilityMetrics;
+  after: ReadabilityMetrics;
+  // Swaps, removals and splits, in the order they were applied
+  rules: string[];
+}
+
+export const DEFAULT_TARGET_GRADE = 8;
+
+// prettier-ignore
+export const SIMPLIFICATION_LEXICON: Record<string, string> = {
+  'accomplish': 'do', 'additional': 'more', 'approximately': 'about',
+  'ascertain': 'find out', 'assistance': 'help', 'at this point in time': 'now',
+  'beneficial': 'helpful', 'commence': 'start', 'component': 'part',
+  'comprehend': 'understand', 'consequently': 'so', 'demonstrate': 'show',
+  'due to the fact that': 'because', 'establish': 'set up',
+  'expedite': 'speed up', 'facilitate': 'help',
+  'finalize': 'finish', 'frequently': 'often', 'in order to': 'to',
+  'in the event that': 'if', 'indicate': 'show', 'individuals': 'people',
+  'initiate': 'start', 'inquire': 'ask', 'modification': 'change',
+  'methodology': 'method', 'nevertheless': 'still', 'numerous': 'many',
+  'obtain': 'get', 'optimal': 'best', 'participate': 'take part',
+  'possess': 'have', 'prior to': 'before',
+  'regarding': 'about', 'remainder': 'rest', 'require': 'need',
+  'reside': 'live', 'subsequently': 'later', 'sufficient': 'enough',
+  'terminate': 'end', 'transmit': 'send', 'utilize': 'use',
+  'with regard to': 'about',
+};
+
+const DEFAULT_MAX_PASSES = 8;
+
+// Sentence splitting gets stricter each pass that still misses the target
+const SPLIT_THRESHOLDS = [30, 25, 20, 15];
+
+// Coordinating conjunctions a sentence can be split before; "and" is dropped,
+// the others start the new sentence
+const SPLIT_CONJUNCTIONS = /,\s+(and|but|so|yet|or)\s+/gi;
+
+// A clause this short after another comma is a list item ("red, white, and
+// blue"), so the conjunction after it ends the list, not the sentence
+const MAX_LIST_ITEM_WORDS = 3;
+
+export const READING_LEVEL_TABLES = {
+  lexicon: SIMPLIFICATION_LEXICON,
+  splitConjunctions: SPLIT_CONJUNCTIONS,
+};
+
+let simplificationLexicon: Lexicon | null = null;
+
+function getSimplificationLexicon(): Lexicon {
+  if (!simplificationLexicon) {
+    simplificationLexicon = compileLexicon(SIMPLIFICATION_LEXICON);
+  }
+  return simplificationLexicon;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function capitalize(text: string): string {
+  return text.replace(/^\p{Ll}/u, letter => letter.toUpperCase());
+}
+
+export function simplifyWords(text: string): { text: string; rules: string[] } {
+  const rules: string[] = [];
+  const result = mapUnprotected(text, segment => {
+    const swapped = applyLexicon(segment, getSimplificationLexicon());
+    swapped.swaps.forEach(swap =>
+      rules.push(`reading_level_swap:${swap.from}→${swap.to}`)
+    );
+    return swapped.text;
+  });
+  return { text: result, rules };
+}
+
+// Multi-word asides only, so "(s)", "(1)" and "(API)" stay
+export function dropParentheticals(text: string): {
+  text: string;
+  removed: number;
+} {
+  let removed = 0;
+  const result = mapUnprotected(text, segment =>
+    segment.replace(/\s*\([^()]*\s[^()]*\)/g, () => {
+      removed++;
+      return '';
+    })
+  );
+  return { text: result, removed };
+}
+
+interface SplitPoint {
+  start: number;
+  end: number;
+  // Kept at the start of the new sentence ("but", "so", ...)
+  lead: string;
+}
+
+function isListItem(before: string): boolean {
+  const comma = before.lastIndexOf(',');
+  return (
+    comma >= 0 && countWords(before.slice(comma + 1)) <= MAX_LIST_ITEM_WORDS
+  );
+}
+
+function findSplitPoints(
+  sentence: string,
+  offset: number,
+  spans: Array<{ start: number; end: number }>
+): SplitPoint[] {
+  const points: SplitPoint[] = [];
+  const isProtected = (index: number) =>
+    spans.some(
+      span => offset + index >= span.start && offset + index < span.end
+    );
+
+  for (const match of sentence.matchAll(/;\s+/g)) {
+    const index = match.index ?? 0;
+    if (!isProtected(index)) {
+      points.push({ start: index, end: index + match[0].length, lead: '' });
+    }
+  }
+  for (const match of sentence.matchAll(SPLIT_CONJUNCTIONS)) {
+    const index = match.index ?? 0;
+    if (isProtected(index) || isListItem(sentence.slice(0, index))) continue;
+    const conjunction = match[1].toLowerCase();
+    points.push({
+      start: index,
+      end: index + match[0].length,
+      lead: conjunction === 'and' ? '' : `${match[1]} `,
+    });
+  }
+  return points;
+}
+
+// Split one sentence at the boundary nearest its middle, repeating on the
+// halves while they stay over the limit
+function splitSentence(
+  sentence: string,
+  maxWords: number,
+  offset: number,
+  spans: Array<{ start: number; end: number }>
+): string[] {
+  if (countWords(sentence) <= maxWords) return [sentence];
+
+  const points = findSplitPoints(sentence, offset, spans);
+  if (points.length === 0) return [sentence];
+
+  const middle = sentence.length / 2;
+  const point = points.reduce((best, candidate) =>
+    Math.abs(candidate.start - middle) < Math.abs(best.start - middle)
+      ? candidate
+      : best
+  );
+
+  const head = `${sentence.slice(0, point.start).replace(/[,;]$/, '')}.`;
+  const tail = capitalize(`${point.lead}${sentence.slice(point.end)}`);
+  // The tail's offsets move back by the lead word put in front of it
+  return [
+    ...splitSentence(head, maxWords, offset, spans),
+    ...splitSentence(
+      tail,
+      maxWords,
+      offset + point.end - point.lead.length,
+      spans
+    ),
+  ];
+}
+
+export function splitLongSentences(
+  text: string,
+  maxWords: number
+): { text: string; split: number } {
+  const spans = detectProtectedSpans(text);
+  let split = 0;
+  let result = '';
+  let cursor = 0;
+
+  for (const sentence of segmentSentences(text)) {
+    const parts = splitSentence(sentence.text, maxWords, sentence.start, spans);
+    result += text.slice(cursor, sentence.start) + parts.join(' ');
+    split += parts.length - 1;
+    cursor = sentence.end;
+  }
+
+  return { text: result + text.slice(cursor), split };
+}
+
+export function rewriteToReadingLevel(
+  text: string,
+  options: ReadingLevelOptions
+): ReadingLevelResult {
+  const before = measureReadability(text);
+  const maxPasses = options.maxPasses ?? DEFAULT_MAX_PASSES;
+  const rules: string[] = [];
+  let result = text;
+  let metrics = before;
+
+  // Each pass applies the first rule that still changes the text
+  const passes: Array<() => boolean> = [
+    () => {
+      const simplified = simplifyWords(result);
+      if (simplified.rules.length === 0) return false;
+      result = simplified.text;
+      rules.push(...simplified.rules);
+      return true;
+    },
+    () => {
+      const dropped = dropParentheticals(result);
+      if (dropped.removed === 0) return false;
+      result = dropped.text;
+      rules.push(`reading_level_parentheticals_${dropped.removed}_removed`);
+      return true;
+    },
+    ...SPLIT_THRESHOLDS.map(maxWords => () => {
+      const splitResult = splitLongSentences(result, maxWords);
+      if (splitResult.split === 0) return false;
+      result = splitResult.text;
+      rules.push(
+        `reading_level_split_${splitResult.split}_over_${maxWords}_words`
+      );
+      return true;
+    }),
+  ];
+
+  for (
+    let pass = 0;
+    pass < maxPasses && metrics.grade > options.grade;
+    pass++
+  ) {
+    if (!passes.some(apply => apply())) break;
+    metrics = measureReadability(result);
+  }
+
+  return {
+    text: result,
+    before,
+    after: metrics,
+    rules,
+  };
+}
+
+export function describeReadingLevel(
+  target: number,
+  before: ReadabilityMetrics,
+  after: ReadabilityMetrics
+): string {
+  return `reading_level_grade_${target}:${before.grade}→${after.grade}`;
+}
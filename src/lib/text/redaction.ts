@@ -0,0 +1,285 @@
+// PII detection and redaction - emails, phone numbers, payment cards, IBANs,
+// IP addresses and national IDs, masked, replaced with typed placeholders or
+// with consistent pseudonyms. Placeholder and pseudonym runs return the
+// replacement → original entries needed to re-hydrate the text later.
+
+import { validateFieldValue } from '../utils/sanitizer';
+
+export type PiiKind = 'email' | 'phone' | 'card' | 'iban' | 'ip' | 'nationalId';
+
+export type RedactionMode = 'mask' | 'placeholder' | 'pseudonym';
+
+export interface PiiMatch {
+  kind: PiiKind;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface RedactionEntry {
+  kind: PiiKind;
+  original: string;
+  replacement: string;
+}
+
+export interface RedactionOptions {
+  mode: RedactionMode;
+  // Kinds to redact; defaults to all
+  kinds?: PiiKind[];
+  // Entries from earlier runs, so the same value keeps the same replacement
+  entries?: RedactionEntry[];
+}
+
+export interface RedactionResult {
+  text: string;
+  matches: PiiMatch[];
+  // Empty for mask mode, which is not reversible
+  entries: RedactionEntry[];
+}
+
+export const PII_KINDS: PiiKind[] = [
+  'email',
+  'iban',
+  'card',
+  'nationalId',
+  'ip',
+  'phone',
+];
+
+const MASK = '****';
+
+const PLACEHOLDER_LABELS: Record<PiiKind, string> = {
+  email: 'EMAIL',
+  phone: 'PHONE',
+  card: 'CARD',
+  iban: 'IBAN',
+  ip: 'IP',
+  nationalId: 'ID',
+};
+
+// Listed in priority order, like protected spans: earlier kinds win when two
+// matches cover the same range; otherwise the earliest, longest match wins
+const PATTERNS: Array<{ kind: PiiKind; pattern: RegExp }> = [
+  { kind: 'email', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  {
+    kind: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  { kind: 'card', pattern: /(?<![\d-])\d(?:[ -]?\d){12,18}(?![\d-])/g },
+  // US Social Security and UK National Insurance numbers
+  {
+    kind: 'nationalId',
+    pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g,
+  },
+  {
+    kind: 'nationalId',
+    pattern: /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g,
+  },
+  { kind: 'ip', pattern: /(?<![\d.])\d{1,3}(?:\.\d{1,3}){3}(?![\d.])/g },
+  {
+    kind: 'ip',
+    pattern:
+      /(?<![\w:])(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}(?![\w:])|(?<![\w:])(?:[0-9a-f]{1,4}:){1,6}:(?:[0-9a-f]{1,4}(?::[0-9a-f]{1,4})*)?(?![\w:])/gi,
+  },
+  {
+    kind: 'phone',
+    pattern:
+      /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d(?:[ .-]?\d){5,13}(?!\w)/g,
+  },
+];
+
+export const REDACTION_TABLES = {
+  patterns: PATTERNS,
+  placeholderLabels: PLACEHOLDER_LABELS,
+};
+
+function isValidMatch(kind: PiiKind, value: string): boolean {
+  switch (kind) {
+    case 'email':
+      return validateFieldValue(value, 'email');
+    case 'card':
+      return validateFieldValue(value, 'card');
+    case 'iban':
+      return validateFieldValue(value, 'iban');
+    case 'ip':
+      return validateFieldValue(value, 'ip');
+    case 'phone': {
+      if (!validateFieldValue(value, 'tel')) return false;
+      const digits = value.replace(/\D/g, '').length;
+      if (digits < 7 || digits > 15) return false;
+      // Dates and decimals are not phone numbers
+      if (/^\d{4}-\d{2}-\d{2}$|^\d+\.\d+$/.test(value)) return false;
+      // Bare digit runs need the length of a full number
+      return /[\s().+-]/.test(value) || digits >= 10;
+    }
+    case 'nationalId':
+      return true;
+  }
+}
+
+export function detectPii(
+  text: string,
+  kinds: PiiKind[] = PII_KINDS
+): PiiMatch[] {
+  const enabled = new Set(kinds);
+  const candidates: Array<PiiMatch & { priority: number }> = [];
+
+  PATTERNS.forEach(({ kind, pattern }, priority) => {
+    if (!enabled.has(kind)) return;
+    for (const match of text.matchAll(pattern)) {
+      const value = kind === 'email' ? match[0].replace(/\.+$/, '') : match[0];
+      if (!isValidMatch(kind, value)) continue;
+      const start = match.index ?? 0;
+      candidates.push({
+        kind,
+        start,
+        end: start + value.length,
+        text: value,
+        priority,
+      });
+    }
+  });
+
+  candidates.sort(
+    (a, b) =>
+      a.start - b.start ||
+      b.end - b.start - (a.end - a.start) ||
+      a.priority - b.priority
+  );
+
+  const matches: PiiMatch[] = [];
+  let lastEnd = 0;
+  for (const { kind, start, end, text: value } of candidates) {
+    if (start < lastEnd) continue;
+    matches.push({ kind, start, end, text: value });
+    lastEnd = end;
+  }
+
+  return matches;
+}
+
+// Pseudonyms come from reserved documentation ranges so they can never be
+// mistaken for (or collide with) real data. A range holds this many values;
+// past that a kind falls back to placeholders, which never run out.
+const PSEUDONYM_CAPACITY: Record<PiiKind, number> = {
+  email: Infinity,
+  // 555-0101 to 555-0199
+  phone: 99,
+  card: 9999,
+  iban: 9999,
+  // Hosts 1-254 of TEST-NET-1, -2 and -3
+  ip: 3 * 254,
+  nationalId: 9999,
+};
+
+const DOCUMENTATION_NETWORKS = ['192.0.2', '198.51.100', '203.0.113'];
+
+function pseudonym(kind: PiiKind, n: number): string {
+  const pad = (width: number) => String(n).padStart(width, '0');
+  switch (kind) {
+    case 'email':
+      return `person${n}@example.com`;
+    case 'phone':
+      return `555-01${pad(2)}`;
+    case 'card':
+      return `0000-0000-0000-${pad(4)}`;
+    case 'iban':
+      return `XX00 0000 0000 ${pad(4)}`;
+    case 'ip': {
+      const network = DOCUMENTATION_NETWORKS[Math.floor((n - 1) / 254)];
+      return `${network}.${((n - 1) % 254) + 1}`;
+    }
+    case 'nationalId':
+      return `000-00-${pad(4)}`;
+  }
+}
+
+function replacementFor(kind: PiiKind, n: number, mode: RedactionMode): string {
+  if (mode === 'mask') return MASK;
+  if (mode === 'placeholder' || n > PSEUDONYM_CAPACITY[kind]) {
+    return `[${PLACEHOLDER_LABELS[kind]}_${n}]`;
+  }
+  return pseudonym(kind, n);
+}
+
+export function redact(
+  text: string,
+  options: RedactionOptions
+): RedactionResult {
+  const matches = detectPii(text, options.kinds);
+  const known = new Map<string, RedactionEntry>();
+  const counts = new Map<PiiKind, number>();
+  (options.entries || []).forEach(entry => {
+    known.set(`${entry.kind}:${entry.original}`, entry);
+    counts.set(entry.kind, (counts.get(entry.kind) || 0) + 1);
+  });
+
+  const entries: RedactionEntry[] = [];
+  let result = '';
+  let cursor = 0;
+
+  for (const match of matches) {
+    result += text.slice(cursor, match.start);
+    cursor = match.end;
+
+    if (options.mode === 'mask') {
+      result += MASK;
+      continue;
+    }
+
+    const key = `${match.kind}:${match.text}`;
+    let entry = known.get(key);
+    if (!entry) {
+      const n = (counts.get(match.kind) || 0) + 1;
+      counts.set(match.kind, n);
+      entry = {
+        kind: match.kind,
+        original: match.text,
+        replacement: replacementFor(match.kind, n, options.mode),
+      };
+      known.set(key, entry);
+    }
+    if (!entries.includes(entry)) entries.push(entry);
+    result += entry.replacement;
+  }
+
+  return { text: result + text.slice(cursor), matches, entries };
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Swap replacements back for the original values
+export function rehydrate(text: string, entries: RedactionEntry[]): string {
+  if (entries.length === 0) return text;
+
+  const originals = new Map(
+    entries.map(entry => [entry.replacement, entry.original])
+  );
+  // Longest first, and never inside a longer token, so "192.0.2.1" does not
+  // match the start of "192.0.2.10"
+  const alternatives = Array.from(originals.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(
+      replacement =>
+        escapeRegExp(replacement) + (/\w$/.test(replacement) ? '(?!\\w)' : '')
+    );
+  const pattern = new RegExp(alternatives.join('|'), 'g');
+
+  return text.replace(pattern, match => originals.get(match) ?? match);
+}
+
+export function describeRedaction(
+  mode: RedactionMode,
+  matches: PiiMatch[]
+): string[] {
+  const counts = new Map<PiiKind, number>();
+  matches.forEach(match => {
+    counts.set(match.kind, (counts.get(match.kind) || 0) + 1);
+  });
+  return [
+    `redact_${mode}_${matches.length}_matches`,
+    ...Array.from(counts, ([kind, count]) => `redact_${kind}_${count}`),
+  ];
+}
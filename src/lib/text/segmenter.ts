@@ -0,0 +1,218 @@
+// Sentence segmenter shared by the transform and NLP workers
+// Abbreviation, decimal and initial aware; keeps trailing unterminated text.
+// Every line break ends a sentence, so lists and headings without
+// punctuation stay separate.
+
+export interface Sentence {
+  text: string;
+  // Character offsets into the segmented text
+  start: number;
+  end: number;
+}
+
+// Titles never end a sentence ("Dr. Smith")
+// prettier-ignore
+const TITLE_ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'messrs', 'dr', 'prof', 'sr', 'jr', 'st', 'mt', 'rev',
+  'gen', 'col', 'capt', 'lt', 'sgt', 'hon', 'gov', 'pres', 'rep', 'sen',
+]);
+
+// Abbreviations that usually continue the sentence, whatever follows them
+// ("e.g. Vite", "The U.S. Army")
+// prettier-ignore
+const ABBREVIATIONS = new Set([
+  'vs', 'approx', 'dept', 'figs', 'nos', 'vol', 'vols', 'pp', 'eds', 'cf',
+  'viz', 'misc', 'ave', 'blvd', 'feb', 'apr', 'jun', 'jul', 'aug', 'sep',
+  'sept', 'oct', 'nov', 'tue', 'tues', 'thu', 'thur', 'thurs', 'fri', 'e.g',
+  'i.e', 'u.s', 'u.k', 'u.n', 'u.s.a', 'e.u',
+]);
+
+// Abbreviations that are also ordinary words ("The answer is no."); they
+// only continue the sentence before a number ("No. 5", "p. 12", "Sec. 3")
+// prettier-ignore
+const WORD_ABBREVIATIONS = new Set([
+  'no', 'p', 'ch', 'sec', 'fig', 'ed', 'est', 'min', 'max', 'rd', 'jan',
+  'mar', 'dec', 'mon', 'wed', 'sat', 'sun',
+]);
+
+// Abbreviations that can also close a sentence when a capital follows
+// prettier-ignore
+const FINAL_ABBREVIATIONS = new Set([
+  'etc', 'inc', 'ltd', 'co', 'corp', 'llc', 'al',
+]);
+
+// Words that start a sentence rather than continue a name, so "Mr. X. He"
+// breaks after the initial. Other capitalized words are read as part of a
+// name ("John F. Kennedy"), which keeps "World War I. Peace came." together.
+// prettier-ignore
+const SENTENCE_OPENERS = new Set([
+  'the', 'he', 'she', 'it', 'we', 'they', 'you', 'this', 'that', 'these',
+  'those', 'there', 'then', 'but', 'and', 'so', 'his', 'her', 'its', 'our',
+  'their', 'my', 'your', 'if', 'when', 'after', 'in', 'on',
+]);
+
+export const SEGMENTER_TABLES = {
+  titles: TITLE_ABBREVIATIONS,
+  abbreviations: ABBREVIATIONS,
+  wordAbbreviations: WORD_ABBREVIATIONS,
+  finalAbbreviations: FINAL_ABBREVIATIONS,
+  sentenceOpeners: SENTENCE_OPENERS,
+};
+
+// True when a period after `word` need not end a sentence: titles, common
+// abbreviations, single initials and dotted forms like "e.g". Abbreviations
+// that are also ordinary words ("no", "sat") are not included.
+export function isAbbreviation(word: string): boolean {
+  const lower = word.replace(/\.$/, '').toLowerCase();
+  return (
+    TITLE_ABBREVIATIONS.has(lower) ||
+    ABBREVIATIONS.has(lower) ||
+    FINAL_ABBREVIATIONS.has(lower) ||
+    /^\p{L}$|^(?:\p{L}\.)+\p{L}$/u.test(lower)
+  );
+}
+
+// How far around a terminator we look for context
+const LOOKAROUND = 64;
+
+const TERMINATORS = new Set(['.', '!', '?', '…']);
+const CLOSERS = new Set(['"', "'", '”', '’', ')', ']', '}', '»']);
+const OPENERS = /^["'“‘([{«]*/;
+
+function nextWord(text: string, from: number): string {
+  const rest = text.slice(from, from + LOOKAROUND).replace(/^\s+/, '');
+  return rest.replace(OPENERS, '').match(/^\S*/)?.[0] ?? '';
+}
+
+function isUpper(ch: string): boolean {
+  return ch !== '' && ch === ch.toUpperCase() && ch !== ch.toLowerCase();
+}
+
+function isLower(ch: string): boolean {
+  return ch !== '' && ch === ch.toLowerCase() && ch !== ch.toUpperCase();
+}
+
+// Decide whether a terminator run text[i..runEnd) ending at `end` (after any
+// closing quotes/brackets) is a real sentence boundary
+function isBoundary(
+  text: string,
+  lineStart: number,
+  i: number,
+  runEnd: number,
+  end: number,
+  abbreviations?: ReadonlySet<string>
+): boolean {
+  if (end >= text.length) return true;
+  if (!/\s/.test(text[end])) return false;
+
+  const run = text.slice(i, runEnd);
+  const nextText = nextWord(text, end);
+  const next = nextText.charAt(0);
+  if (next === '') return true;
+
+  if (run === '...' || run === '…' || /^\.{2,}$/.test(run)) {
+    return isUpper(next);
+  }
+
+  // ! and ? (possibly combined) end a sentence, unless quoted and followed
+  // by a lowercase word ('"Why?" she asked')
+  if (run !== '.') return end === runEnd || !isLower(next);
+
+  // List markers like "1." at the start of a line
+  if (/^\s*\d+$/.test(text.slice(lineStart, i))) return false;
+
+  const before = text.slice(Math.max(0, i - LOOKAROUND), i);
+  const word = (before.match(/[\p{L}\p{N}.]*$/u)?.[0] ?? '')
+    .replace(/^\.+/, '')
+    .toLowerCase();
+
+  if (TITLE_ABBREVIATIONS.has(word)) return false;
+  // Single initials ("J. K. Rowling"), unless a sentence opener follows
+  if (/^\p{L}$/u.test(word) && isUpper(text[i - 1])) {
+    const opener = nextText.match(/^\p{L}+/u)?.[0].toLowerCase() ?? '';
+    return SENTENCE_OPENERS.has(opener) && !nextText.startsWith(`${opener}.`);
+  }
+  if (ABBREVIATIONS.has(word) || abbreviations?.has(word)) return false;
+  if (WORD_ABBREVIATIONS.has(word)) return !/\d/.test(next);
+  // Other dotted forms ("p.m.") and these can also close a sentence
+  if (FINAL_ABBREVIATIONS.has(word) || /^(?:\p{L}\.)+\p{L}$/u.test(word)) {
+    return isUpper(next);
+  }
+
+  return true;
+}
+
+// `abbreviations` adds language-specific ones (lowercase, without the final
+// period) to the built-in English lists
+export function segmentSentences(
+  text: string,
+  abbreviations?: ReadonlySet<string>
+): Sentence[] {
+  const sentences: Sentence[] = [];
+  let start = 0;
+  let lineStart = 0;
+
+  const push = (end: number) => {
+    const raw = text.slice(start, end);
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (trimmed.length > 0) {
+      sentences.push({
+        text: trimmed,
+        start: start + leading,
+        end: start + leading + trimmed.length,
+      });
+    }
+    start = end;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\n') {
+      push(i);
+      lineStart = i + 1;
+      i++;
+      continue;
+    }
+
+    if (TERMINATORS.has(ch)) {
+      let runEnd = i;
+      while (runEnd < text.length && TERMINATORS.has(text[runEnd])) runEnd++;
+      let end = runEnd;
+      while (end < text.length && CLOSERS.has(text[end])) end++;
+
+      if (isBoundary(text, lineStart, i, runEnd, end, abbreviations)) {
+        push(end);
+      }
+      i = end;
+      continue;
+    }
+
+    i++;
+  }
+
+  push(text.length);
+  return sentences;
+}
+
+export function splitSentences(text: string): string[] {
+  return segmentSentences(text).map(sentence => sentence.text);
+}
+
+// Join a subset of sentences (in order) back into text, keeping the original
+// separator between sentences that were adjacent in the source
+export function joinSentences(text: string, sentences: Sentence[]): string {
+  return sentences
+    .map((sentence, index) => {
+      if (index === 0) return sentence.text;
+      const gap = text.slice(sentences[index - 1].end, sentence.start);
+      if (/^\s+$/.test(gap)) return gap + sentence.text;
+      const lead = text
+        .slice(Math.max(0, sentence.start - LOOKAROUND), sentence.start)
+        .match(/\s*$/)?.[0];
+      return (lead?.includes('\n') ? '\n' : ' ') + sentence.text;
+    })
+    .join('');
+}
@@ -0,0 +1,57 @@
+// Light suffix-stripping stemmer - merges inflected and derived forms
+// ("deploy", "deployed", "deployment") without a dictionary. Stems are keys,
+// not words, and are never shown to users.
+
+// Longest first; only one derivational suffix is removed
+export const SUFFIXES = [
+  'ations',
+  'ation',
+  'ments',
+  'ment',
+  'nesses',
+  'ness',
+  'ings',
+  'ing',
+  'edly',
+  'ed',
+  'ly',
+];
+
+// Stems shorter than this are too ambiguous ("st" from "station")
+const MIN_STEM = 3;
+
+function stripPlural(word: string): string {
+  if (word.endsWith('ies') && word.length > 4) return `${word.slice(0, -3)}y`;
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (/(?:[sxz]|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (/[^su]s$/.test(word) && !/[^aeiou]is$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+export function stem(word: string): string {
+  let result = word.toLowerCase();
+  // Acronyms, numbers and short words are kept whole
+  if (result.length <= MIN_STEM || /\d/.test(result)) return result;
+
+  result = stripPlural(result);
+  if (result.endsWith('ied') && result.length > 4) {
+    result = `${result.slice(0, -3)}y`;
+  }
+
+  for (const suffix of SUFFIXES) {
+    if (result.endsWith(suffix) && result.length - suffix.length >= MIN_STEM) {
+      result = result.slice(0, -suffix.length);
+      // "stopped" → "stopp" → "stop", but keep "fall", "pass", "buzz"
+      if (/([^aeioulsz])\1$/.test(result)) result = result.slice(0, -1);
+      break;
+    }
+  }
+
+  // "configure" and "configuration" meet at "configur"
+  if (result.endsWith('e') && result.length > MIN_STEM) {
+    result = result.slice(0, -1);
+  }
+  return result;
+}
@@ -0,0 +1,72 @@
+// Stopword lists shared by keyword extraction and summarization: English,
+// plus German and Spanish for their language resource bundles
+
+// prettier-ignore
+export const STOPWORDS = new Set([
+  'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
+  'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at',
+  'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her', 'she',
+  'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their', 'what',
+]);
+
+// Function words that bound key phrases. Much longer than STOPWORDS: a phrase
+// like "the new API of the service" must split at every one of them.
+// prettier-ignore
+export const PHRASE_STOPWORDS = new Set([
+  ...STOPWORDS,
+  'about', 'above', 'after', 'again', 'against', 'also', 'am', 'any', 'are',
+  'because', 'been', 'before', 'being', 'below', 'between', 'both', 'can',
+  'could', 'did', 'does', 'doing', 'down', 'during', 'each', 'even', 'ever',
+  'every', 'few', 'further', 'get', 'gets', 'got', 'had', 'has', 'having',
+  'here', 'hers', 'herself', 'him', 'himself', 'how', 'however', 'if', 'into',
+  'is', 'its', 'itself', 'just', 'less', 'let', 'like', 'made', 'make',
+  'many', 'may', 'me', 'might', 'more', 'most', 'much', 'must', 'myself',
+  'no', 'nor', 'now', 'off', 'often', 'once', 'only', 'other', 'ought',
+  'our', 'ours', 'ourselves', 'out', 'over', 'own', 'per', 'quite', 'rather',
+  'really', 'same', 'said', 'says', 'see', 'seen', 'shall', 'should', 'since',
+  'so', 'some', 'still', 'such', 'than', 'then', 'them', 'themselves',
+  'these', 'those', 'through', 'thus', 'too', 'under', 'until', 'up', 'upon',
+  'us', 'use', 'used', 'using', 'very', 'via', 'was', 'were', 'when', 'where',
+  'whether', 'which', 'while', 'who', 'whom', 'whose', 'why', 'within',
+  'without', 'yet', 'your', 'yours', 'yourself', 'yourselves', 'new', 'well',
+  'way', 'want', 'need', 'needs', 'going', 'able', 'another', 'etc',
+]);
+
+// Articles, pronouns, prepositions, conjunctions and auxiliaries; short enough
+// to serve both summaries and key phrases
+// prettier-ignore
+export const GERMAN_STOPWORDS = new Set([
+  'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines',
+  'einem', 'einen', 'und', 'oder', 'aber', 'sondern', 'denn', 'dass', 'weil',
+  'wenn', 'als', 'ob', 'wie', 'wo', 'was', 'wer', 'wir', 'ich', 'du', 'er',
+  'sie', 'es', 'ihr', 'ihm', 'ihn', 'ihnen', 'ihre', 'ihren', 'ihrem', 'ihrer',
+  'uns', 'unser', 'unsere', 'mich', 'mir', 'dich', 'dir', 'sich', 'mein',
+  'meine', 'dein', 'sein', 'seine', 'seinen', 'seinem', 'seiner', 'in', 'im',
+  'an', 'am', 'auf', 'aus', 'bei', 'beim', 'mit', 'nach', 'von', 'vom', 'vor',
+  'zu', 'zum', 'zur', 'für', 'über', 'unter', 'um', 'durch', 'gegen', 'ohne',
+  'bis', 'seit', 'zwischen', 'ist', 'sind', 'war', 'waren', 'bin', 'bist',
+  'sei', 'hat', 'haben', 'hatte', 'hatten', 'habe', 'wird', 'werden', 'wurde',
+  'wurden', 'kann', 'können', 'muss', 'müssen', 'soll', 'sollen', 'will',
+  'wollen', 'nicht', 'kein', 'keine', 'auch', 'nur', 'noch', 'schon', 'so',
+  'sehr', 'mehr', 'hier', 'dort', 'da', 'dann', 'jetzt', 'dies', 'diese',
+  'dieser', 'dieses', 'diesen', 'diesem', 'alle', 'allem', 'man', 'doch', 'ja',
+  'nein', 'bitte', 'immer', 'wieder', 'etwa', 'einige', 'viele',
+]);
+
+// prettier-ignore
+export const SPANISH_STOPWORDS = new Set([
+  'el', 'la', 'los', 'las', 'lo', 'un', 'una', 'unos', 'unas', 'al', 'del',
+  'de', 'a', 'en', 'y', 'e', 'o', 'u', 'que', 'se', 'por', 'para', 'con',
+  'sin', 'sobre', 'entre', 'hasta', 'desde', 'hacia', 'contra', 'durante',
+  'ante', 'no', 'ni', 'pero', 'sino', 'como', 'cuando', 'donde', 'porque',
+  'si', 'sí', 'muy', 'más', 'menos', 'ya', 'también', 'tampoco', 'todo',
+  'todos', 'toda', 'todas', 'otro', 'otra', 'otros', 'otras', 'este', 'esta',
+  'estos', 'estas', 'esto', 'ese', 'esa', 'esos', 'esas', 'eso', 'aquel',
+  'yo', 'tú', 'él', 'ella', 'ellos', 'ellas', 'nosotros', 'vosotros', 'usted',
+  'ustedes', 'me', 'te', 'le', 'les', 'nos', 'os', 'mi', 'mis', 'tu', 'tus',
+  'su', 'sus', 'nuestro', 'nuestra', 'es', 'son', 'fue', 'fueron', 'era',
+  'ser', 'sea', 'está', 'están', 'estar', 'estaba', 'ha', 'han', 'he', 'has',
+  'había', 'haber', 'hay', 'qué', 'cual', 'cuál', 'quien', 'quién', 'algo',
+  'alguno', 'algunos', 'algunas', 'mucho', 'muchos', 'poco', 'nada', 'tan',
+  'tanto', 'cada', 'aquí', 'allí', 'ahora', 'entonces', 'luego', 'así',
+]);
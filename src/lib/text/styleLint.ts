@@ -0,0 +1,389 @@
+// Deterministic style linter - flags passive voice, hedges, adverbs, repeated
+// words, overlong sentences, clichés and corporate jargon as typed findings
+// with spans, severity and, where one exists, a suggested replacement
+
+import { applyLexicon, compileLexicon, type Lexicon } from './lexicon';
+import { detectProtectedSpans } from './protectedSpans';
+import { segmentSentences } from './segmenter';
+import { STOPWORDS } from './stopwords';
+
+export type LintRule =
+  | 'passive'
+  | 'hedge'
+  | 'adverb'
+  | 'repetition'
+  | 'longSentence'
+  | 'cliche'
+  | 'jargon';
+
+export type LintSeverity = 'info' | 'warning' | 'error';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: LintSeverity;
+  // Character offsets into the linted text
+  start: number;
+  end: number;
+  text: string;
+  message: string;
+  // Replacement for text[start, end); an empty string means delete
+  suggestion?: string;
+}
+
+export interface LintOptions {
+  // Rules to run; defaults to all
+  rules?: LintRule[];
+  // Word counts above which a sentence is a warning, then an error
+  longSentenceWords?: number;
+  veryLongSentenceWords?: number;
+}
+
+export const LINT_RULES: LintRule[] = [
+  'passive',
+  'hedge',
+  'adverb',
+  'repetition',
+  'longSentence',
+  'cliche',
+  'jargon',
+];
+
+// Hedges weaken the claim around them; the fix is to drop them
+// prettier-ignore
+export const HEDGES = [
+  'i think', 'i believe', 'i feel', 'i guess', 'i suppose', 'in my opinion',
+  'sort of', 'kind of', 'somewhat', 'arguably', 'it seems that',
+  'it seems like', 'more or less', 'to some extent', 'it could be argued that',
+  'perhaps', 'possibly', 'presumably', 'apparently', 'supposedly',
+];
+
+// prettier-ignore
+export const CLICHES: Record<string, string> = {
+  'at the end of the day': 'ultimately', 'think outside the box': 'think creatively',
+  'low hanging fruit': 'easy wins', 'the bottom line': 'the result',
+  'in a nutshell': 'in short', 'at this point in time': 'now',
+  'needless to say': '', 'each and every': 'every', 'first and foremost': 'first',
+  'last but not least': 'finally', 'few and far between': 'rare',
+  'tip of the iceberg': 'a small part', 'hit the ground running': 'start quickly',
+  'the elephant in the room': 'the obvious problem', 'a perfect storm': 'a crisis',
+  'par for the course': 'normal', 'ballpark figure': 'estimate',
+  'game changer': 'breakthrough', 'all things considered': 'overall',
+  'it goes without saying': '', 'when all is said and done': 'in the end',
+  'only time will tell': 'we will see', 'better late than never': 'late',
+};
+
+// prettier-ignore
+export const JARGON: Record<string, string> = {
+  'synergy': 'cooperation', 'synergies': 'shared benefits', 'leverage': 'use',
+  'circle back': 'follow up', 'touch base': 'talk', 'bandwidth': 'time',
+  'deep dive': 'close look', 'move the needle': 'make a difference',
+  'paradigm shift': 'major change', 'going forward': 'from now on',
+  'action item': 'task', 'action items': 'tasks', 'best practice': 'proven method',
+  'best practices': 'proven methods', 'ideate': 'brainstorm',
+  'incentivize': 'encourage', 'operationalize': 'put into practice',
+  'value add': 'benefit', 'core competency': 'strength', 'drill down': 'look closer',
+  'reach out': 'contact', 'holistic': 'complete', 'learnings': 'lessons',
+  'actionable': 'practical', 'empower': 'enable', 'streamline': 'simplify',
+  'mission critical': 'essential', 'take offline': 'discuss later',
+  'boil the ocean': 'do too much', 'net net': 'in short', 'ping': 'message',
+};
+
+// Intensifiers add emphasis without meaning; always flagged, fix is to drop
+// prettier-ignore
+const INTENSIFIERS = new Set([
+  'very', 'really', 'extremely', 'totally', 'completely', 'absolutely',
+  'basically', 'actually', 'literally', 'incredibly', 'truly', 'highly',
+]);
+
+// Common -ly words that are not adverbs
+// prettier-ignore
+const NOT_ADVERBS = new Set([
+  'only', 'family', 'early', 'daily', 'weekly', 'monthly', 'yearly', 'hourly',
+  'likely', 'reply', 'apply', 'supply', 'imply', 'comply', 'rely', 'ally',
+  'fly', 'july', 'italy', 'holy', 'ugly', 'friendly', 'lovely', 'lonely',
+  'lively', 'silly', 'costly', 'elderly', 'belly', 'bully', 'jelly', 'rally',
+  'tally', 'folly', 'lily', 'holly', 'jolly', 'chilly', 'hilly', 'curly',
+  'oily', 'assembly', 'anomaly', 'monopoly', 'butterfly', 'multiply', 'sly',
+  'melancholy', 'homily', 'timely', 'orderly', 'deadly', 'unlikely',
+]);
+
+// Irregular past participles; regular ones end in -ed
+// prettier-ignore
+const IRREGULAR_PARTICIPLES = new Set([
+  'begun', 'bitten', 'blown', 'broken', 'brought', 'built', 'bought',
+  'caught', 'chosen', 'done', 'drawn', 'driven', 'eaten', 'fallen', 'felt',
+  'forgotten', 'forgiven', 'found', 'frozen', 'given', 'grown',
+  'heard', 'held', 'hidden', 'hit', 'hurt', 'kept', 'known', 'laid', 'led',
+  'left', 'lent', 'lost', 'made', 'meant', 'met', 'paid', 'put', 'read',
+  'ridden', 'run', 'said', 'seen', 'sent', 'set', 'shaken', 'shown', 'shut',
+  'sold', 'spent', 'spoken', 'stolen', 'struck', 'sung', 'taken', 'taught',
+  'thrown', 'told', 'thought', 'torn', 'understood', 'woken', 'won', 'worn',
+  'written',
+]);
+
+// -ed words that usually describe a state after "to be", not an action
+// prettier-ignore
+const STATE_ADJECTIVES = new Set([
+  'tired', 'interested', 'excited', 'bored', 'married', 'supposed', 'used',
+  'concerned', 'located', 'based', 'pleased', 'worried', 'scared', 'prepared',
+  'involved', 'related', 'allowed', 'required', 'needed', 'aged', 'ashamed',
+  'detailed', 'experienced', 'qualified', 'limited', 'advanced', 'talented',
+]);
+
+// "'s" is left out: "it's done" and "she's finished" are usually "has"
+const BE_VERBS =
+  "am|is|are|was|were|be|been|being|get|gets|got|gotten|getting|'re|’re";
+
+const PASSIVE_PATTERN = new RegExp(
+  `\\b(?:${BE_VERBS})(?:\\s+(?:not|never|also|already|just|\\p{L}+ly))?\\s+(\\p{L}+)\\b`,
+  'giu'
+);
+
+export const LINT_TABLES = {
+  hedges: HEDGES,
+  cliches: CLICHES,
+  jargon: JARGON,
+  intensifiers: INTENSIFIERS,
+  notAdverbs: NOT_ADVERBS,
+  irregularParticiples: IRREGULAR_PARTICIPLES,
+  stateAdjectives: STATE_ADJECTIVES,
+  passive: PASSIVE_PATTERN,
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu;
+
+const DEFAULT_LONG_SENTENCE_WORDS = 25;
+const DEFAULT_VERY_LONG_SENTENCE_WORDS = 40;
+
+// -ly adverbs are flagged once the text has more than one per this many words
+const WORDS_PER_ADVERB = 30;
+
+// A content word used again within this many words is a repetition
+const REPETITION_WINDOW = 12;
+
+let hedgeLexicon: Lexicon | null = null;
+let clicheLexicon: Lexicon | null = null;
+let jargonLexicon: Lexicon | null = null;
+
+function phraseFindings(
+  text: string,
+  lexicon: Lexicon,
+  rule: LintRule,
+  severity: LintSeverity,
+  message: (from: string, to: string) => string
+): LintFinding[] {
+  return applyLexicon(text, lexicon).swaps.map(swap => ({
+    rule,
+    severity,
+    start: swap.start,
+    end: swap.end,
+    text: swap.from,
+    message: message(swap.from, swap.to),
+    suggestion: swap.to,
+  }));
+}
+
+function findHedges(text: string): LintFinding[] {
+  if (!hedgeLexicon) {
+    hedgeLexicon = compileLexicon(
+      Object.fromEntries(HEDGES.map(hedge => [hedge, '']))
+    );
+  }
+  return phraseFindings(
+    text,
+    hedgeLexicon,
+    'hedge',
+    'info',
+    from => `"${from}" weakens the statement`
+  );
+}
+
+function findCliches(text: string): LintFinding[] {
+  if (!clicheLexicon) clicheLexicon = compileLexicon(CLICHES);
+  return phraseFindings(text, clicheLexicon, 'cliche', 'warning', (from, to) =>
+    to ? `"${from}" is a cliché; try "${to}"` : `"${from}" is a cliché`
+  );
+}
+
+function findJargon(text: string): LintFinding[] {
+  if (!jargonLexicon) jargonLexicon = compileLexicon(JARGON);
+  return phraseFindings(
+    text,
+    jargonLexicon,
+    'jargon',
+    'warning',
+    (from, to) => `"${from}" is corporate jargon; try "${to}"`
+  );
+}
+
+function isParticiple(word: string): boolean {
+  const lower = word.toLowerCase();
+  if (STATE_ADJECTIVES.has(lower)) return false;
+  return IRREGULAR_PARTICIPLES.has(lower) || /\p{L}{2,}ed$/u.test(lower);
+}
+
+function findPassive(text: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+  for (const match of text.matchAll(PASSIVE_PATTERN)) {
+    if (!isParticiple(match[1])) continue;
+    const start = match.index ?? 0;
+    findings.push({
+      rule: 'passive',
+      severity: 'warning',
+      start,
+      end: start + match[0].length,
+      text: match[0],
+      message: 'Passive voice; say who does the action',
+    });
+  }
+  return findings;
+}
+
+function findAdverbs(text: string): LintFinding[] {
+  const words = Array.from(text.matchAll(WORD_PATTERN));
+  const intensifiers: LintFinding[] = [];
+  const adverbs: LintFinding[] = [];
+
+  words.forEach(match => {
+    const word = match[0];
+    const lower = word.toLowerCase();
+    const start = match.index ?? 0;
+    const end = start + word.length;
+
+    if (INTENSIFIERS.has(lower)) {
+      intensifiers.push({
+        rule: 'adverb',
+        severity: 'info',
+        start,
+        end,
+        text: word,
+        message: `"${word}" adds emphasis without meaning`,
+        suggestion: '',
+      });
+    } else if (/^\p{L}{3,}ly$/u.test(lower) && !NOT_ADVERBS.has(lower)) {
+      adverbs.push({
+        rule: 'adverb',
+        severity: 'info',
+        start,
+        end,
+        text: word,
+        message: 'Adverb; a stronger verb may work better',
+      });
+    }
+  });
+
+  const limit = Math.max(1, words.length / WORDS_PER_ADVERB);
+  return adverbs.length > limit ? [...intensifiers, ...adverbs] : intensifiers;
+}
+
+function findRepetitions(text: string): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const lastSeen = new Map<string, number>();
+  let index = 0;
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0];
+    const lower = word.toLowerCase();
+    if (lower.length >= 4 && !STOPWORDS.has(lower) && !/^\d+$/.test(lower)) {
+      const previous = lastSeen.get(lower);
+      // Doubled words are the proofreader's job
+      if (previous !== undefined && index - previous > 1) {
+        if (index - previous <= REPETITION_WINDOW) {
+          const start = match.index ?? 0;
+          findings.push({
+            rule: 'repetition',
+            severity: 'info',
+            start,
+            end: start + word.length,
+            text: word,
+            message: `"${word}" is repeated within ${index - previous} words`,
+          });
+        }
+      }
+      lastSeen.set(lower, index);
+    }
+    index++;
+  }
+  return findings;
+}
+
+function findLongSentences(
+  text: string,
+  warnAt: number,
+  errorAt: number
+): LintFinding[] {
+  return segmentSentences(text).flatMap(sentence => {
+    const words = sentence.text.match(WORD_PATTERN)?.length ?? 0;
+    if (words <= warnAt) return [];
+    return [
+      {
+        rule: 'longSentence' as const,
+        severity: words > errorAt ? ('error' as const) : ('warning' as const),
+        start: sentence.start,
+        end: sentence.end,
+        text: sentence.text,
+        message: `Sentence has ${words} words; consider splitting it`,
+      },
+    ];
+  });
+}
+
+export function lintText(
+  text: string,
+  options: LintOptions = {}
+): LintFinding[] {
+  const enabled = new Set(options.rules ?? LINT_RULES);
+  const findings: LintFinding[] = [];
+
+  if (enabled.has('passive')) findings.push(...findPassive(text));
+  if (enabled.has('hedge')) findings.push(...findHedges(text));
+  if (enabled.has('adverb')) findings.push(...findAdverbs(text));
+  if (enabled.has('repetition')) findings.push(...findRepetitions(text));
+  if (enabled.has('longSentence')) {
+    findings.push(
+      ...findLongSentences(
+        text,
+        options.longSentenceWords ?? DEFAULT_LONG_SENTENCE_WORDS,
+        options.veryLongSentenceWords ?? DEFAULT_VERY_LONG_SENTENCE_WORDS
+      )
+    );
+  }
+  if (enabled.has('cliche')) findings.push(...findCliches(text));
+  if (enabled.has('jargon')) findings.push(...findJargon(text));
+
+  // Quotes, code and URLs are someone else's words; sentence findings may
+  // still contain them
+  const spans = detectProtectedSpans(text);
+  return findings
+    .filter(
+      finding =>
+        finding.rule === 'longSentence' ||
+        !spans.some(
+          span => finding.start < span.end && span.start < finding.end
+        )
+    )
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+}
+
+// Apply one finding's suggestion. Deletions also take the following space and
+// re-capitalize a sentence they started
+export function applyLintFix(text: string, finding: LintFinding): string {
+  if (finding.suggestion === undefined) return text;
+  if (text.slice(finding.start, finding.end) !== finding.text) {
+    throw new Error('Text changed since it was checked');
+  }
+
+  const before = text.slice(0, finding.start);
+  let after = text.slice(finding.end);
+  if (finding.suggestion !== '') {
+    return before + finding.suggestion + after;
+  }
+
+  after = after.replace(/^,?\s+/, '');
+  if (/(?:^|[.!?]\s+)$/.test(before)) {
+    after = after.replace(/^\p{Ll}/u, letter => letter.toUpperCase());
+  } else if (/\s$/.test(before) && /^[,.;:!?]/.test(after)) {
+    return before.trimEnd() + after;
+  }
+  return before + after;
+}
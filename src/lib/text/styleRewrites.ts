@@ -0,0 +1,43 @@
+// Pattern rewrites for the style transform - each style is an ordered list of
+// replacements, kept as data so the result cache can hash them
+
+export interface StyleRewrite {
+  pattern: RegExp;
+  replacement: string;
+}
+
+export const STYLE_REWRITES: Record<string, StyleRewrite[]> = {
+  concise: [
+    {
+      pattern:
+        /\b(?:actually|basically|literally|essentially|obviously|clearly)\b/gi,
+      replacement: '',
+    },
+    { pattern: /\s{2,}/g, replacement: ' ' },
+  ],
+  detailed: [
+    { pattern: /\bis\b/g, replacement: 'is currently' },
+    { pattern: /\bwas\b/g, replacement: 'was previously' },
+    { pattern: /\bcan\b/g, replacement: 'is able to' },
+  ],
+  technical: [
+    { pattern: /\buse\b/g, replacement: 'utilize' },
+    { pattern: /\bpart\b/g, replacement: 'component' },
+    { pattern: /\bthing\b/g, replacement: 'element' },
+  ],
+};
+
+export function isStyle(style: string): boolean {
+  return Object.prototype.hasOwnProperty.call(
+    STYLE_REWRITES,
+    style.toLowerCase()
+  );
+}
+
+export function applyStyleRewrites(text: string, style: string): string {
+  const rewrites = STYLE_REWRITES[style.toLowerCase()] ?? [];
+  return rewrites.reduce(
+    (result, { pattern, replacement }) => result.replace(pattern, replacement),
+    text
+  );
+}
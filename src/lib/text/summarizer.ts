@@ -0,0 +1,244 @@
+// Graph-based extractive summarization (LexRank-style)
+// Sentences are ranked by PageRank over a TF-IDF cosine similarity graph with
+// a position prior, then picked with MMR to avoid redundant sentences
+
+import type { LanguageResources } from './languageResources';
+import { joinSentences, segmentSentences, type Sentence } from './segmenter';
+import { STOPWORDS } from './stopwords';
+
+export interface SummaryOptions {
+  // Exact number of sentences to keep
+  sentences?: number;
+  // Fraction of the input sentences to keep (0-1)
+  ratio?: number;
+  // Upper bound on summary length in characters
+  maxChars?: number;
+  // Stopwords and abbreviations of the text's language; English when absent
+  language?: Pick<LanguageResources, 'stopwords' | 'abbreviations'>;
+}
+
+export interface RankedSentence extends Sentence {
+  index: number;
+  score: number;
+}
+
+export interface SummaryResult {
+  text: string;
+  // Selected sentences in original order
+  sentences: RankedSentence[];
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 50;
+const CONVERGENCE = 1e-6;
+const SIMILARITY_THRESHOLD = 0.05;
+// MMR trade-off between relevance (1) and novelty (0)
+const MMR_LAMBDA = 0.7;
+// Sentences this similar to a selected one are near-duplicates and only
+// picked once nothing else is left
+const REDUNDANCY_CUTOFF = 0.6;
+
+function sentenceTerms(text: string, stopwords: ReadonlySet<string>): string[] {
+  return (
+    text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || []
+  ).filter(word => word.length > 1 && !stopwords.has(word));
+}
+
+function buildVectors(
+  sentences: Sentence[],
+  stopwords: ReadonlySet<string>
+): Map<string, number>[] {
+  const termLists = sentences.map(sentence =>
+    sentenceTerms(sentence.text, stopwords)
+  );
+  const docFreq = new Map<string, number>();
+  termLists.forEach(terms => {
+    new Set(terms).forEach(term => {
+      docFreq.set(term, (docFreq.get(term) || 0) + 1);
+    });
+  });
+
+  const n = sentences.length;
+  return termLists.map(terms => {
+    const vector = new Map<string, number>();
+    terms.forEach(term => vector.set(term, (vector.get(term) || 0) + 1));
+    vector.forEach((tf, term) => {
+      const idf = Math.log((n + 1) / ((docFreq.get(term) || 0) + 0.5));
+      vector.set(term, tf * idf);
+    });
+    return vector;
+  });
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((weight, term) => {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other !== undefined) dot += weight * other;
+  });
+  b.forEach(weight => {
+    normB += weight * weight;
+  });
+  if (normA === 0 || normB === 0) return 0;
+  return dot / Math.sqrt(normA * normB);
+}
+
+export function similarityMatrix(
+  sentences: Sentence[],
+  stopwords: ReadonlySet<string> = STOPWORDS
+): number[][] {
+  const vectors = buildVectors(sentences, stopwords);
+  const n = sentences.length;
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const sim = cosine(vectors[i], vectors[j]);
+      matrix[i][j] = sim;
+      matrix[j][i] = sim;
+    }
+  }
+  return matrix;
+}
+
+// Earlier sentences get a higher teleport probability
+function positionPrior(n: number): number[] {
+  const weights = Array.from({ length: n }, (_, i) => 1 / Math.sqrt(i + 1));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
+
+export function rankSentences(
+  sentences: Sentence[],
+  similarity: number[][] = similarityMatrix(sentences)
+): number[] {
+  const n = sentences.length;
+  if (n === 0) return [];
+  if (n === 1) return [1];
+
+  const prior = positionPrior(n);
+  const weights = similarity.map(row =>
+    row.map(sim => (sim >= SIMILARITY_THRESHOLD ? sim : 0))
+  );
+  const outWeight = weights.map(row => row.reduce((sum, w) => sum + w, 0));
+
+  let scores = prior.slice();
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = prior.map(p => (1 - DAMPING) * p);
+    // Sentences with no edges spread their rank by the prior
+    let dangling = 0;
+    for (let j = 0; j < n; j++) {
+      if (outWeight[j] === 0) {
+        dangling += scores[j];
+        continue;
+      }
+      for (let i = 0; i < n; i++) {
+        if (weights[j][i] > 0) {
+          next[i] += (DAMPING * scores[j] * weights[j][i]) / outWeight[j];
+        }
+      }
+    }
+    for (let i = 0; i < n; i++) next[i] += DAMPING * dangling * prior[i];
+
+    const delta = next.reduce((sum, s, i) => sum + Math.abs(s - scores[i]), 0);
+    scores = next;
+    if (delta < CONVERGENCE) break;
+  }
+
+  const max = Math.max(...scores);
+  return scores.map(score => (max > 0 ? score / max : 0));
+}
+
+function targetCount(total: number, options: SummaryOptions): number {
+  if (options.sentences !== undefined) {
+    return Math.max(0, Math.min(total, Math.floor(options.sentences)));
+  }
+  if (options.ratio !== undefined) {
+    return Math.max(1, Math.min(total, Math.ceil(total * options.ratio)));
+  }
+  return total;
+}
+
+// Longest prefix of whole words within maxChars, without trailing
+// separators; empty when the first word is already too long
+function truncateAtWord(text: string, maxChars: number): string {
+  if (text.length <= maxChars) return text;
+  const boundary = text.slice(0, maxChars + 1).search(/\s\S*$/);
+  return boundary > 0 ? text.slice(0, boundary).replace(/[\s,;:]+$/, '') : '';
+}
+
+export function summarize(
+  text: string,
+  options: SummaryOptions = {}
+): SummaryResult {
+  const sentences = segmentSentences(text, options.language?.abbreviations);
+  const similarity = similarityMatrix(
+    sentences,
+    options.language?.stopwords ?? STOPWORDS
+  );
+  const scores = rankSentences(sentences, similarity);
+  const target = targetCount(sentences.length, options);
+  const maxChars = options.maxChars ?? Infinity;
+
+  const selected: number[] = [];
+  const remaining = new Set(sentences.map((_, i) => i));
+
+  while (selected.length < target && remaining.size > 0) {
+    let best = -1;
+    let bestValue = -Infinity;
+
+    remaining.forEach(i => {
+      const redundancy = selected.reduce(
+        (max, j) => Math.max(max, similarity[i][j]),
+        0
+      );
+      let value = MMR_LAMBDA * scores[i] - (1 - MMR_LAMBDA) * redundancy;
+      if (redundancy >= REDUNDANCY_CUTOFF) value -= 1;
+      // Ties resolve to the earlier sentence for determinism
+      if (value > bestValue || (value === bestValue && i < best)) {
+        best = i;
+        bestValue = value;
+      }
+    });
+
+    remaining.delete(best);
+    // Measure the joined text: gaps keep their original whitespace, and
+    // which gaps appear depends on where the sentence lands
+    if (maxChars !== Infinity) {
+      const candidate = [...selected, best]
+        .sort((a, b) => a - b)
+        .map(index => sentences[index]);
+      if (joinSentences(text, candidate).length > maxChars) continue;
+    }
+
+    selected.push(best);
+  }
+
+  // Nothing fits the character budget: cut the top sentence at the last word
+  // that fits, or give up when not even its first word does
+  if (selected.length === 0 && target > 0 && sentences.length > 0) {
+    const best = scores.indexOf(Math.max(...scores));
+    const cut = truncateAtWord(sentences[best].text, maxChars);
+    if (!cut) return { text: '', sentences: [] };
+    const sentence = {
+      ...sentences[best],
+      text: cut,
+      end: sentences[best].start + cut.length,
+      index: best,
+      score: scores[best],
+    };
+    return { text: cut, sentences: [sentence] };
+  }
+
+  const ranked = selected
+    .sort((a, b) => a - b)
+    .map(index => ({ ...sentences[index], index, score: scores[index] }));
+
+  return {
+    text: joinSentences(text, ranked),
+    sentences: ranked,
+  };
+}
@@ -0,0 +1,419 @@
+// Lexicon-based tone detection - AFINN-style sentiment with negation and
+// intensifiers, formality from contractions, slang and pronouns, and urgency,
+// per sentence and overall, plus a suggested target tone for the rewrite
+
+import { detectProtectedSpans } from './protectedSpans';
+import { segmentSentences } from './segmenter';
+import { TONE_LEXICONS } from './toneLexicons';
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+export type FormalityLevel = 'formal' | 'neutral' | 'casual';
+export type UrgencyLevel = 'low' | 'medium' | 'high';
+
+export interface ToneScores {
+  // -1 (very negative) to 1 (very positive)
+  polarity: number;
+  sentiment: Sentiment;
+  // -1 (casual) to 1 (formal)
+  formality: number;
+  formalityLevel: FormalityLevel;
+  // 0-1
+  urgency: number;
+  urgencyLevel: UrgencyLevel;
+}
+
+export interface SentenceTone extends ToneScores {
+  // Character offsets into the measured text
+  start: number;
+  end: number;
+}
+
+export interface ToneCounts {
+  words: number;
+  // Sum of word scores after negation and intensifiers
+  sentiment: number;
+  contractions: number;
+  slang: number;
+  // First- and second-person pronouns
+  personalPronouns: number;
+  formalMarkers: number;
+  exclamations: number;
+  urgencyPoints: number;
+}
+
+export interface SentenceToneStats {
+  tone: SentenceTone;
+  counts: ToneCounts;
+}
+
+export interface ToneReport {
+  overall: ToneScores;
+  sentences: SentenceTone[];
+  // A TONE_LEXICONS key, when the text would read better in another tone
+  suggestedTone?: string;
+}
+
+// AFINN-style word scores, -5 to 5
+// prettier-ignore
+const SENTIMENT_LEXICON: Record<string, number> = {
+  good: 3, great: 3, excellent: 3, amazing: 4, awesome: 4, fantastic: 4,
+  wonderful: 4, outstanding: 5, brilliant: 4, superb: 5, perfect: 3, best: 3,
+  better: 2, love: 3, loved: 3, like: 2, liked: 2, enjoy: 2, enjoyed: 2,
+  happy: 3, glad: 3, pleased: 3, delighted: 3, excited: 3, exciting: 3,
+  thanks: 2, thank: 2, grateful: 3, appreciate: 2, appreciated: 2,
+  helpful: 2, nice: 3, impressive: 3, success: 2, successful: 3, win: 4,
+  won: 3, congrats: 2, congratulations: 2, fun: 4, hope: 2, hopeful: 2,
+  improve: 2, improved: 2, improvement: 2, interesting: 2, kind: 2,
+  positive: 2, recommend: 2, resolved: 2, smooth: 2, solid: 2, strong: 2,
+  support: 2, welcome: 2, agree: 1, benefit: 2, easy: 1, clear: 1, fine: 2,
+  safe: 1, super: 3, cool: 1, yay: 2,
+  bad: -3, terrible: -3, awful: -3, horrible: -3, worst: -3, worse: -3,
+  hate: -3, hated: -3, angry: -3, annoyed: -2, annoying: -2,
+  disappointed: -2, disappointing: -2, frustrated: -2, frustrating: -2,
+  sad: -2, unhappy: -2, upset: -2, sorry: -1, unfortunately: -2,
+  problem: -2, problems: -2, issue: -1, issues: -1, fail: -2, failed: -2,
+  failing: -2, failure: -2, broken: -1, bug: -2, bugs: -2, error: -2,
+  errors: -2, wrong: -2, poor: -2, delay: -1, delayed: -1, concern: -1,
+  concerned: -2, worried: -3, worry: -3, confusing: -2, confused: -2,
+  unacceptable: -3, useless: -2, waste: -1, wasted: -2, difficult: -1,
+  risk: -2, crash: -2, crashed: -2, missing: -2, lost: -3, lose: -3,
+  loss: -3, complaint: -2, stupid: -2, ridiculous: -3, ugly: -3, damn: -4,
+  crap: -3, sucks: -3, blame: -2, mess: -2, ignored: -2, painful: -2,
+};
+
+const NEGATORS = new Set([
+  'not',
+  'no',
+  'never',
+  'none',
+  'nobody',
+  'nothing',
+  'neither',
+  'nor',
+  'without',
+  'hardly',
+  'barely',
+  'cannot',
+]);
+
+// A negated word counts weaker and the other way round ("not bad" is mildly
+// positive), as in VADER
+const NEGATION_FACTOR = -0.75;
+// Negation reaches this many words ahead ("not at all good")
+const NEGATION_WINDOW = 3;
+// Shouted sentiment words ("GREAT") count more
+const CAPS_FACTOR = 1.5;
+
+// Multipliers for the sentiment word that follows
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5,
+  really: 1.5,
+  so: 1.3,
+  too: 1.3,
+  extremely: 2,
+  incredibly: 2,
+  absolutely: 1.8,
+  totally: 1.5,
+  completely: 1.5,
+  highly: 1.5,
+  super: 1.5,
+  quite: 1.2,
+  pretty: 1.2,
+  fairly: 0.8,
+  rather: 0.8,
+  kinda: 0.7,
+  somewhat: 0.6,
+  slightly: 0.5,
+};
+
+// Slang is whatever the formal tone rewrites away
+const SLANG = Object.keys(TONE_LEXICONS.formal || {});
+const SLANG_PATTERN = new RegExp(
+  `(?<![\\p{L}\\p{N}])(?:${SLANG.map(word => word.replace(/\s+/g, '\\s+')).join('|')})(?![\\p{L}\\p{N}])`,
+  'giu'
+);
+
+// The professional tone's vocabulary, plus connectives and courtesies
+const FORMAL_MARKERS = new Set([
+  ...Object.values(TONE_LEXICONS.professional || {}),
+  'therefore',
+  'however',
+  'furthermore',
+  'moreover',
+  'consequently',
+  'accordingly',
+  'regarding',
+  'sincerely',
+  'kindly',
+  'please',
+  'hereby',
+  'pursuant',
+]);
+
+// prettier-ignore
+const PERSONAL_PRONOUNS = new Set([
+  'i', 'me', 'my', 'mine', 'we', 'us', 'our', 'ours', 'you', 'your', 'yours',
+]);
+
+const CONTRACTION_PATTERN = /\p{L}['’](?:t|re|ll|ve|m|d)$/iu;
+// 's is only a contraction after pronouns; elsewhere it is usually possessive
+const IS_CONTRACTION_PATTERN = /^(?:let|it|that|what|there|here|he|she)['’]s$/i;
+const EMOTICON_PATTERN = /(?:^|\s)[:;]-?[()DPp](?=\s|$)/g;
+
+// Phrase → urgency points
+const URGENCY_TERMS: Array<[RegExp, number]> = [
+  [/\b(?:asap|as soon as possible)\b/gi, 2],
+  [/\b(?:urgent|urgently|immediately|emergency)\b/gi, 2],
+  [/\b(?:critical|blocker|blocking|right away|right now|eod)\b/gi, 1.5],
+  [/\b(?:deadline|priority|end of (?:the )?day|by tomorrow)\b/gi, 1],
+  [/\b(?:now|today|tonight|soon|quickly|important)\b/gi, 0.5],
+];
+// Points at which a sentence counts as fully urgent
+const URGENCY_SATURATION = 3;
+const MAX_EXCLAMATION_POINTS = 1.5;
+
+// Formality is marker density scaled so one contraction in ten words reads
+// as clearly casual
+const FORMALITY_SCALE = 5;
+const PRONOUN_WEIGHT = 0.25;
+
+const SENTIMENT_THRESHOLD = 0.05;
+const FORMALITY_THRESHOLD = 0.3;
+// Lower bounds for medium and high urgency
+const URGENCY_LEVELS: Array<[UrgencyLevel, number]> = [
+  ['high', 0.6],
+  ['medium', 0.3],
+];
+
+export const TONE_TABLES = {
+  sentiment: SENTIMENT_LEXICON,
+  negators: NEGATORS,
+  intensifiers: INTENSIFIERS,
+  formalMarkers: FORMAL_MARKERS,
+  personalPronouns: PERSONAL_PRONOUNS,
+  urgencyTerms: URGENCY_TERMS,
+};
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)*|[,;:]/gu;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clamp(value: number): number {
+  return Math.max(-1, Math.min(1, value));
+}
+
+function emptyCounts(): ToneCounts {
+  return {
+    words: 0,
+    sentiment: 0,
+    contractions: 0,
+    slang: 0,
+    personalPronouns: 0,
+    formalMarkers: 0,
+    exclamations: 0,
+    urgencyPoints: 0,
+  };
+}
+
+// Code, links and addresses say nothing about tone; blanked to keep offsets
+function maskProtected(text: string): string {
+  let masked = text;
+  detectProtectedSpans(text).forEach(span => {
+    if (span.kind !== 'code' && span.kind !== 'url' && span.kind !== 'email') {
+      return;
+    }
+    masked =
+      masked.slice(0, span.start) +
+      ' '.repeat(span.end - span.start) +
+      masked.slice(span.end);
+  });
+  return masked;
+}
+
+function scoreSentiment(tokens: string[]): number {
+  let total = 0;
+  let negated = 0;
+  let boost = 1;
+
+  tokens.forEach((token, index) => {
+    if (token === ',' || token === ';' || token === ':') {
+      negated = 0;
+      boost = 1;
+      return;
+    }
+
+    const lower = token.toLowerCase();
+    if (NEGATORS.has(lower) || /n['’]t$/.test(lower)) {
+      negated = NEGATION_WINDOW;
+      return;
+    }
+
+    const next = tokens[index + 1]?.toLowerCase();
+    if (
+      lower in INTENSIFIERS &&
+      next !== undefined &&
+      next in SENTIMENT_LEXICON
+    ) {
+      boost *= INTENSIFIERS[lower];
+      return;
+    }
+
+    const value = SENTIMENT_LEXICON[lower];
+    if (value !== undefined) {
+      let score = value * boost;
+      if (token.length > 1 && token === token.toUpperCase())
+        score *= CAPS_FACTOR;
+      if (negated > 0) score *= NEGATION_FACTOR;
+      total += score;
+      negated = 0;
+      boost = 1;
+      return;
+    }
+
+    negated = Math.max(0, negated - 1);
+  });
+
+  return total;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return Array.from(text.matchAll(pattern)).length;
+}
+
+function measureCounts(sentence: string): ToneCounts {
+  const counts = emptyCounts();
+  const tokens = Array.from(
+    sentence.matchAll(TOKEN_PATTERN),
+    match => match[0]
+  );
+  const words = tokens.filter(token => /[\p{L}\p{N}]/u.test(token));
+
+  counts.words = words.length;
+  counts.sentiment = scoreSentiment(tokens);
+  words.forEach(word => {
+    const lower = word.toLowerCase();
+    if (CONTRACTION_PATTERN.test(word) || IS_CONTRACTION_PATTERN.test(word)) {
+      counts.contractions++;
+    }
+    if (PERSONAL_PRONOUNS.has(lower)) counts.personalPronouns++;
+    if (FORMAL_MARKERS.has(lower)) counts.formalMarkers++;
+  });
+  counts.slang = countMatches(sentence, SLANG_PATTERN);
+  counts.exclamations =
+    countMatches(sentence, /!/g) + countMatches(sentence, EMOTICON_PATTERN);
+
+  let urgency = Math.min(
+    MAX_EXCLAMATION_POINTS,
+    countMatches(sentence, /!/g) * 0.5
+  );
+  URGENCY_TERMS.forEach(([pattern, points]) => {
+    urgency += countMatches(sentence, pattern) * points;
+  });
+  // Shouting ("PLEASE REPLY"), leaving out acronyms
+  urgency += words.filter(word => /^\p{Lu}{4,}$/u.test(word)).length * 0.5;
+  counts.urgencyPoints = urgency;
+
+  return counts;
+}
+
+function sentimentOf(polarity: number): Sentiment {
+  if (polarity > SENTIMENT_THRESHOLD) return 'positive';
+  if (polarity < -SENTIMENT_THRESHOLD) return 'negative';
+  return 'neutral';
+}
+
+function formalityLevelOf(formality: number): FormalityLevel {
+  if (formality >= FORMALITY_THRESHOLD) return 'formal';
+  if (formality <= -FORMALITY_THRESHOLD) return 'casual';
+  return 'neutral';
+}
+
+export function urgencyLevelOf(urgency: number): UrgencyLevel {
+  const match = URGENCY_LEVELS.find(([, min]) => urgency >= min);
+  return match ? match[0] : 'low';
+}
+
+// Scores from counts; urgency is passed in because the overall urgency is
+// that of the most urgent sentence rather than an average
+function toneScores(counts: ToneCounts, urgency: number): ToneScores {
+  // VADER's normalization of a raw sum into -1..1
+  const polarity = round2(
+    counts.sentiment / Math.sqrt(counts.sentiment * counts.sentiment + 15)
+  );
+  const informal =
+    counts.contractions +
+    counts.slang +
+    counts.exclamations +
+    counts.personalPronouns * PRONOUN_WEIGHT;
+  const formality =
+    counts.words === 0
+      ? 0
+      : round2(
+          clamp(
+            ((counts.formalMarkers - informal) / counts.words) * FORMALITY_SCALE
+          )
+        );
+
+  return {
+    polarity,
+    sentiment: sentimentOf(polarity),
+    formality,
+    formalityLevel: formalityLevelOf(formality),
+    urgency: round2(urgency),
+    urgencyLevel: urgencyLevelOf(urgency),
+  };
+}
+
+// Per-sentence counts and tone; offsets are relative to `text` plus `offset`,
+// so chunked callers can pass the chunk's position
+export function measureTone(text: string, offset = 0): SentenceToneStats[] {
+  const masked = maskProtected(text);
+  return segmentSentences(masked).flatMap(sentence => {
+    const counts = measureCounts(sentence.text);
+    if (counts.words === 0) return [];
+    const urgency = Math.min(1, counts.urgencyPoints / URGENCY_SATURATION);
+    const tone: SentenceTone = {
+      start: sentence.start + offset,
+      end: sentence.end + offset,
+      ...toneScores(counts, urgency),
+    };
+    return [{ tone, counts }];
+  });
+}
+
+// Casual text is lifted to formal, or to professional when it complains or
+// presses; negative text of any register reads better professional
+export function suggestTone(scores: ToneScores): string | undefined {
+  if (scores.formalityLevel === 'casual') {
+    return scores.sentiment === 'negative' || scores.urgencyLevel === 'high'
+      ? 'professional'
+      : 'formal';
+  }
+  if (scores.sentiment === 'negative') return 'professional';
+  return undefined;
+}
+
+export function toneReport(stats: SentenceToneStats[]): ToneReport {
+  const counts = emptyCounts();
+  stats.forEach(sentence => {
+    (Object.keys(counts) as Array<keyof ToneCounts>).forEach(key => {
+      counts[key] += sentence.counts[key];
+    });
+  });
+
+  const urgency = Math.max(0, ...stats.map(sentence => sentence.tone.urgency));
+  const overall = toneScores(counts, urgency);
+  const report: ToneReport = {
+    overall,
+    sentences: stats.map(sentence => sentence.tone),
+  };
+  const suggestedTone = suggestTone(overall);
+  if (suggestedTone) report.suggestedTone = suggestedTone;
+  return report;
+}
+
+export function detectTone(text: string): ToneReport {
+  return toneReport(measureTone(text));
+}
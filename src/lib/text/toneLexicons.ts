@@ -0,0 +1,36 @@
+// Lexicon swap tables for the tone transform
+// Shared with the result cache, whose keys change whenever these tables do
+
+export const TONE_LEXICONS: Record<string, Record<string, string>> = {
+  formal: {
+    hi: 'greetings',
+    hey: 'hello',
+    yeah: 'yes',
+    nope: 'no',
+    gonna: 'going to',
+    wanna: 'want to',
+    kinda: 'kind of',
+    'a lot': 'many',
+    really: 'very',
+    pretty: 'quite',
+  },
+  casual: {
+    greetings: 'hi',
+    hello: 'hey',
+    yes: 'yeah',
+    no: 'nope',
+    'going to': 'gonna',
+    'want to': 'wanna',
+    'kind of': 'kinda',
+    very: 'really',
+    quite: 'pretty',
+  },
+  professional: {
+    think: 'believe',
+    get: 'obtain',
+    make: 'create',
+    help: 'assist',
+    show: 'demonstrate',
+    tell: 'inform',
+  },
+};
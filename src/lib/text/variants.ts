@@ -0,0 +1,184 @@
+// Multi-variant rewrites - plans deterministic alternatives to the selected
+// settings (other summary lengths, a lighter tone, preset combinations) and
+// ranks the results on readability gain, length target and change ratio
+
+import type { TransformPreset, TransformStep } from '../idb/models';
+import { readingEase } from './readability';
+
+export interface VariantPlan {
+  id: string;
+  label: string;
+  steps: TransformStep[];
+}
+
+export interface VariantScore {
+  // Weighted total (0-1), higher is better
+  total: number;
+  // Flesch Reading Ease after minus before
+  readabilityDelta: number;
+  // Words kept over words in the original
+  lengthRatio: number;
+  targetLengthRatio: number;
+  changeRatio: number;
+}
+
+export const DEFAULT_MAX_VARIANTS = 4;
+
+// Steps that shape the rewrite; the rest (format, instructions, redact) are
+// the user's explicit requests and stay in every variant
+const SHAPING_RULES = new Set(['length', 'tone', 'style']);
+
+const LENGTHS = ['short', 'medium', 'long'] as const;
+
+// Share of the original word count each length setting aims for
+const LENGTH_TARGETS: Record<string, number> = {
+  short: 0.3,
+  medium: 0.6,
+  long: 1,
+};
+
+// A rewrite should change something, but not everything
+const IDEAL_CHANGE_RATIO = 0.3;
+
+const WEIGHTS = { readability: 0.4, length: 0.35, change: 0.25 };
+
+function describeSteps(steps: TransformStep[]): string {
+  const parts = steps
+    .filter(step => SHAPING_RULES.has(step.rule))
+    .map(step => {
+      const options = step.options || {};
+      const value = options.length ?? options.tone ?? options.style;
+      const strength = options.strength === 'light' ? ' (light)' : '';
+      return `${String(value)}${strength}`;
+    });
+  return parts.length > 0 ? parts.join(', ') : 'unchanged';
+}
+
+function replaceOptions(
+  steps: TransformStep[],
+  rule: string,
+  options: Record<string, unknown>
+): TransformStep[] {
+  return steps.map(step =>
+    step.rule === rule
+      ? { ...step, options: { ...step.options, ...options } }
+      : step
+  );
+}
+
+// Alternatives in a fixed order: the selection itself, other summary lengths,
+// a lighter tone, then each preset combined with the non-shaping steps.
+// Plans with identical steps are dropped; callers run them in order and stop
+// once they have enough distinct results.
+export function planVariants(
+  steps: TransformStep[],
+  presets: TransformPreset[]
+): VariantPlan[] {
+  const plans: VariantPlan[] = [
+    { id: 'selected', label: 'As selected', steps },
+  ];
+
+  const lengthStep = steps.find(step => step.rule === 'length');
+  LENGTHS.forEach(length => {
+    if (lengthStep?.options?.length === length) return;
+    // Without a length step the text is already full length
+    if (!lengthStep && length === 'long') return;
+    const variantSteps = lengthStep
+      ? replaceOptions(steps, 'length', { length })
+      : [{ rule: 'length', options: { length } }, ...steps];
+    plans.push({
+      id: `length_${length}`,
+      label: `${length[0].toUpperCase()}${length.slice(1)} length`,
+      steps: variantSteps,
+    });
+  });
+
+  const toneStep = steps.find(step => step.rule === 'tone');
+  if (toneStep && toneStep.options?.strength !== 'light') {
+    plans.push({
+      id: 'tone_light',
+      label: `Light ${String(toneStep.options?.tone)} tone`,
+      steps: replaceOptions(steps, 'tone', { strength: 'light' }),
+    });
+  }
+
+  const kept = steps.filter(step => !SHAPING_RULES.has(step.rule));
+  presets.forEach(preset => {
+    plans.push({
+      id: `preset_${preset.presetId}`,
+      label: preset.name,
+      steps: [...preset.steps, ...kept],
+    });
+  });
+
+  const seen = new Set<string>();
+  return plans
+    .filter(plan => {
+      const key = JSON.stringify(plan.steps);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(plan =>
+      plan.id === 'selected'
+        ? plan
+        : { ...plan, label: `${plan.label}: ${describeSteps(plan.steps)}` }
+    );
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+export function scoreVariant(
+  original: string,
+  text: string,
+  changeRatio: number,
+  steps: TransformStep[]
+): VariantScore {
+  const lengthStep = steps.find(step => step.rule === 'length');
+  const targetLengthRatio =
+    LENGTH_TARGETS[String(lengthStep?.options?.length)] ?? 1;
+
+  const originalWords = countWords(original);
+  const lengthRatio = originalWords > 0 ? countWords(text) / originalWords : 0;
+  const readabilityDelta = readingEase(text) - readingEase(original);
+
+  // Each part maps onto 0-1 before weighting
+  const readability =
+    (Math.max(-1, Math.min(1, readabilityDelta / 30)) + 1) / 2;
+  const length = Math.max(
+    0,
+    1 - Math.abs(lengthRatio - targetLengthRatio) / targetLengthRatio
+  );
+  const change = Math.max(
+    0,
+    1 - Math.abs(changeRatio - IDEAL_CHANGE_RATIO) / (1 - IDEAL_CHANGE_RATIO)
+  );
+
+  const total =
+    WEIGHTS.readability * readability +
+    WEIGHTS.length * length +
+    WEIGHTS.change * change;
+
+  return {
+    total: Math.round(total * 1000) / 1000,
+    readabilityDelta,
+    lengthRatio: Math.round(lengthRatio * 100) / 100,
+    targetLengthRatio,
+    changeRatio,
+  };
+}
+
+// Best first; equal scores keep plan order so the ranking is stable
+export function rankVariants<T extends { score: VariantScore }>(
+  variants: T[]
+): T[] {
+  return variants
+    .map((variant, index) => ({ variant, index }))
+    .sort(
+      (a, b) =>
+        b.variant.score.total - a.variant.score.total || a.index - b.index
+    )
+    .map(({ variant }) => variant);
+}
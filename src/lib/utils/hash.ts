@@ -0,0 +1,55 @@
+// Fast non-cryptographic hashing for cache keys and fingerprints
+
+// The two 32-bit halves cyrb53 is built from, as unsigned integers; usable as
+// independent hashes where one value per hash function is needed
+export function hashPair(text: string, seed = 0): [number, number] {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+  h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+  h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return [h1 >>> 0, h2 >>> 0];
+}
+
+// 53-bit cyrb53 hash as a 14-digit hex string
+export function hashString(text: string, seed = 0): string {
+  const [h1, h2] = hashPair(text, seed);
+  const hash = 4294967296 * (2097151 & h2) + h1;
+  return hash.toString(16).padStart(14, '0');
+}
+
+// JSON with object keys sorted, so equal values always serialize the same.
+// Regular expressions serialize as their literal, sets as arrays and maps as
+// objects, so rule tables can be hashed too.
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
+  }
+  if (value instanceof RegExp) {
+    return JSON.stringify(String(value));
+  }
+  if (value instanceof Set) {
+    return stableStringify(Array.from(value));
+  }
+  if (value instanceof Map) {
+    return stableStringify(Object.fromEntries(value));
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`);
+  return `{${entries.join(',')}}`;
+}
@@ -30,8 +30,8 @@ export class LRUCache<K, V> {
 
     // Evict oldest if over limit
     if (this.cache.size > this.maxSize) {
-      const firstKey = this.cache.keys().next().value;
-      this.cache.delete(firstKey);
+      const oldest = this.cache.keys().next();
+      if (!oldest.done) this.cache.delete(oldest.value);
     }
   }
 
@@ -34,6 +34,56 @@ export function sanitizeURL(url: string): string {
   }
 }
 
+// Luhn checksum used by payment card numbers
+export function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d{13,19}$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616 mod-97 check
+export function isValidIBAN(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false;
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const code = /\d/.test(ch) ? ch : String(ch.charCodeAt(0) - 55);
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+export function isIPAddress(value: string): boolean {
+  if (/^\d{1,3}(?:\.\d{1,3}){3}$/.test(value)) {
+    return value
+      .split('.')
+      .every(octet => Number(octet) <= 255 && !/^0\d/.test(octet));
+  }
+
+  const halves = value.toLowerCase().split('::');
+  if (halves.length > 2) return false;
+  const groups = halves.map(half => (half ? half.split(':') : []));
+  if (!groups.flat().every(group => /^[0-9a-f]{1,4}$/.test(group))) {
+    return false;
+  }
+  const count = groups.flat().length;
+  return halves.length === 2 ? count <= 7 : count === 8;
+}
+
 export function validateFieldValue(value: string, type: string): boolean {
   switch (type) {
     case 'email':
@@ -49,6 +99,12 @@ export function validateFieldValue(value: string, type: string): boolean {
       return /^[\d\s()+-]+$/.test(value);
     case 'number':
       return !isNaN(Number(value));
+    case 'card':
+      return isLuhnValid(value);
+    case 'iban':
+      return isValidIBAN(value);
+    case 'ip':
+      return isIPAddress(value);
     default:
       return true;
   }
@@ -0,0 +1,96 @@
+// Typed client for the shared worker pool, for content scripts and extension
+// pages. Requests travel through the service worker to the offscreen document.
+
+import { generateId } from '../idb/models';
+import type {
+  NLPWorkerApi,
+  PoolProgressPayload,
+  TransformWorkerApi,
+} from './protocol';
+import type { CachedReply } from './resultCache';
+import type { WorkerApi } from './workerClient';
+import type { PoolRequestOptions, WorkerKind } from './workerPool';
+
+export class PooledWorkerClient<Api extends WorkerApi<Api>> {
+  constructor(private worker: WorkerKind) {}
+
+  request<T extends keyof Api & string>(
+    type: T,
+    payload: Api[T]['payload'],
+    options: PoolRequestOptions = {}
+  ): Promise<CachedReply<Api[T]['result']>> {
+    const requestId = generateId(this.worker);
+
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      let settled = false;
+      const onProgress = (message: {
+        action?: string;
+        payload?: PoolProgressPayload;
+      }) => {
+        if (
+          message?.action === 'workerProgress' &&
+          message.payload?.requestId === requestId
+        ) {
+          options.onProgress?.(message.payload.progress);
+        }
+        return false;
+      };
+      const finish = () => {
+        settled = true;
+        chrome.runtime.onMessage.removeListener(onProgress);
+        options.signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        if (settled) return;
+        finish();
+        chrome.runtime
+          .sendMessage({ action: 'cancelWorker', payload: { requestId } })
+          .catch(() => undefined);
+        reject(new Error('Request cancelled'));
+      };
+
+      chrome.runtime.onMessage.addListener(onProgress);
+      options.signal?.addEventListener('abort', onAbort);
+
+      chrome.runtime
+        .sendMessage({
+          action: 'runWorker',
+          payload: {
+            requestId,
+            worker: this.worker,
+            type,
+            payload,
+            priority: options.priority,
+            timeoutMs: options.timeoutMs,
+          },
+        })
+        .then(response => {
+          if (settled) return;
+          finish();
+          if (response?.error) {
+            reject(new Error(response.error));
+          } else {
+            resolve(response as CachedReply<Api[T]['result']>);
+          }
+        })
+        .catch(error => {
+          if (settled) return;
+          finish();
+          reject(error instanceof Error ? error : new Error(String(error)));
+        });
+    });
+  }
+}
+
+export function createPooledTransformClient(): PooledWorkerClient<TransformWorkerApi> {
+  return new PooledWorkerClient('transform');
+}
+
+export function createPooledNLPClient(): PooledWorkerClient<NLPWorkerApi> {
+  return new PooledWorkerClient('nlp');
+}
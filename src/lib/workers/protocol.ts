@@ -0,0 +1,287 @@
+// Message protocol shared by the workers and their clients
+// Every request is answered by exactly one response with the same id, possibly
+// preceded by progress messages; clients may send a cancel message at any time
+
+import type { TransformStep } from '../idb/models';
+import type { Dialect } from '../text/dialects';
+import type { TextDiff } from '../text/diff';
+import type { Entity, EntityType } from '../text/entities';
+import type { TextFingerprint } from '../text/fingerprint';
+import type { CorpusStats, ScoredKeyword } from '../text/keyphrases';
+import type { LanguageGuess } from '../text/languageDetection';
+import type { LanguageFeature, LanguageInfo } from '../text/languageResources';
+import type { ProtectedSpan } from '../text/protectedSpans';
+import type {
+  ReadabilityMetrics,
+  ReadabilityReport,
+} from '../text/readability';
+import type { ProofreadRule, ProofreadSuggestion } from '../text/proofreader';
+import type { RedactionEntry } from '../text/redaction';
+import type { LintFinding, LintRule } from '../text/styleLint';
+import type { ToneReport } from '../text/tone';
+import type { VariantScore } from '../text/variants';
+import type { CacheSettings } from './resultCache';
+import type {
+  RequestPriority,
+  WorkerKind,
+  WorkerPoolSettings,
+} from './workerPool';
+
+export interface WorkerRequest<T extends string = string, P = unknown> {
+  id: string;
+  type: T;
+  payload: P;
+}
+
+export interface WorkerResponse<R = unknown> {
+  id: string;
+  status: 'ok' | 'err';
+  result?: R;
+  error?: string;
+  timing: {
+    elapsedMs: number;
+  };
+}
+
+export interface WorkerProgress {
+  step: string;
+  stepIndex: number;
+  stepCount: number;
+  // Chunks of the current step
+  completed: number;
+  total: number;
+  // Overall completion across all steps (0-1)
+  fraction: number;
+  // Current step output so far, followed by its unprocessed input
+  partial?: string;
+}
+
+// Posted between chunks while a request runs
+export interface ProgressMessage {
+  id: string;
+  type: 'progress';
+  progress: WorkerProgress;
+}
+
+export interface CancelMessage {
+  id: string;
+  type: 'cancel';
+}
+
+// Transform worker
+
+export interface TransformSettings {
+  // Apply safe proofreading fixes before anything else
+  proofread?: boolean;
+  length?: 'short' | 'medium' | 'long' | 'custom';
+  customLength?: number;
+  tone?: string;
+  style?: string;
+  // Target Flesch-Kincaid grade
+  readingLevel?: number;
+  // Target regional English; the source dialect is detected
+  dialect?: Dialect;
+  format?: string;
+  prompt?: string;
+  redact?: 'mask' | 'placeholder' | 'pseudonym';
+  // ISO 639-1 code of the text; detected when absent or 'auto'
+  language?: string;
+  // Ordered pipeline; takes precedence over length/tone/style/format
+  steps?: TransformStep[];
+}
+
+export interface TransformPayload {
+  text: string;
+  settings?: TransformSettings;
+}
+
+export interface StepReport {
+  rule: string;
+  options: Record<string, unknown>;
+  text: string;
+  rulesApplied: string[];
+}
+
+// A step skipped because the text's language lacks the resources it needs
+export interface DeclinedStep {
+  rule: string;
+  reason: string;
+}
+
+export interface ReadabilityChange {
+  before: ReadabilityMetrics;
+  after: ReadabilityMetrics;
+}
+
+export interface TransformResult {
+  text: string;
+  rulesApplied: string[];
+  changeRatio: number;
+  diff: TextDiff;
+  protectedSpans: ProtectedSpan[];
+  steps: StepReport[];
+  // Replacement → original pairs for re-hydrating redacted text
+  redactions: RedactionEntry[];
+  // Present when the pipeline has a reading-level step
+  readability?: ReadabilityChange;
+  language: LanguageInfo;
+  // Steps left out of `steps`, in pipeline order
+  declined: DeclinedStep[];
+}
+
+export interface VariantsPayload extends TransformPayload {
+  // Distinct alternatives to return, including the selection itself
+  maxVariants?: number;
+}
+
+export interface TransformVariant {
+  id: string;
+  label: string;
+  // 1 is the best
+  rank: number;
+  score: VariantScore;
+  result: TransformResult;
+}
+
+export interface VariantsResult {
+  // Best first
+  variants: TransformVariant[];
+}
+
+export interface AnalyzeResult {
+  keywords: string[];
+  summary: string;
+  score: number;
+}
+
+// Request type → payload/result pairs, used to type worker clients
+export interface TransformWorkerApi {
+  transform: { payload: TransformPayload; result: TransformResult };
+  variants: { payload: VariantsPayload; result: VariantsResult };
+  analyze: { payload: TransformPayload; result: AnalyzeResult };
+}
+
+// NLP worker
+
+export interface NLPPayload {
+  text: string;
+  maxKeywords?: number;
+  // keywords/analyze: weight key phrases by IDF over the saved items. The
+  // offscreen document fills in `corpus` from IndexedDB before the request
+  // runs, so cached results are keyed by the statistics they used.
+  tfidf?: boolean;
+  corpus?: CorpusStats;
+  summaryLength?: number;
+  summaryRatio?: number;
+  maxChars?: number;
+  // lint only; defaults to every rule
+  lintRules?: LintRule[];
+  // proofread only; defaults to every rule
+  proofreadRules?: ProofreadRule[];
+  // entities only; defaults to every type
+  entityTypes?: EntityType[];
+  // entities only; YYYY-MM-DD that relative dates resolve against. The
+  // offscreen document fills in today's date, so cached results expire daily
+  referenceDate?: string;
+  // ISO 639-1 code of the text; detected when absent or 'auto'. Requests the
+  // language has no resources for fail with the reason.
+  language?: string;
+}
+
+export interface LanguageResult extends LanguageGuess {
+  // What the detected language's resource bundle supports; empty without one
+  features: LanguageFeature[];
+}
+
+export interface EntitiesResult {
+  // Ordered by position; action items may overlap other entities
+  entities: Entity[];
+}
+
+export interface ProofreadResult {
+  // Ordered by position, safe or not
+  suggestions: ProofreadSuggestion[];
+}
+
+export interface LintResult {
+  // Ordered by position
+  findings: LintFinding[];
+}
+
+export interface NLPWorkerApi {
+  keywords: {
+    payload: NLPPayload;
+    result: { keywords: string[]; scores: ScoredKeyword[] };
+  };
+  summarize: { payload: NLPPayload; result: { summary: string } };
+  score: { payload: NLPPayload; result: { score: number } };
+  readability: { payload: NLPPayload; result: ReadabilityReport };
+  lint: { payload: NLPPayload; result: LintResult };
+  proofread: { payload: NLPPayload; result: ProofreadResult };
+  entities: { payload: NLPPayload; result: EntitiesResult };
+  tone: { payload: NLPPayload; result: ToneReport };
+  analyze: { payload: NLPPayload; result: AnalyzeResult };
+  language: { payload: NLPPayload; result: LanguageResult };
+  fingerprint: { payload: NLPPayload; result: TextFingerprint };
+}
+
+// Offscreen worker pool (service worker → offscreen document)
+// Requests are keyed by the caller's tab and request id; progress is sent back
+// as { action: 'workerProgress', payload: PoolProgressPayload }
+
+export interface PoolRunMessage {
+  target: 'offscreen';
+  kind: 'run';
+  requestId: string;
+  tabId?: number;
+  worker: WorkerKind;
+  type: string;
+  payload: unknown;
+  priority: RequestPriority;
+  timeoutMs?: number;
+  // Offscreen documents cannot read chrome.storage, so settings travel along
+  settings: WorkerPoolSettings;
+  cache: CacheSettings;
+}
+
+export interface PoolCancelMessage {
+  target: 'offscreen';
+  kind: 'cancel';
+  requestId: string;
+  tabId?: number;
+}
+
+export interface PoolConfigureMessage {
+  target: 'offscreen';
+  kind: 'configure';
+  settings: WorkerPoolSettings;
+}
+
+export interface PoolStatsMessage {
+  target: 'offscreen';
+  kind: 'stats';
+}
+
+export interface CacheStatsMessage {
+  target: 'offscreen';
+  kind: 'cacheStats';
+}
+
+export interface ClearCacheMessage {
+  target: 'offscreen';
+  kind: 'clearCache';
+}
+
+export type OffscreenMessage =
+  | PoolRunMessage
+  | PoolCancelMessage
+  | PoolConfigureMessage
+  | PoolStatsMessage
+  | CacheStatsMessage
+  | ClearCacheMessage;
+
+export interface PoolProgressPayload {
+  requestId: string;
+  tabId?: number;
+  progress: WorkerProgress;
+}
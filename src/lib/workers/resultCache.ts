@@ -0,0 +1,221 @@
+// Memoized worker results - an in-memory LRU in front of a persistent tier,
+// keyed by a hash of the normalized text, the request settings and the
+// rule-set version, so results computed by older rules are never served
+
+import { DIALECT_TABLES } from '../text/dialects';
+import { ENTITY_TABLES } from '../text/entities';
+import { FORMATTING_TABLES } from '../text/formatting';
+import { DETECTION_TABLES } from '../text/languageDetection';
+import { LANGUAGE_TABLES } from '../text/languageResources';
+import { PROOFREAD_TABLES } from '../text/proofreader';
+import { PROTECTED_SPAN_TABLES } from '../text/protectedSpans';
+import { READING_LEVEL_TABLES } from '../text/readingLevel';
+import { REDACTION_TABLES } from '../text/redaction';
+import { SEGMENTER_TABLES } from '../text/segmenter';
+import { SUFFIXES } from '../text/stemmer';
+import { STYLE_REWRITES } from '../text/styleRewrites';
+import { LINT_TABLES } from '../text/styleLint';
+import { TONE_TABLES } from '../text/tone';
+import { TONE_LEXICONS } from '../text/toneLexicons';
+import { hashString, stableStringify } from '../utils/hash';
+import { LRUCache } from '../utils/lruCache';
+import type { WorkerReply } from './workerClient';
+import type { WorkerKind } from './workerPool';
+
+export interface CacheSettings {
+  enabled: boolean;
+  memoryEntries: number;
+  persistentEntries: number;
+  // Approximate size budget of the persistent tier
+  persistentBytes: number;
+  // How long persisted results live; 0 keeps them until evicted
+  ttlMs: number;
+}
+
+export interface CacheStats {
+  memoryHits: number;
+  persistentHits: number;
+  misses: number;
+  // Hits over lookups (0-1)
+  hitRate: number;
+  memoryEntries: number;
+  persistentEntries: number;
+}
+
+export interface PersistentLimits {
+  maxEntries: number;
+  maxBytes: number;
+  ttlMs: number;
+}
+
+// Storage behind the memory tier (the cacheLRU store in the extension)
+export interface PersistentTier {
+  get(key: string): Promise<unknown | undefined>;
+  set(key: string, value: unknown, limits: PersistentLimits): Promise<void>;
+  count(): Promise<number>;
+  clear(): Promise<void>;
+}
+
+export type CacheSource = 'memory' | 'persistent';
+
+export interface CachedReply<R> extends WorkerReply<R> {
+  // Set when the reply came from the cache instead of a worker
+  cached?: CacheSource;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  enabled: true,
+  memoryEntries: 200,
+  persistentEntries: 1000,
+  persistentBytes: 10 * 1024 * 1024,
+  ttlMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Bump when code changes its output, or when a table missing from RULE_TABLES
+// changes: tokenizer patterns, numeric weights and thresholds, and the
+// English syllable rules
+export const RULES_REVISION = 4;
+
+// The word lists, lexicons and patterns the transforms and analyses read;
+// editing any of them changes the version on its own. Stopwords reach the
+// hash through the language bundles.
+const RULE_TABLES = {
+  segmenter: SEGMENTER_TABLES,
+  protectedSpans: PROTECTED_SPAN_TABLES,
+  language: LANGUAGE_TABLES,
+  detection: DETECTION_TABLES,
+  stemmer: SUFFIXES,
+  proofread: PROOFREAD_TABLES,
+  style: STYLE_REWRITES,
+  readingLevel: READING_LEVEL_TABLES,
+  formatting: FORMATTING_TABLES,
+  redaction: REDACTION_TABLES,
+  lint: LINT_TABLES,
+  tone: TONE_LEXICONS,
+  analysis: TONE_TABLES,
+  entities: ENTITY_TABLES,
+  dialect: DIALECT_TABLES,
+};
+
+export const RULE_SET_VERSION = hashString(
+  stableStringify({ revision: RULES_REVISION, rules: RULE_TABLES })
+);
+
+// Line endings and Unicode composition do not change what the text says
+export function normalizeText(text: string): string {
+  return text.normalize('NFC').replace(/\r\n?/g, '\n');
+}
+
+export function cacheKey(
+  kind: WorkerKind,
+  type: string,
+  payload: { text: string; [field: string]: unknown },
+  version = RULE_SET_VERSION
+): string {
+  const source = stableStringify({ kind, type, payload, version });
+  // Two seeds give ~106 bits, so collisions are not a practical concern
+  return `${kind}:${type}:${hashString(source)}${hashString(source, 1)}`;
+}
+
+function isTextPayload(payload: unknown): payload is { text: string } {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    typeof (payload as { text?: unknown }).text === 'string'
+  );
+}
+
+export class ResultCache {
+  private settings: CacheSettings;
+  private memory: LRUCache<string, WorkerReply<unknown>>;
+  private counts = { memoryHits: 0, persistentHits: 0, misses: 0 };
+
+  constructor(
+    private persistent: PersistentTier | null = null,
+    settings: Partial<CacheSettings> = {}
+  ) {
+    this.settings = { ...DEFAULT_CACHE_SETTINGS, ...settings };
+    this.memory = new LRUCache(this.settings.memoryEntries);
+  }
+
+  configure(settings: Partial<CacheSettings>): void {
+    const next = { ...this.settings, ...settings };
+    if (next.memoryEntries !== this.settings.memoryEntries) {
+      this.memory = new LRUCache(next.memoryEntries);
+    }
+    this.settings = next;
+  }
+
+  // Serve the request from the cache, or run it and remember the reply. The
+  // payload text is normalized before running so cached and fresh replies
+  // always agree. Replies that must not reach disk pass persist: false.
+  async memoize<R>(
+    kind: WorkerKind,
+    type: string,
+    payload: unknown,
+    run: (payload: unknown) => Promise<WorkerReply<R>>,
+    { persist = true }: { persist?: boolean } = {}
+  ): Promise<CachedReply<R>> {
+    if (!this.settings.enabled || !isTextPayload(payload)) {
+      return run(payload);
+    }
+
+    const normalized = { ...payload, text: normalizeText(payload.text) };
+    const key = cacheKey(kind, type, normalized);
+
+    const remembered = this.memory.get(key) as WorkerReply<R> | undefined;
+    if (remembered) {
+      this.counts.memoryHits++;
+      return { ...remembered, cached: 'memory' };
+    }
+
+    const stored = (persist ? await this.readPersistent(key) : undefined) as
+      WorkerReply<R> | undefined;
+    if (stored) {
+      this.counts.persistentHits++;
+      this.memory.set(key, stored);
+      return { ...stored, cached: 'persistent' };
+    }
+
+    this.counts.misses++;
+    const reply = await run(normalized);
+    const entry = { result: reply.result, elapsedMs: reply.elapsedMs };
+    this.memory.set(key, entry);
+    if (persist) {
+      // A failed write only costs a future hit
+      this.persistent
+        ?.set(key, entry, {
+          maxEntries: this.settings.persistentEntries,
+          maxBytes: this.settings.persistentBytes,
+          ttlMs: this.settings.ttlMs,
+        })
+        .catch(() => undefined);
+    }
+    return reply;
+  }
+
+  async stats(): Promise<CacheStats> {
+    const { memoryHits, persistentHits, misses } = this.counts;
+    const lookups = memoryHits + persistentHits + misses;
+    return {
+      ...this.counts,
+      hitRate: lookups > 0 ? (memoryHits + persistentHits) / lookups : 0,
+      memoryEntries: this.memory.size,
+      persistentEntries: this.persistent
+        ? await this.persistent.count().catch(() => 0)
+        : 0,
+    };
+  }
+
+  async clear(): Promise<void> {
+    this.memory.clear();
+    this.counts = { memoryHits: 0, persistentHits: 0, misses: 0 };
+    await this.persistent?.clear();
+  }
+
+  // A broken persistent tier only costs the cache, never the request
+  private async readPersistent(key: string): Promise<unknown | undefined> {
+    if (!this.persistent) return undefined;
+    return this.persistent.get(key).catch(() => undefined);
+  }
+}
@@ -0,0 +1,221 @@
+// Typed RPC client for the transform and NLP workers
+// Multiplexes concurrent requests over one worker by id, turns timeouts and
+// aborts into cancel messages, and respawns the worker after it crashes
+
+import type {
+  CancelMessage,
+  NLPWorkerApi,
+  ProgressMessage,
+  TransformWorkerApi,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse,
+} from './protocol';
+
+// Request type → payload/result pairs a worker understands
+export type WorkerApi<Api> = {
+  [T in keyof Api]: { payload: unknown; result: unknown };
+};
+
+// The subset of Worker the client relies on, so tests can pass a fake
+export interface WorkerLike {
+  postMessage(message: unknown): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface WorkerClientOptions {
+  // Idle time allowed between worker messages; progress resets the clock
+  timeoutMs?: number;
+  idPrefix?: string;
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+export interface WorkerReply<R> {
+  result: R;
+  elapsedMs: number;
+}
+
+interface PendingRequest {
+  message: WorkerRequest;
+  options: RequestOptions;
+  timeoutMs: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  // Requests are deterministic, so one resend after a crash is safe
+  retried: boolean;
+  resolve: (reply: WorkerReply<unknown>) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export class WorkerClient<Api extends WorkerApi<Api>> {
+  private worker: WorkerLike | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private nextId = 0;
+  private timeoutMs: number;
+  private idPrefix: string;
+
+  constructor(
+    private spawn: () => WorkerLike,
+    options: WorkerClientOptions = {}
+  ) {
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.idPrefix = options.idPrefix ?? 'req';
+  }
+
+  request<T extends keyof Api & string>(
+    type: T,
+    payload: Api[T]['payload'],
+    options: RequestOptions = {}
+  ): Promise<WorkerReply<Api[T]['result']>> {
+    const id = `${this.idPrefix}_${Date.now()}_${this.nextId++}`;
+    const message: WorkerRequest = { id, type, payload };
+
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      const onAbort = () => this.fail(id, new Error('Request cancelled'));
+      options.signal?.addEventListener('abort', onAbort);
+
+      this.pending.set(id, {
+        message,
+        options,
+        timeoutMs: options.timeoutMs ?? this.timeoutMs,
+        timer: null,
+        retried: false,
+        resolve: resolve as (reply: WorkerReply<unknown>) => void,
+        reject,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      });
+      this.armTimer(id);
+      this.getWorker().postMessage(message);
+    });
+  }
+
+  // Number of requests still waiting for a response
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  terminate(): void {
+    Array.from(this.pending.keys()).forEach(id =>
+      this.fail(id, new Error('Worker terminated'))
+    );
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private getWorker(): WorkerLike {
+    if (!this.worker) {
+      const worker = this.spawn();
+      worker.onmessage = event => this.handleMessage(event.data);
+      worker.onerror = event => this.handleCrash(worker, event);
+      this.worker = worker;
+    }
+    return this.worker;
+  }
+
+  private armTimer(id: string): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.timer = setTimeout(
+      () => this.fail(id, new Error('Timeout')),
+      entry.timeoutMs
+    );
+  }
+
+  private handleMessage(data: WorkerResponse | ProgressMessage): void {
+    const entry = this.pending.get(data?.id);
+    if (!entry) return;
+
+    if ('type' in data && data.type === 'progress') {
+      this.armTimer(data.id);
+      entry.options.onProgress?.(data.progress);
+      return;
+    }
+
+    const response = data as WorkerResponse;
+    this.settle(response.id);
+    if (response.status === 'ok') {
+      entry.resolve({
+        result: response.result,
+        elapsedMs: response.timing.elapsedMs,
+      });
+    } else {
+      entry.reject(new Error(response.error || 'Worker request failed'));
+    }
+  }
+
+  // Drop the crashed worker and replay in-flight requests on a fresh one
+  private handleCrash(worker: WorkerLike, event: ErrorEvent): void {
+    event.preventDefault?.();
+    if (this.worker !== worker) return;
+
+    worker.terminate();
+    this.worker = null;
+    const error = new Error(
+      `Worker crashed: ${event.message || 'unknown error'}`
+    );
+
+    Array.from(this.pending.entries()).forEach(([id, entry]) => {
+      if (entry.retried) {
+        this.fail(id, error);
+        return;
+      }
+      entry.retried = true;
+      this.armTimer(id);
+      this.getWorker().postMessage(entry.message);
+    });
+  }
+
+  private settle(id: string): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    if (entry.timer) clearTimeout(entry.timer);
+    entry.cleanup();
+    this.pending.delete(id);
+  }
+
+  // Reject a request and tell the worker to stop working on it
+  private fail(id: string, error: Error): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    this.settle(id);
+    const cancel: CancelMessage = { id, type: 'cancel' };
+    this.worker?.postMessage(cancel);
+    entry.reject(error);
+  }
+}
+
+function spawnExtensionWorker(file: string): () => WorkerLike {
+  return () => new Worker(chrome.runtime.getURL(file), { type: 'module' });
+}
+
+export function createTransformClient(
+  spawn: () => WorkerLike = spawnExtensionWorker('transformWorker.js'),
+  options: WorkerClientOptions = {}
+): WorkerClient<TransformWorkerApi> {
+  return new WorkerClient(spawn, { idPrefix: 'transform', ...options });
+}
+
+export function createNLPClient(
+  spawn: () => WorkerLike = spawnExtensionWorker('nlpWorker.js'),
+  options: WorkerClientOptions = {}
+): WorkerClient<NLPWorkerApi> {
+  return new WorkerClient(spawn, { idPrefix: 'nlp', ...options });
+}
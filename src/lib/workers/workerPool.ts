@@ -0,0 +1,259 @@
+// Worker pool hosted by the offscreen document
+// Keeps a few warm transform/NLP workers shared by every tab, runs one request
+// per worker at a time and queues the rest, interactive requests first
+
+import {
+  WorkerClient,
+  type RequestOptions,
+  type WorkerLike,
+  type WorkerReply,
+} from './workerClient';
+
+export type WorkerKind = 'transform' | 'nlp';
+
+// Interactive requests (the rewrite popup) jump ahead of background work
+// (observer analysis) waiting in the queue
+export type RequestPriority = 'interactive' | 'background';
+
+export interface WorkerPoolSettings {
+  transformWorkers: number;
+  nlpWorkers: number;
+  // Requests waiting for a free worker, across both kinds
+  maxQueueLength: number;
+}
+
+export interface WorkerPoolStats {
+  workers: Record<WorkerKind, number>;
+  busy: Record<WorkerKind, number>;
+  queued: Record<RequestPriority, number>;
+}
+
+export interface PoolRequestOptions extends RequestOptions {
+  priority?: RequestPriority;
+}
+
+export const DEFAULT_POOL_SETTINGS: WorkerPoolSettings = {
+  transformWorkers: 2,
+  nlpWorkers: 1,
+  maxQueueLength: 50,
+};
+
+const MAX_WORKERS_PER_KIND = 8;
+
+type AnyApi = Record<string, { payload: unknown; result: unknown }>;
+
+interface Slot {
+  client: WorkerClient<AnyApi>;
+  busy: boolean;
+}
+
+interface QueuedJob {
+  kind: WorkerKind;
+  type: string;
+  payload: unknown;
+  priority: RequestPriority;
+  options: PoolRequestOptions;
+  resolve: (reply: WorkerReply<unknown>) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+function clampWorkers(value: number): number {
+  return Math.max(1, Math.min(MAX_WORKERS_PER_KIND, Math.floor(value)));
+}
+
+export class WorkerPool {
+  private settings: WorkerPoolSettings;
+  private slots: Record<WorkerKind, Slot[]> = { transform: [], nlp: [] };
+  // Interactive jobs ahead of background ones, FIFO within each priority
+  private queue: QueuedJob[] = [];
+
+  constructor(
+    private spawn: (kind: WorkerKind) => WorkerLike,
+    settings: Partial<WorkerPoolSettings> = {}
+  ) {
+    this.settings = { ...DEFAULT_POOL_SETTINGS };
+    this.configure(settings);
+  }
+
+  configure(settings: Partial<WorkerPoolSettings>): void {
+    const next = { ...this.settings, ...settings };
+    this.settings = {
+      transformWorkers: clampWorkers(next.transformWorkers),
+      nlpWorkers: clampWorkers(next.nlpWorkers),
+      maxQueueLength: Math.max(0, Math.floor(next.maxQueueLength)),
+    };
+
+    // Shrink by retiring idle workers; busy ones retire when they finish
+    (['transform', 'nlp'] as WorkerKind[]).forEach(kind => {
+      const slots = this.slots[kind];
+      for (let i = slots.length - 1; i >= 0; i--) {
+        if (slots.length <= this.capacity(kind)) break;
+        if (!slots[i].busy) {
+          slots[i].client.terminate();
+          slots.splice(i, 1);
+        }
+      }
+    });
+    this.drain();
+  }
+
+  getSettings(): WorkerPoolSettings {
+    return { ...this.settings };
+  }
+
+  run(
+    kind: WorkerKind,
+    type: string,
+    payload: unknown,
+    options: PoolRequestOptions = {}
+  ): Promise<WorkerReply<unknown>> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new Error('Request cancelled'));
+        return;
+      }
+
+      const priority = options.priority ?? 'interactive';
+      const onAbort = () => {
+        // Only queued jobs are handled here; running ones are cancelled by
+        // the worker client through the same signal
+        const index = this.queue.indexOf(job);
+        if (index === -1) return;
+        this.queue.splice(index, 1);
+        job.cleanup();
+        reject(new Error('Request cancelled'));
+      };
+      const job: QueuedJob = {
+        kind,
+        type,
+        payload,
+        priority,
+        options,
+        resolve,
+        reject,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      };
+
+      if (!this.makeRoom(priority)) {
+        reject(new Error('Worker queue is full'));
+        return;
+      }
+
+      options.signal?.addEventListener('abort', onAbort);
+      this.enqueue(job);
+      this.drain();
+    });
+  }
+
+  stats(): WorkerPoolStats {
+    const count = (kind: WorkerKind, busyOnly: boolean) =>
+      this.slots[kind].filter(slot => !busyOnly || slot.busy).length;
+    return {
+      workers: {
+        transform: count('transform', false),
+        nlp: count('nlp', false),
+      },
+      busy: { transform: count('transform', true), nlp: count('nlp', true) },
+      queued: {
+        interactive: this.queue.filter(job => job.priority === 'interactive')
+          .length,
+        background: this.queue.filter(job => job.priority === 'background')
+          .length,
+      },
+    };
+  }
+
+  terminate(): void {
+    this.queue.splice(0).forEach(job => {
+      job.cleanup();
+      job.reject(new Error('Worker pool terminated'));
+    });
+    (['transform', 'nlp'] as WorkerKind[]).forEach(kind => {
+      this.slots[kind].forEach(slot => slot.client.terminate());
+      this.slots[kind] = [];
+    });
+  }
+
+  private capacity(kind: WorkerKind): number {
+    return kind === 'transform'
+      ? this.settings.transformWorkers
+      : this.settings.nlpWorkers;
+  }
+
+  // A full queue drops its newest background job for an interactive request
+  private makeRoom(priority: RequestPriority): boolean {
+    if (this.queue.length < this.settings.maxQueueLength) return true;
+    if (priority === 'background') return false;
+
+    const last = this.queue[this.queue.length - 1];
+    if (!last || last.priority !== 'background') return false;
+
+    this.queue.pop();
+    last.cleanup();
+    last.reject(new Error('Worker queue is full'));
+    return true;
+  }
+
+  private enqueue(job: QueuedJob): void {
+    if (job.priority === 'background') {
+      this.queue.push(job);
+      return;
+    }
+    const firstBackground = this.queue.findIndex(
+      queued => queued.priority === 'background'
+    );
+    if (firstBackground === -1) {
+      this.queue.push(job);
+    } else {
+      this.queue.splice(firstBackground, 0, job);
+    }
+  }
+
+  private acquire(kind: WorkerKind): Slot | null {
+    const idle = this.slots[kind].find(slot => !slot.busy);
+    if (idle) return idle;
+    if (this.slots[kind].length >= this.capacity(kind)) return null;
+
+    // Workers start lazily and stay warm for later requests
+    const slot: Slot = {
+      client: new WorkerClient<AnyApi>(() => this.spawn(kind), {
+        idPrefix: kind,
+      }),
+      busy: false,
+    };
+    this.slots[kind].push(slot);
+    return slot;
+  }
+
+  private drain(): void {
+    for (let i = 0; i < this.queue.length;) {
+      const job = this.queue[i];
+      const slot = this.acquire(job.kind);
+      if (!slot) {
+        i++;
+        continue;
+      }
+
+      this.queue.splice(i, 1);
+      job.cleanup();
+      this.dispatch(slot, job);
+    }
+  }
+
+  private dispatch(slot: Slot, job: QueuedJob): void {
+    slot.busy = true;
+    slot.client
+      .request(job.type, job.payload, job.options)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        slot.busy = false;
+        const slots = this.slots[job.kind];
+        if (slots.length > this.capacity(job.kind)) {
+          slot.client.terminate();
+          slots.splice(slots.indexOf(slot), 1);
+        }
+        this.drain();
+      });
+  }
+}
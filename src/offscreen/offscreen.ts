@@ -0,0 +1,152 @@
+// Offscreen document - hosts the transform/NLP worker pool shared by every tab
+// Only handles messages addressed to it by the service worker
+
+import {
+  clearCachedResults,
+  countCachedResults,
+  getCachedResult,
+  purgeStaleResults,
+  putCachedResult,
+} from '../lib/idb/cacheStore';
+import { getCorpusStats } from '../lib/idb/items';
+import { toReferenceDate } from '../lib/text/entities';
+import { documentTerms } from '../lib/text/keyphrases';
+import type {
+  NLPPayload,
+  OffscreenMessage,
+  PoolProgressPayload,
+  TransformPayload,
+} from '../lib/workers/protocol';
+import { ResultCache, RULE_SET_VERSION } from '../lib/workers/resultCache';
+import { WorkerPool, type WorkerKind } from '../lib/workers/workerPool';
+
+const WORKER_FILES: Record<WorkerKind, string> = {
+  transform: 'transformWorker.js',
+  nlp: 'nlpWorker.js',
+};
+
+const pool = new WorkerPool(
+  kind =>
+    new Worker(chrome.runtime.getURL(WORKER_FILES[kind]), { type: 'module' })
+);
+
+const cache = new ResultCache({
+  get: getCachedResult,
+  set: (key, value, limits) =>
+    putCachedResult(key, value, RULE_SET_VERSION, limits),
+  count: countCachedResults,
+  clear: clearCachedResults,
+});
+
+// Results from older lexicons/rules can never be hit again
+purgeStaleResults(RULE_SET_VERSION).catch(() => undefined);
+
+// Abort controllers for queued and running requests
+const controllers = new Map<string, AbortController>();
+
+// Redaction results carry the original personal data, which must stay out of
+// IndexedDB; they are only cached in memory
+function usesRedaction(payload: unknown): boolean {
+  const settings = (payload as TransformPayload | undefined)?.settings;
+  return Boolean(
+    settings?.redact || settings?.steps?.some(step => step.rule === 'redact')
+  );
+}
+
+// Inputs the worker cannot get itself are attached before the cache lookup,
+// so a result is only reused for the same inputs: TF-IDF requests get the
+// document frequencies of their own terms, entity requests today's date
+async function preparePayload(
+  worker: WorkerKind,
+  type: string,
+  payload: unknown
+): Promise<unknown> {
+  const nlpPayload = payload as NLPPayload | undefined;
+  if (worker !== 'nlp' || !nlpPayload) return payload;
+
+  if (type === 'entities' && !nlpPayload.referenceDate) {
+    return { ...nlpPayload, referenceDate: toReferenceDate(new Date()) };
+  }
+  if (nlpPayload.tfidf && !nlpPayload.corpus) {
+    const corpus = await getCorpusStats(documentTerms(nlpPayload.text));
+    return { ...nlpPayload, corpus };
+  }
+  return payload;
+}
+
+function requestKey(requestId: string, tabId?: number): string {
+  return `${tabId ?? 'extension'}:${requestId}`;
+}
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  if (message?.target !== 'offscreen') return false;
+  const request = message as OffscreenMessage;
+
+  switch (request.kind) {
+    case 'run': {
+      const key = requestKey(request.requestId, request.tabId);
+      const controller = new AbortController();
+      controllers.set(key, controller);
+      pool.configure(request.settings);
+      cache.configure(request.cache);
+
+      preparePayload(request.worker, request.type, request.payload)
+        .then(requestPayload =>
+          cache.memoize(
+            request.worker,
+            request.type,
+            requestPayload,
+            payload =>
+              pool.run(request.worker, request.type, payload, {
+                priority: request.priority,
+                timeoutMs: request.timeoutMs,
+                signal: controller.signal,
+                onProgress: progress => {
+                  const update: PoolProgressPayload = {
+                    requestId: request.requestId,
+                    tabId: request.tabId,
+                    progress,
+                  };
+                  chrome.runtime
+                    .sendMessage({ action: 'workerProgress', payload: update })
+                    .catch(() => undefined);
+                },
+              }),
+            { persist: !usesRedaction(request.payload) }
+          )
+        )
+        .then(sendResponse)
+        .catch(error => sendResponse({ error: error.message }))
+        .finally(() => controllers.delete(key));
+      return true;
+    }
+
+    case 'cancel':
+      controllers.get(requestKey(request.requestId, request.tabId))?.abort();
+      sendResponse({ success: true });
+      return false;
+
+    case 'configure':
+      pool.configure(request.settings);
+      sendResponse({ success: true });
+      return false;
+
+    case 'stats':
+      sendResponse({ stats: pool.stats() });
+      return false;
+
+    case 'cacheStats':
+      cache.stats().then(stats => sendResponse({ stats }));
+      return true;
+
+    case 'clearCache':
+      cache
+        .clear()
+        .then(() => sendResponse({ success: true }))
+        .catch(error => sendResponse({ error: error.message }));
+      return true;
+
+    default:
+      return false;
+  }
+});
@@ -1,25 +1,56 @@
 // NLP Worker - Lightweight natural language processing
-// Keyword extraction, extractive summarization, scoring
-
-interface NLPRequest {
-  id: string;
-  type: 'keywords' | 'summarize' | 'score' | 'analyze';
-  payload: {
-    text: string;
-    maxKeywords?: number;
-    summaryLength?: number;
-  };
-}
-
-interface NLPResponse {
-  id: string;
-  status: 'ok' | 'err';
-  result?: unknown;
-  error?: string;
-  timing: {
-    elapsedMs: number;
-  };
-}
+// Keyword extraction, extractive summarization, readability scoring, style
+// linting, proofreading, entity extraction, tone and language detection, and
+// near-duplicate fingerprints.
+// Requests run with the resources of the text's language, or fail with the
+// reason when it has none for them.
+
+import {
+  forEachChunk,
+  yieldToEventLoop,
+  type ChunkRunOptions,
+} from '../lib/text/chunking';
+import {
+  measureSentences,
+  readabilityReport,
+  type ReadabilityReport,
+  type SentenceStats,
+} from '../lib/text/readability';
+import { proofread, type ProofreadSuggestion } from '../lib/text/proofreader';
+import { extractEntities, type Entity } from '../lib/text/entities';
+import { fingerprintText } from '../lib/text/fingerprint';
+import {
+  addPhraseCandidates,
+  createPhraseStats,
+  rankKeyphrases,
+  type KeyphraseOptions,
+  type ScoredKeyword,
+} from '../lib/text/keyphrases';
+import { detectLanguage } from '../lib/text/languageDetection';
+import {
+  resolveLanguage,
+  unsupportedReason,
+  type LanguageFeature,
+  type LanguageResources,
+} from '../lib/text/languageResources';
+import { lintText, type LintFinding } from '../lib/text/styleLint';
+import {
+  measureTone,
+  toneReport,
+  type SentenceToneStats,
+  type ToneReport,
+} from '../lib/text/tone';
+import { summarize, type SummaryOptions } from '../lib/text/summarizer';
+import type {
+  NLPPayload,
+  NLPWorkerApi,
+  ProgressMessage,
+  WorkerRequest,
+  WorkerResponse,
+} from '../lib/workers/protocol';
+
+type NLPRequest = WorkerRequest<keyof NLPWorkerApi, NLPPayload>;
+type NLPResponse = WorkerResponse;
 
 // Enforce worker context
 if (typeof importScripts !== 'function') {
@@ -27,78 +58,163 @@ if (typeof importScripts !== 'function') {
 }
 
 const TIMEOUT_MS = 1000;
-const STOPWORDS = new Set([
-  'the', 'be', 'to', 'of', 'and', 'a', 'in', 'that', 'have', 'i',
-  'it', 'for', 'not', 'on', 'with', 'he', 'as', 'you', 'do', 'at',
-  'this', 'but', 'his', 'by', 'from', 'they', 'we', 'say', 'her', 'she',
-  'or', 'an', 'will', 'my', 'one', 'all', 'would', 'there', 'their', 'what',
-]);
-
-function extractKeywords(text: string, maxKeywords = 10): string[] {
-  // Tokenize and normalize
-  const words = text
-    .toLowerCase()
-    .replace(/[^\w\s]/g, '')
-    .split(/\s+/)
-    .filter(word => word.length > 3 && !STOPWORDS.has(word));
-
-  // Count frequencies
-  const freq: Record<string, number> = {};
-  words.forEach(word => {
-    freq[word] = (freq[word] || 0) + 1;
-  });
-
-  // Sort by frequency and return top N
-  return Object.entries(freq)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, maxKeywords)
-    .map(([word]) => word);
-}
 
-function extractiveSummarize(text: string, summaryLength = 2): string {
-  // Split into sentences
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+// Language features each request needs, with the name used when declining
+const LANGUAGE_NEEDS: Record<
+  keyof NLPWorkerApi,
+  Array<[LanguageFeature, string]>
+> = {
+  keywords: [['keywords', 'Keyword extraction']],
+  summarize: [['summary', 'Summarization']],
+  score: [['readability', 'Readability scoring']],
+  readability: [['readability', 'Readability scoring']],
+  lint: [['rules', 'Style linting']],
+  proofread: [['rules', 'Proofreading']],
+  entities: [['rules', 'Entity extraction']],
+  tone: [['rules', 'Tone detection']],
+  analyze: [
+    ['keywords', 'Keyword extraction'],
+    ['readability', 'Readability scoring'],
+    ['summary', 'Summarization'],
+  ],
+  language: [],
+  fingerprint: [],
+};
 
-  // Simple extractive: take first N sentences
-  return sentences
-    .slice(0, Math.min(summaryLength, sentences.length))
-    .join(' ')
-    .trim();
+// Key phrases are counted chunk by chunk and ranked over the whole text
+async function extractKeywords(
+  text: string,
+  options: KeyphraseOptions = {},
+  run: ChunkRunOptions = {}
+): Promise<ScoredKeyword[]> {
+  const stats = createPhraseStats();
+  await forEachChunk(
+    text,
+    chunk => addPhraseCandidates(stats, chunk, options.language),
+    run
+  );
+  return rankKeyphrases(stats, options);
 }
 
-function calculateReadabilityScore(text: string): number {
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-  const words = text.split(/\s+/);
-  const syllables = words.reduce((sum, word) => sum + countSyllables(word), 0);
-
-  if (sentences.length === 0 || words.length === 0) return 0;
-
-  // Flesch Reading Ease approximation
-  const avgWordsPerSentence = words.length / sentences.length;
-  const avgSyllablesPerWord = syllables / words.length;
-
-  const score =
-    206.835 -
-    1.015 * avgWordsPerSentence -
-    84.6 * avgSyllablesPerWord;
+function extractiveSummarize(
+  text: string,
+  options: SummaryOptions = { sentences: 2 }
+): string {
+  // Rank sentences on a similarity graph and keep the top ones in order
+  return summarize(text, options).text;
+}
 
-  // Normalize to 0-100
-  return Math.max(0, Math.min(100, Math.round(score)));
+// Chunks end at sentence boundaries (or words, for oversized sentences), so
+// counting each chunk's sentences covers the whole text
+async function calculateReadability(
+  text: string,
+  language?: LanguageResources,
+  run: ChunkRunOptions = {}
+): Promise<ReadabilityReport> {
+  const sentences: SentenceStats[] = [];
+
+  await forEachChunk(
+    text,
+    (chunk, offset) => {
+      sentences.push(...measureSentences(chunk, offset, language));
+    },
+    run
+  );
+
+  return readabilityReport(sentences, language);
 }
 
-function countSyllables(word: string): number {
-  // Simple syllable counting heuristic
-  word = word.toLowerCase().replace(/[^a-z]/g, '');
-  if (word.length <= 3) return 1;
+// Sentences are scored chunk by chunk and combined into the overall tone
+async function detectTone(
+  text: string,
+  run: ChunkRunOptions = {}
+): Promise<ToneReport> {
+  const sentences: SentenceToneStats[] = [];
+
+  await forEachChunk(
+    text,
+    (chunk, offset) => {
+      sentences.push(...measureTone(chunk, offset));
+    },
+    run
+  );
+
+  return toneReport(sentences);
+}
 
-  const vowels = word.match(/[aeiouy]+/g);
-  let count = vowels ? vowels.length : 1;
+async function lint(
+  text: string,
+  payload: NLPPayload,
+  run: ChunkRunOptions = {}
+): Promise<LintFinding[]> {
+  const findings: LintFinding[] = [];
+
+  await forEachChunk(
+    text,
+    (chunk, offset) => {
+      lintText(chunk, { rules: payload.lintRules }).forEach(finding =>
+        findings.push({
+          ...finding,
+          start: finding.start + offset,
+          end: finding.end + offset,
+        })
+      );
+    },
+    run
+  );
+
+  return findings;
+}
 
-  // Adjust for silent e
-  if (word.endsWith('e')) count--;
-  if (word.endsWith('le') && word.length > 2) count++;
+async function proofreadText(
+  text: string,
+  payload: NLPPayload,
+  run: ChunkRunOptions = {}
+): Promise<ProofreadSuggestion[]> {
+  const suggestions: ProofreadSuggestion[] = [];
+
+  await forEachChunk(
+    text,
+    (chunk, offset) => {
+      proofread(chunk, { rules: payload.proofreadRules }).forEach(suggestion =>
+        suggestions.push({
+          ...suggestion,
+          start: suggestion.start + offset,
+          end: suggestion.end + offset,
+        })
+      );
+    },
+    run
+  );
+
+  return suggestions;
+}
 
-  return Math.max(1, count);
+async function findEntities(
+  text: string,
+  payload: NLPPayload,
+  run: ChunkRunOptions = {}
+): Promise<Entity[]> {
+  const entities: Entity[] = [];
+
+  await forEachChunk(
+    text,
+    (chunk, offset) => {
+      extractEntities(chunk, {
+        types: payload.entityTypes,
+        referenceDate: payload.referenceDate,
+      }).forEach(entity =>
+        entities.push({
+          ...entity,
+          start: entity.start + offset,
+          end: entity.end + offset,
+        })
+      );
+    },
+    run
+  );
+
+  return entities;
 }
 
 async function processRequest(
@@ -108,44 +224,167 @@ async function processRequest(
   const startTime = performance.now();
   const { text } = request.payload;
 
-  try {
+  const checkpoint = () => {
     if (signal.aborted) {
       throw new Error('Request cancelled');
     }
+  };
+
+  // Chunk options for phase `stepIndex` of `stepCount`
+  const phase = (
+    step: string,
+    stepIndex = 0,
+    stepCount = 1
+  ): ChunkRunOptions => ({
+    checkpoint,
+    onProgress: ({ completed, total }) =>
+      postProgress({
+        id: request.id,
+        type: 'progress',
+        progress: {
+          step,
+          stepIndex,
+          stepCount,
+          completed,
+          total,
+          fraction: (stepIndex + completed / total) / stepCount,
+        },
+      }),
+  });
+
+  try {
+    checkpoint();
+
+    const language = resolveLanguage(text, request.payload.language);
+    (LANGUAGE_NEEDS[request.type] ?? []).forEach(([feature, label]) => {
+      const reason = unsupportedReason(language, feature, label);
+      if (reason) throw new Error(reason);
+    });
+    const resources = language.resources;
 
     let result: unknown;
 
     switch (request.type) {
-      case 'keywords':
+      case 'keywords': {
+        const scores = await extractKeywords(
+          text,
+          {
+            maxKeywords: request.payload.maxKeywords,
+            corpus: request.payload.corpus,
+            language: resources,
+          },
+          phase('keywords')
+        );
+        result = { keywords: scores.map(score => score.keyword), scores };
+        break;
+      }
+
+      case 'summarize': {
+        const { summaryLength, summaryRatio, maxChars } = request.payload;
+        const options: SummaryOptions = {
+          sentences: summaryLength,
+          ratio: summaryRatio,
+          maxChars,
+          language: resources,
+        };
+        if (summaryLength === undefined && summaryRatio === undefined) {
+          options.sentences = 2;
+        }
+        result = {
+          summary: extractiveSummarize(text, options),
+        };
+        break;
+      }
+
+      case 'score': {
+        const report = await calculateReadability(
+          text,
+          resources,
+          phase('score')
+        );
+        result = { score: report.readingEase };
+        break;
+      }
+
+      case 'readability':
+        result = await calculateReadability(
+          text,
+          resources,
+          phase('readability')
+        );
+        break;
+
+      case 'lint':
         result = {
-          keywords: extractKeywords(text, request.payload.maxKeywords),
+          findings: await lint(text, request.payload, phase('lint')),
         };
         break;
 
-      case 'summarize':
+      case 'proofread':
         result = {
-          summary: extractiveSummarize(text, request.payload.summaryLength),
+          suggestions: await proofreadText(
+            text,
+            request.payload,
+            phase('proofread')
+          ),
         };
         break;
 
-      case 'score':
+      case 'entities':
         result = {
-          score: calculateReadabilityScore(text),
+          entities: await findEntities(
+            text,
+            request.payload,
+            phase('entities')
+          ),
         };
         break;
 
-      case 'analyze':
+      case 'tone':
+        result = await detectTone(text, phase('tone'));
+        break;
+
+      case 'analyze': {
+        const scores = await extractKeywords(
+          text,
+          { corpus: request.payload.corpus, language: resources },
+          phase('keywords', 0, 3)
+        );
+        const keywords = scores.map(score => score.keyword);
+        const report = await calculateReadability(
+          text,
+          resources,
+          phase('score', 1, 3)
+        );
+        const score = report.readingEase;
+        checkpoint();
+        const summary = extractiveSummarize(text, {
+          sentences: 2,
+          language: resources,
+        });
+        result = { keywords, summary, score };
+        break;
+      }
+
+      case 'language':
         result = {
-          keywords: extractKeywords(text),
-          summary: extractiveSummarize(text),
-          score: calculateReadabilityScore(text),
+          ...detectLanguage(text),
+          features: resources?.features ?? [],
         };
         break;
 
+      case 'fingerprint':
+        result = fingerprintText(text);
+        break;
+
       default:
         throw new Error(`Unknown request type: ${request.type}`);
     }
 
+    // A cancel that arrived during the last chunk still wins
+    await yieldToEventLoop();
+    checkpoint();
+
     return {
       id: request.id,
       status: 'ok',
@@ -164,8 +403,14 @@ async function processRequest(
 
 const activeControllers = new Map<string, AbortController>();
 
+function postProgress(message: ProgressMessage) {
+  self.postMessage(message);
+}
+
 self.onmessage = async (event: MessageEvent<NLPRequest>) => {
   const request = event.data;
+  // Cancel messages are handled by the listener below
+  if ((request.type as string) === 'cancel') return;
 
   const controller = new AbortController();
   activeControllers.set(request.id, controller);
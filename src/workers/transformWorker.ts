@@ -1,48 +1,109 @@
 // Transform Worker - Handles all heavy text transformations locally
-// NO external API calls, purely deterministic transforms
-
-interface TransformRequest {
-  id: string;
-  type: 'transform' | 'analyze';
-  payload: {
-    text: string;
-    settings?: {
-      length?: 'short' | 'medium' | 'long' | 'custom';
-      customLength?: number;
-      tone?: string;
-      style?: string;
-      prompt?: string;
-    };
-  };
-}
-
-interface TransformResponse {
-  id: string;
-  status: 'ok' | 'err';
-  result?: {
-    text: string;
-    rulesApplied: string[];
-    changeRatio: number;
-  };
-  error?: string;
-  timing: {
-    elapsedMs: number;
-  };
-}
-
-interface AnalyzeResponse {
-  id: string;
-  status: 'ok' | 'err';
-  result?: {
-    keywords: string[];
-    summary: string;
-    score: number;
-  };
-  error?: string;
-  timing: {
-    elapsedMs: number;
-  };
-}
+// NO external API calls, purely deterministic transforms. Steps built on
+// English rules are declined, with the reason, for text in other languages.
+
+import {
+  forEachChunk,
+  mapChunks,
+  yieldToEventLoop,
+  type ChunkProgress,
+} from '../lib/text/chunking';
+import {
+  convertDialect,
+  detectDialect,
+  isDialect,
+  type Dialect,
+  type DialectConversion,
+} from '../lib/text/dialects';
+import { diffWords } from '../lib/text/diff';
+import {
+  addPhraseCandidates,
+  createPhraseStats,
+  rankKeyphrases,
+} from '../lib/text/keyphrases';
+import {
+  languageInfo,
+  resolveLanguage,
+  unsupportedReason,
+  type LanguageFeature,
+  type LanguageResolution,
+  type LanguageResources,
+} from '../lib/text/languageResources';
+import {
+  applyLexicon,
+  compileLexicon,
+  type Lexicon,
+  type LexiconSwap,
+} from '../lib/text/lexicon';
+import {
+  detectProtectedSpans,
+  mapUnprotected,
+  type ProtectedSpan,
+} from '../lib/text/protectedSpans';
+import { joinSentences, segmentSentences } from '../lib/text/segmenter';
+import { summarize } from '../lib/text/summarizer';
+import { TONE_LEXICONS } from '../lib/text/toneLexicons';
+import { FORMAT_TRANSFORMS } from '../lib/text/formatting';
+import { applyStyleRewrites, isStyle } from '../lib/text/styleRewrites';
+import {
+  executeInstructions,
+  parseInstructions,
+} from '../lib/text/instructions';
+import {
+  describeProofreadFixes,
+  proofreadAndFix,
+  type ProofreadRule,
+  type ProofreadSuggestion,
+} from '../lib/text/proofreader';
+import {
+  describeReadingLevel,
+  DEFAULT_TARGET_GRADE,
+  rewriteToReadingLevel,
+} from '../lib/text/readingLevel';
+import {
+  measureReadability,
+  measureSentences,
+  readabilityReport,
+  type SentenceStats,
+} from '../lib/text/readability';
+import {
+  describeRedaction,
+  redact,
+  type PiiKind,
+  type PiiMatch,
+  type RedactionEntry,
+} from '../lib/text/redaction';
+import {
+  DEFAULT_MAX_VARIANTS,
+  planVariants,
+  rankVariants,
+  scoreVariant,
+} from '../lib/text/variants';
+import type { TransformStep } from '../lib/idb/models';
+import { BUILT_IN_PRESETS, settingsToSteps } from '../lib/idb/presets';
+import type {
+  AnalyzeResult,
+  DeclinedStep,
+  ProgressMessage,
+  ReadabilityChange,
+  StepReport,
+  TransformPayload,
+  TransformResult,
+  TransformVariant,
+  VariantsPayload,
+  VariantsResult,
+  WorkerRequest,
+  WorkerResponse,
+} from '../lib/workers/protocol';
+
+type TransformRequest = WorkerRequest<
+  'transform' | 'variants' | 'analyze',
+  TransformPayload
+>;
+type VariantsRequest = WorkerRequest<'variants', VariantsPayload>;
+type TransformResponse = WorkerResponse<TransformResult>;
+type VariantsResponse = WorkerResponse<VariantsResult>;
+type AnalyzeResponse = WorkerResponse<AnalyzeResult>;
 
 // Enforce worker context
 if (typeof importScripts !== 'function') {
@@ -52,79 +113,13 @@ if (typeof importScripts !== 'function') {
 const TIMEOUT_MS = 1000;
 const activeAbortControllers = new Map<string, AbortController>();
 
-// Lexicon swap tables for tone/style transforms
-const TONE_LEXICONS: Record<string, Record<string, string>> = {
-  formal: {
-    hi: 'greetings',
-    hey: 'hello',
-    yeah: 'yes',
-    nope: 'no',
-    gonna: 'going to',
-    wanna: 'want to',
-    kinda: 'kind of',
-    a lot: 'many',
-    really: 'very',
-    pretty: 'quite',
-  },
-  casual: {
-    greetings: 'hi',
-    hello: 'hey',
-    yes: 'yeah',
-    no: 'nope',
-    'going to': 'gonna',
-    'want to': 'wanna',
-    'kind of': 'kinda',
-    very: 'really',
-    quite: 'pretty',
-  },
-  professional: {
-    think: 'believe',
-    get: 'obtain',
-    make: 'create',
-    help: 'assist',
-    show: 'demonstrate',
-    tell: 'inform',
-  },
-};
-
-const STYLE_PATTERNS: Record<string, (text: string) => string> = {
-  concise: text => {
-    const fillers = [
-      'actually',
-      'basically',
-      'literally',
-      'essentially',
-      'obviously',
-      'clearly',
-    ];
-    let result = text;
-    fillers.forEach(filler => {
-      const regex = new RegExp(`\\b${filler}\\b`, 'gi');
-      result = result.replace(regex, '');
-    });
-    result = result.replace(/\s{2,}/g, ' ');
-    return result.trim();
-  },
-  detailed: text => {
-    return text
-      .replace(/\bis\b/g, 'is currently')
-      .replace(/\bwas\b/g, 'was previously')
-      .replace(/\bcan\b/g, 'is able to');
-  },
-  technical: text => {
-    return text
-      .replace(/\buse\b/g, 'utilize')
-      .replace(/\bpart\b/g, 'component')
-      .replace(/\bthing\b/g, 'element');
-  },
-};
-
 function applyLengthTransform(
   text: string,
   length: 'short' | 'medium' | 'long' | 'custom',
-  customLength?: number
-): { text: string; rule: string } {
-  const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+  customLength?: number,
+  language?: LanguageResources
+): { text: string; rule: string; keptRule?: string } {
+  const sentences = segmentSentences(text, language?.abbreviations);
   let targetSentences: number;
 
   switch (length) {
@@ -142,55 +137,431 @@ function applyLengthTransform(
       break;
   }
 
-  const result = sentences.slice(0, targetSentences).join(' ');
+  const rule = `length_${length}_${targetSentences}_sentences`;
+  if (targetSentences >= sentences.length) {
+    return { text: joinSentences(text, sentences), rule };
+  }
+
+  // Keep the most important sentences rather than just the intro
+  const summary = summarize(text, { sentences: targetSentences, language });
   return {
-    text: result,
-    rule: `length_${length}_${targetSentences}_sentences`,
+    text: summary.text,
+    rule,
+    keptRule: `length_kept:${summary.sentences.map(s => s.index).join(',')}`,
   };
 }
 
-function applyToneTransform(text: string, tone: string): { text: string; rule: string } {
-  const lexicon = TONE_LEXICONS[tone.toLowerCase()];
-  if (!lexicon) return { text, rule: 'tone_unchanged' };
+const compiledLexicons = new Map<string, Lexicon>();
+
+// Light strength keeps the sentence shape: only one-word-for-one-word swaps
+function getLexicon(tone: string, light = false): Lexicon | null {
+  const key = tone.toLowerCase();
+  if (!TONE_LEXICONS[key]) return null;
+
+  const cacheKey = light ? `${key}:light` : key;
+  let lexicon = compiledLexicons.get(cacheKey);
+  if (!lexicon) {
+    const entries = Object.entries(TONE_LEXICONS[key]).filter(
+      ([from, to]) => !light || (!/\s/.test(from) && !/\s/.test(to))
+    );
+    lexicon = compileLexicon(Object.fromEntries(entries));
+    compiledLexicons.set(cacheKey, lexicon);
+  }
+  return lexicon;
+}
 
-  let result = text;
-  let swaps = 0;
-
-  Object.entries(lexicon).forEach(([from, to]) => {
-    const regex = new RegExp(`\\b${from}\\b`, 'gi');
-    const matches = result.match(regex);
-    if (matches) {
-      result = result.replace(regex, to);
-      swaps += matches.length;
-    }
+function applyToneTransform(
+  text: string,
+  lexicon: Lexicon
+): { text: string; swaps: LexiconSwap[] } {
+  // Swap spans are reported against the full input, not the segment
+  const swaps: LexiconSwap[] = [];
+  const result = mapUnprotected(text, (segment, offset) => {
+    const segmentResult = applyLexicon(segment, lexicon);
+    segmentResult.swaps.forEach(swap =>
+      swaps.push({
+        ...swap,
+        start: swap.start + offset,
+        end: swap.end + offset,
+      })
+    );
+    return segmentResult.text;
   });
 
-  return {
-    text: result,
-    rule: `tone_${tone}_${swaps}_swaps`,
-  };
+  return { text: result, swaps };
+}
+
+function applyDialectTransform(
+  text: string,
+  from: Dialect,
+  to: Dialect
+): { text: string; conversions: DialectConversion[] } {
+  // Numbers stay editable: dates are made of them, and nothing else here
+  // changes a number
+  const spans = detectProtectedSpans(text).filter(
+    span => span.kind !== 'number'
+  );
+  const conversions: DialectConversion[] = [];
+  const result = mapUnprotected(
+    text,
+    (segment, offset) => {
+      const segmentResult = convertDialect(segment, from, to);
+      segmentResult.conversions.forEach(conversion =>
+        conversions.push({
+          ...conversion,
+          start: conversion.start + offset,
+          end: conversion.end + offset,
+        })
+      );
+      return segmentResult.text;
+    },
+    spans
+  );
+
+  return { text: result, conversions };
+}
+
+function applyStyleTransform(text: string, style: string): string {
+  return mapUnprotected(text, segment => applyStyleRewrites(segment, style));
+}
+
+interface StepOutput {
+  text: string;
+  rules: string[];
+  redactions?: RedactionEntry[];
+  readability?: ReadabilityChange;
+}
+
+interface StepContext {
+  language: LanguageResolution;
+  // Runs a paragraph-local rewrite chunk by chunk, yielding between chunks so
+  // cancel messages are handled and progress is reported
+  mapChunks: (
+    text: string,
+    transform: (chunk: string, offset: number) => string
+  ) => Promise<string>;
+}
+
+type StepHandler = (
+  text: string,
+  options: Record<string, unknown>,
+  context: StepContext
+) => StepOutput | Promise<StepOutput>;
+
+const STEP_HANDLERS: Record<string, StepHandler> = {
+  proofread: async (text, options, context) => {
+    const rules = options.rules as ProofreadRule[] | undefined;
+    const applied: ProofreadSuggestion[] = [];
+    const result = await context.mapChunks(text, (chunk, offset) => {
+      const fixes = proofreadAndFix(chunk, { rules });
+      fixes.applied.forEach(fix =>
+        applied.push({
+          ...fix,
+          start: fix.start + offset,
+          end: fix.end + offset,
+        })
+      );
+      return fixes.text;
+    });
+    return { text: result, rules: describeProofreadFixes(applied) };
+  },
+  length: (text, options, context) => {
+    const length = options.length;
+    if (
+      length !== 'short' &&
+      length !== 'medium' &&
+      length !== 'long' &&
+      length !== 'custom'
+    ) {
+      throw new Error(`Invalid length option: ${String(length)}`);
+    }
+    const customLength =
+      typeof options.customLength === 'number'
+        ? options.customLength
+        : undefined;
+    const result = applyLengthTransform(
+      text,
+      length,
+      customLength,
+      context.language.resources
+    );
+    return {
+      text: result.text,
+      rules: result.keptRule ? [result.rule, result.keptRule] : [result.rule],
+    };
+  },
+  tone: async (text, options, context) => {
+    const tone = String(options.tone ?? '');
+    const light = options.strength === 'light';
+    const lexicon = getLexicon(tone, light);
+    if (!lexicon) return { text, rules: ['tone_unchanged'] };
+
+    const swaps: LexiconSwap[] = [];
+    const result = await context.mapChunks(text, (chunk, offset) => {
+      const chunkResult = applyToneTransform(chunk, lexicon);
+      chunkResult.swaps.forEach(swap =>
+        swaps.push({
+          ...swap,
+          start: swap.start + offset,
+          end: swap.end + offset,
+        })
+      );
+      return chunkResult.text;
+    });
+
+    return {
+      text: result,
+      rules: [
+        `tone_${tone}${light ? '_light' : ''}_${swaps.length}_swaps`,
+        ...swaps.map(
+          swap =>
+            `tone_${tone}_swap:${swap.from}→${swap.to}@${swap.start}-${swap.end}`
+        ),
+      ],
+    };
+  },
+  style: async (text, options, context) => {
+    const style = String(options.style ?? '');
+    if (!isStyle(style)) {
+      return { text, rules: ['style_unchanged'] };
+    }
+    const result = await context.mapChunks(text, chunk =>
+      applyStyleTransform(chunk, style)
+    );
+    return { text: result.trim(), rules: [`style_${style}_applied`] };
+  },
+  dialect: async (text, options, context) => {
+    const to = options.to;
+    if (!isDialect(to)) {
+      throw new Error(`Invalid dialect: ${String(to)}`);
+    }
+    if (options.from !== undefined && !isDialect(options.from)) {
+      throw new Error(`Invalid dialect: ${String(options.from)}`);
+    }
+    // Undetectable text is assumed to be in the other spelling family
+    const from =
+      options.from ??
+      detectDialect(text) ??
+      (to === 'en-US' ? 'en-GB' : 'en-US');
+    if (from === to) return { text, rules: [`dialect_${to}_unchanged`] };
+
+    const conversions: DialectConversion[] = [];
+    const result = await context.mapChunks(text, (chunk, offset) => {
+      const chunkResult = applyDialectTransform(chunk, from, to);
+      chunkResult.conversions.forEach(conversion =>
+        conversions.push({
+          ...conversion,
+          start: conversion.start + offset,
+          end: conversion.end + offset,
+        })
+      );
+      return chunkResult.text;
+    });
+
+    return {
+      text: result,
+      rules: [
+        `dialect_${from}_to_${to}_${conversions.length}_conversions`,
+        ...conversions.map(
+          conversion =>
+            `dialect_${conversion.kind}:${conversion.from}→${conversion.to}@${conversion.start}-${conversion.end}`
+        ),
+      ],
+    };
+  },
+  format: (text, options) => {
+    const format = String(options.format ?? '');
+    const transform = FORMAT_TRANSFORMS[format];
+    if (!transform) {
+      throw new Error(`Unknown format: ${format}`);
+    }
+    return { text: transform(text), rules: [`format_${format}_applied`] };
+  },
+  instructions: (text, options) => {
+    const { instructions, errors } = parseInstructions(
+      String(options.prompt ?? '')
+    );
+    if (errors.length > 0) {
+      throw new Error(errors.map(error => error.message).join('; '));
+    }
+    return executeInstructions(text, instructions);
+  },
+  readingLevel: async (text, options, context) => {
+    const grade =
+      typeof options.grade === 'number' ? options.grade : DEFAULT_TARGET_GRADE;
+    if (!Number.isFinite(grade) || grade < 1) {
+      throw new Error(`Invalid reading level: ${String(options.grade)}`);
+    }
+
+    // Each chunk is rewritten towards the target; the grade reported is
+    // measured over the whole text
+    const rules: string[] = [];
+    const result = await context.mapChunks(text, chunk => {
+      const chunkResult = rewriteToReadingLevel(chunk, { grade });
+      rules.push(...chunkResult.rules);
+      return chunkResult.text;
+    });
+
+    const before = measureReadability(text);
+    const after = measureReadability(result);
+    return {
+      text: result,
+      rules: [describeReadingLevel(grade, before, after), ...rules],
+      readability: { before, after },
+    };
+  },
+  redact: async (text, options, context) => {
+    const mode = options.mode;
+    if (mode !== 'mask' && mode !== 'placeholder' && mode !== 'pseudonym') {
+      throw new Error(`Invalid redaction mode: ${String(mode)}`);
+    }
+
+    // Entries carry over between chunks so replacements stay consistent
+    const known = [
+      ...((options.entries as RedactionEntry[] | undefined) || []),
+    ];
+    const used: RedactionEntry[] = [];
+    const matches: PiiMatch[] = [];
+    const result = await context.mapChunks(text, chunk => {
+      const chunkResult = redact(chunk, {
+        mode,
+        kinds: options.kinds as PiiKind[] | undefined,
+        entries: known,
+      });
+      chunkResult.entries.forEach(entry => {
+        if (!known.includes(entry)) known.push(entry);
+        if (!used.includes(entry)) used.push(entry);
+      });
+      matches.push(...chunkResult.matches);
+      return chunkResult.text;
+    });
+
+    return {
+      text: result,
+      rules: describeRedaction(mode, matches),
+      redactions: used,
+    };
+  },
+};
+
+// Language features a step needs, and its name when declining it
+const STEP_LANGUAGE_NEEDS: Record<string, [LanguageFeature, string]> = {
+  proofread: ['rules', 'Proofreading'],
+  length: ['summary', 'Shortening'],
+  tone: ['rules', 'Tone rewriting'],
+  style: ['rules', 'Style rewriting'],
+  readingLevel: ['rules', 'Reading-level rewriting'],
+  dialect: ['rules', 'Dialect conversion'],
+};
+
+interface PipelineRun {
+  text: string;
+  rulesApplied: string[];
+  steps: StepReport[];
+  redactions: RedactionEntry[];
+  readability?: ReadabilityChange;
+  language: LanguageResolution;
+  declined: DeclinedStep[];
 }
 
-function applyStyleTransform(text: string, style: string): { text: string; rule: string } {
-  const transform = STYLE_PATTERNS[style.toLowerCase()];
-  if (!transform) return { text, rule: 'style_unchanged' };
+// Progress for a chunk of step `stepIndex`, before scaling to the request
+type PipelineReport = (
+  step: TransformStep,
+  stepIndex: number,
+  stepCount: number,
+  progress: ChunkProgress
+) => void;
+
+async function runPipeline(
+  text: string,
+  pipeline: TransformStep[],
+  checkpoint: () => void,
+  report: PipelineReport,
+  language: LanguageResolution
+): Promise<PipelineRun> {
+  const rulesApplied: string[] = [];
+  const steps: StepReport[] = [];
+  const declined: DeclinedStep[] = [];
+  const redactions: RedactionEntry[] = [];
+  let readability: ReadabilityChange | undefined;
+  let result = text;
+
+  for (let stepIndex = 0; stepIndex < pipeline.length; stepIndex++) {
+    const step = pipeline[stepIndex];
+    const handler = STEP_HANDLERS[step.rule];
+    if (!handler) {
+      throw new Error(`Unknown transform step: ${step.rule}`);
+    }
+
+    const onProgress = (progress: ChunkProgress) =>
+      report(step, stepIndex, pipeline.length, progress);
+
+    // The text passes through unchanged rather than failing the pipeline
+    const need = STEP_LANGUAGE_NEEDS[step.rule];
+    const reason = need && unsupportedReason(language, need[0], need[1]);
+    if (reason) {
+      declined.push({ rule: step.rule, reason });
+      onProgress({ completed: 1, total: 1, partial: result });
+      continue;
+    }
+
+    const options = step.options || {};
+    const stepResult = await handler(result, options, {
+      language,
+      mapChunks: (input, transform) =>
+        mapChunks(input, transform, { checkpoint, onProgress }),
+    });
+    checkpoint();
+    result = stepResult.text;
+    rulesApplied.push(...stepResult.rules);
+    redactions.push(...(stepResult.redactions || []));
+    if (stepResult.readability) {
+      // Repeated reading-level steps report from the first input to the
+      // last output
+      readability = {
+        before: readability?.before ?? stepResult.readability.before,
+        after: stepResult.readability.after,
+      };
+    }
+    steps.push({
+      rule: step.rule,
+      options,
+      text: result,
+      rulesApplied: stepResult.rules,
+    });
+    onProgress({ completed: 1, total: 1, partial: result });
+    await yieldToEventLoop();
+  }
 
-  const result = transform(text);
   return {
     text: result,
-    rule: `style_${style}_applied`,
+    rulesApplied,
+    steps,
+    redactions,
+    readability,
+    language,
+    declined,
   };
 }
 
-function calculateChangeRatio(original: string, transformed: string): number {
-  const originalWords = original.split(/\s+/);
-  const transformedWords = transformed.split(/\s+/);
-
-  const lengthDiff = Math.abs(originalWords.length - transformedWords.length);
-  const maxLength = Math.max(originalWords.length, transformedWords.length);
-
-  const ratio = maxLength > 0 ? lengthDiff / maxLength : 0;
-  return Math.round(ratio * 100) / 100;
+function toTransformResult(
+  original: string,
+  run: PipelineRun,
+  protectedSpans: ProtectedSpan[]
+): TransformResult {
+  const diff = diffWords(original, run.text);
+  return {
+    text: run.text,
+    rulesApplied: run.rulesApplied,
+    changeRatio: diff.ratio,
+    diff,
+    protectedSpans,
+    steps: run.steps,
+    redactions: run.redactions,
+    ...(run.readability && { readability: run.readability }),
+    language: languageInfo(run.language),
+    declined: run.declined,
+  };
 }
 
 async function performTransform(
@@ -199,50 +570,135 @@ async function performTransform(
 ): Promise<TransformResponse> {
   const startTime = performance.now();
   const { text, settings = {} } = request.payload;
-  const rulesApplied: string[] = [];
 
-  try {
+  const checkpoint = () => {
     if (signal.aborted) {
       throw new Error('Transform cancelled');
     }
+  };
 
-    let result = text;
+  try {
+    checkpoint();
+
+    const protectedSpans = detectProtectedSpans(text);
+    const language = resolveLanguage(text, settings.language);
+    const run = await runPipeline(
+      text,
+      settingsToSteps(settings),
+      checkpoint,
+      (step, stepIndex, stepCount, progress) =>
+        postProgress({
+          id: request.id,
+          type: 'progress',
+          progress: {
+            step: step.rule,
+            stepIndex,
+            stepCount,
+            ...progress,
+            fraction:
+              (stepIndex + progress.completed / progress.total) / stepCount,
+          },
+        }),
+      language
+    );
 
-    if (settings.length) {
-      const lengthResult = applyLengthTransform(
-        result,
-        settings.length,
-        settings.customLength
-      );
-      result = lengthResult.text;
-      rulesApplied.push(lengthResult.rule);
-    }
+    const elapsedMs = performance.now() - startTime;
 
-    if (settings.tone) {
-      const toneResult = applyToneTransform(result, settings.tone);
-      result = toneResult.text;
-      rulesApplied.push(toneResult.rule);
-    }
+    return {
+      id: request.id,
+      status: 'ok',
+      result: toTransformResult(text, run, protectedSpans),
+      timing: { elapsedMs },
+    };
+  } catch (error) {
+    return {
+      id: request.id,
+      status: 'err',
+      error: error instanceof Error ? error.message : 'Unknown error',
+      timing: { elapsedMs: performance.now() - startTime },
+    };
+  }
+}
 
-    if (settings.style) {
-      const styleResult = applyStyleTransform(result, settings.style);
-      result = styleResult.text;
-      rulesApplied.push(styleResult.rule);
+// Run the planned alternatives in order until enough distinct texts exist,
+// then rank them. Everything is deterministic, so the same input and settings
+// always give the same variants in the same order.
+async function performVariants(
+  request: VariantsRequest,
+  signal: AbortSignal
+): Promise<VariantsResponse> {
+  const startTime = performance.now();
+  const { text, settings = {} } = request.payload;
+  const maxVariants = Math.max(
+    1,
+    request.payload.maxVariants ?? DEFAULT_MAX_VARIANTS
+  );
+
+  const checkpoint = () => {
+    if (signal.aborted) {
+      throw new Error('Transform cancelled');
     }
+  };
 
-    const changeRatio = calculateChangeRatio(text, result);
+  try {
+    checkpoint();
+
+    const protectedSpans = detectProtectedSpans(text);
+    const language = resolveLanguage(text, settings.language);
+    const plans = planVariants(settingsToSteps(settings), BUILT_IN_PRESETS);
+    const variants: TransformVariant[] = [];
+    const seen = new Set<string>();
+
+    for (let planIndex = 0; planIndex < plans.length; planIndex++) {
+      if (variants.length >= maxVariants) break;
+      const plan = plans[planIndex];
+
+      const run = await runPipeline(
+        text,
+        plan.steps,
+        checkpoint,
+        (step, stepIndex, stepCount, progress) =>
+          postProgress({
+            id: request.id,
+            type: 'progress',
+            progress: {
+              step: `${plan.id}:${step.rule}`,
+              stepIndex,
+              stepCount,
+              ...progress,
+              fraction:
+                (variants.length +
+                  (stepIndex + progress.completed / progress.total) /
+                    stepCount) /
+                maxVariants,
+            },
+          }),
+        language
+      );
 
-    const elapsedMs = performance.now() - startTime;
+      if (seen.has(run.text)) continue;
+      seen.add(run.text);
+
+      const result = toTransformResult(text, run, protectedSpans);
+      variants.push({
+        id: plan.id,
+        label: plan.label,
+        rank: 0,
+        score: scoreVariant(text, result.text, result.changeRatio, plan.steps),
+        result,
+      });
+    }
+
+    const ranked = rankVariants(variants).map((variant, index) => ({
+      ...variant,
+      rank: index + 1,
+    }));
 
     return {
       id: request.id,
       status: 'ok',
-      result: {
-        text: result,
-        rulesApplied,
-        changeRatio,
-      },
-      timing: { elapsedMs },
+      result: { variants: ranked },
+      timing: { elapsedMs: performance.now() - startTime },
     };
   } catch (error) {
     return {
@@ -259,35 +715,62 @@ async function performAnalyze(
   signal: AbortSignal
 ): Promise<AnalyzeResponse> {
   const startTime = performance.now();
-  const { text } = request.payload;
+  const { text, settings = {} } = request.payload;
 
-  try {
+  const checkpoint = () => {
     if (signal.aborted) {
       throw new Error('Analysis cancelled');
     }
+  };
 
-    const words = text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(/\s+/)
-      .filter(w => w.length > 3);
-
-    const freq: Record<string, number> = {};
-    words.forEach(w => {
-      freq[w] = (freq[w] || 0) + 1;
+  try {
+    checkpoint();
+
+    const language = resolveLanguage(text, settings.language);
+    (
+      [
+        ['keywords', 'Keyword extraction'],
+        ['readability', 'Readability scoring'],
+        ['summary', 'Summarization'],
+      ] as Array<[LanguageFeature, string]>
+    ).forEach(([feature, label]) => {
+      const reason = unsupportedReason(language, feature, label);
+      if (reason) throw new Error(reason);
     });
-
-    const keywords = Object.entries(freq)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 10)
-      .map(([word]) => word);
-
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
-    const summary = sentences.slice(0, 2).join(' ').trim();
-
-    const avgWordsPerSentence =
-      sentences.length > 0 ? words.length / sentences.length : 0;
-    const score = Math.min(100, Math.round(avgWordsPerSentence * 10));
+    const resources = language.resources;
+
+    const phrases = createPhraseStats();
+    const sentenceStats: SentenceStats[] = [];
+    await forEachChunk(
+      text,
+      (chunk, offset) => {
+        sentenceStats.push(...measureSentences(chunk, offset, resources));
+        addPhraseCandidates(phrases, chunk, resources);
+      },
+      {
+        checkpoint,
+        onProgress: progress =>
+          postProgress({
+            id: request.id,
+            type: 'progress',
+            progress: {
+              step: 'keywords',
+              stepIndex: 0,
+              stepCount: 2,
+              ...progress,
+              fraction: progress.completed / progress.total / 2,
+            },
+          }),
+      }
+    );
+
+    // Same key phrases as the NLP worker, without corpus weighting
+    const keywords = rankKeyphrases(phrases).map(({ keyword }) => keyword);
+
+    checkpoint();
+    const summary = summarize(text, { sentences: 2, language: resources }).text;
+    // Same reading ease as the NLP worker's score
+    const score = readabilityReport(sentenceStats, resources).readingEase;
 
     return {
       id: request.id,
@@ -309,22 +792,40 @@ async function performAnalyze(
   }
 }
 
+function postProgress(message: ProgressMessage) {
+  self.postMessage(message);
+}
+
 self.onmessage = async (event: MessageEvent<TransformRequest>) => {
   const request = event.data;
+  // Cancel messages are handled by the listener below
+  if ((request.type as string) === 'cancel') return;
 
   const controller = new AbortController();
   activeAbortControllers.set(request.id, controller);
 
+  // Variants run one pipeline each, so they get one budget each
+  const budget =
+    request.type === 'variants'
+      ? TIMEOUT_MS *
+        ((request as VariantsRequest).payload.maxVariants ??
+          DEFAULT_MAX_VARIANTS)
+      : TIMEOUT_MS;
   const timeoutId = setTimeout(() => {
     controller.abort();
     activeAbortControllers.delete(request.id);
-  }, TIMEOUT_MS);
+  }, budget);
 
   try {
-    let response: TransformResponse | AnalyzeResponse;
+    let response: TransformResponse | VariantsResponse | AnalyzeResponse;
 
     if (request.type === 'transform') {
       response = await performTransform(request, controller.signal);
+    } else if (request.type === 'variants') {
+      response = await performVariants(
+        request as VariantsRequest,
+        controller.signal
+      );
     } else if (request.type === 'analyze') {
       response = await performAnalyze(request, controller.signal);
     } else {
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chunkText,
+  forEachChunk,
+  mapChunks,
+  type ChunkProgress,
+} from '../../src/lib/text/chunking';
+
+const paragraph = (n: number) =>
+  `Paragraph ${n} has a first sentence. It also has a second one.`;
+
+describe('Chunked Processing', () => {
+  describe('chunkText', () => {
+    it('should keep short text in a single chunk', () => {
+      const chunks = chunkText('  Just one line.  ');
+      expect(chunks).toEqual([{ text: 'Just one line.', start: 2, end: 16 }]);
+    });
+
+    it('should pack whole paragraphs up to the chunk size', () => {
+      const input = [1, 2, 3, 4].map(paragraph).join('\n\n');
+      const chunks = chunkText(input, 140);
+      expect(chunks.map(chunk => chunk.text)).toEqual([
+        `${paragraph(1)}\n\n${paragraph(2)}`,
+        `${paragraph(3)}\n\n${paragraph(4)}`,
+      ]);
+      chunks.forEach(chunk => {
+        expect(input.slice(chunk.start, chunk.end)).toBe(chunk.text);
+      });
+    });
+
+    it('should split oversized paragraphs at sentence boundaries', () => {
+      const chunks = chunkText(paragraph(1), 40);
+      expect(chunks.map(chunk => chunk.text)).toEqual([
+        'Paragraph 1 has a first sentence.',
+        'It also has a second one.',
+      ]);
+    });
+
+    it('should split oversized sentences at word boundaries', () => {
+      const input = 'word '.repeat(30).trim();
+      const chunks = chunkText(input, 22);
+      chunks.forEach(chunk => {
+        expect(chunk.text.length).toBeLessThanOrEqual(22);
+        expect(chunk.text).toMatch(/^word( word)*$/);
+      });
+      expect(chunks.map(chunk => chunk.text).join(' ')).toBe(input);
+    });
+  });
+
+  describe('mapChunks', () => {
+    const input = [1, 2, 3].map(paragraph).join('\n\n');
+
+    it('should rewrite every chunk and keep the separators', async () => {
+      const result = await mapChunks(input, chunk => chunk.toUpperCase(), {
+        chunkSize: 70,
+      });
+      expect(result).toBe(input.toUpperCase());
+    });
+
+    it('should report progress with partial results', async () => {
+      const updates: ChunkProgress[] = [];
+      await mapChunks(input, chunk => chunk.toUpperCase(), {
+        chunkSize: 70,
+        onProgress: progress => updates.push(progress),
+      });
+
+      expect(updates.map(update => update.completed)).toEqual([1, 2, 3]);
+      expect(updates[0].total).toBe(3);
+      expect(updates[0].partial).toBe(
+        [paragraph(1).toUpperCase(), paragraph(2), paragraph(3)].join('\n\n')
+      );
+    });
+
+    it('should stop between chunks when the checkpoint throws', async () => {
+      const controller = new AbortController();
+      const seen: number[] = [];
+
+      const run = mapChunks(
+        input,
+        (chunk, offset) => {
+          seen.push(offset);
+          controller.abort();
+          return chunk;
+        },
+        {
+          chunkSize: 70,
+          checkpoint: () => {
+            if (controller.signal.aborted) throw new Error('Cancelled');
+          },
+        }
+      );
+
+      await expect(run).rejects.toThrow('Cancelled');
+      expect(seen).toEqual([0]);
+    });
+  });
+
+  describe('forEachChunk', () => {
+    it('should visit chunks with their offsets', async () => {
+      const input = `${paragraph(1)}\n\n${paragraph(2)}`;
+      const offsets: number[] = [];
+      await forEachChunk(input, (_, offset) => offsets.push(offset), {
+        chunkSize: 70,
+      });
+      expect(offsets).toEqual([0, paragraph(1).length + 2]);
+    });
+  });
+});
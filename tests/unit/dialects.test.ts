@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { convertDialect, detectDialect } from '../../src/lib/text/dialects';
+
+function toBritish(text: string) {
+  return convertDialect(text, 'en-US', 'en-GB').text;
+}
+
+function toAmerican(text: string) {
+  return convertDialect(text, 'en-GB', 'en-US').text;
+}
+
+describe('Dialect conversion', () => {
+  describe('spelling', () => {
+    it('should convert suffix families and keep casing', () => {
+      expect(
+        toBritish(
+          'Color the CENTER of the Catalog and traveled to the theater.'
+        )
+      ).toBe(
+        'Colour the CENTRE of the Catalogue and travelled to the theatre.'
+      );
+      expect(toAmerican('The neighbours favoured the grey colours.')).toBe(
+        'The neighbors favored the gray colors.'
+      );
+    });
+
+    it('should convert -ize and -ise with exceptions', () => {
+      expect(
+        toBritish('Organizations realized they should Emphasize it.')
+      ).toBe('Organisations realised they should Emphasise it.');
+      expect(toBritish('Resize the prize and seize the day.')).toBe(
+        'Resize the prize and seize the day.'
+      );
+      expect(
+        toAmerican('We analyse, advertise, exercise and promise to supervise.')
+      ).toBe('We analyze, advertise, exercise and promise to supervise.');
+      expect(toAmerican('The analyses came otherwise.')).toBe(
+        'The analyses came otherwise.'
+      );
+    });
+
+    it('should leave fixed phrases alone', () => {
+      expect(toBritish('Close the dialog box, then read the catalog.')).toBe(
+        'Close the dialog box, then read the catalogue.'
+      );
+    });
+  });
+
+  describe('vocabulary', () => {
+    it('should swap regional words, longest phrase first', () => {
+      expect(toBritish('Take the elevator to the parking lot.')).toBe(
+        'Take the lift to the car park.'
+      );
+      expect(
+        convertDialect('A pickup truck and a truck.', 'en-US', 'en-AU').text
+      ).toBe('A ute and a truck.');
+      expect(toBritish('A pickup truck and a truck.')).toBe(
+        'A pickup truck and a lorry.'
+      );
+    });
+
+    it('should not convert words with other meanings in the source dialect', () => {
+      expect(toAmerican('Lift the box into the flat.')).toBe(
+        'Lift the box into the flat.'
+      );
+      expect(convertDialect('The lorry stopped.', 'en-GB', 'en-AU').text).toBe(
+        'The truck stopped.'
+      );
+    });
+  });
+
+  describe('dates', () => {
+    it('should reorder numeric and long dates', () => {
+      expect(toBritish('Due 10/19/2026 or October 19th, 2026.')).toBe(
+        'Due 19/10/2026 or 19th October 2026.'
+      );
+      expect(toAmerican('Due 19-10-2026 or 19 October 2026.')).toBe(
+        'Due 10-19-2026 or October 19, 2026.'
+      );
+    });
+
+    it('should skip dates that are invalid in the source order', () => {
+      expect(toBritish('Already 19/10/2026, not 02/30/2026.')).toBe(
+        'Already 19/10/2026, not 02/30/2026.'
+      );
+    });
+
+    it('should not reorder dates between British and Australian English', () => {
+      expect(convertDialect('On 03/04/2026.', 'en-GB', 'en-AU').text).toBe(
+        'On 03/04/2026.'
+      );
+    });
+  });
+
+  it('should report every conversion with offsets into the input', () => {
+    const text = 'My favorite elevator opens 10/19/2026.';
+    const { conversions } = convertDialect(text, 'en-US', 'en-GB');
+    expect(conversions.map(c => c.kind)).toEqual([
+      'spelling',
+      'vocabulary',
+      'date',
+    ]);
+    conversions.forEach(conversion =>
+      expect(text.slice(conversion.start, conversion.end)).toBe(conversion.from)
+    );
+  });
+
+  it('should detect the dialect from its markers', () => {
+    expect(detectDialect('The color of the center was analyzed.')).toBe(
+      'en-US'
+    );
+    expect(detectDialect('The colour of the centre was analysed.')).toBe(
+      'en-GB'
+    );
+    expect(detectDialect('The colour of the ute on the footpath.')).toBe(
+      'en-AU'
+    );
+    expect(detectDialect('Hello there.')).toBeUndefined();
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, tokenize } from '../../src/lib/text/diff';
+
+describe('Word Diff', () => {
+  describe('tokenize', () => {
+    it('should split words and punctuation with offsets', () => {
+      const tokens = tokenize("Hey, it's fine.");
+      expect(tokens.map(t => t.text)).toEqual([
+        'Hey',
+        ',',
+        "it's",
+        'fine',
+        '.',
+      ]);
+      expect(tokens[2]).toEqual({ text: "it's", start: 5, end: 9 });
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should report no hunks for identical text', () => {
+      const diff = diffWords('Same text here.', 'Same text here.');
+      expect(diff.hunks).toEqual([]);
+      expect(diff.editDistance).toBe(0);
+      expect(diff.ratio).toBe(0);
+    });
+
+    it('should detect word swaps that keep the word count', () => {
+      const diff = diffWords(
+        'I think we should help.',
+        'I believe we should assist.'
+      );
+      expect(diff.hunks).toHaveLength(2);
+      expect(diff.hunks[0]).toMatchObject({
+        type: 'replace',
+        originalText: 'think',
+        resultText: 'believe',
+        originalStart: 2,
+        originalEnd: 7,
+      });
+      expect(diff.hunks[1]).toMatchObject({
+        type: 'replace',
+        originalText: 'help',
+        resultText: 'assist',
+      });
+      expect(diff.editDistance).toBe(2);
+      expect(diff.ratio).toBeGreaterThan(0);
+    });
+
+    it('should report deletions with empty result ranges', () => {
+      const diff = diffWords(
+        'This is actually the best thing.',
+        'This is the best thing.'
+      );
+      expect(diff.hunks).toHaveLength(1);
+      expect(diff.hunks[0]).toMatchObject({
+        type: 'delete',
+        originalText: 'actually',
+        resultText: '',
+      });
+      expect(diff.hunks[0].resultStart).toBe(diff.hunks[0].resultEnd);
+    });
+
+    it('should report insertions with empty original ranges', () => {
+      const diff = diffWords('It is ready.', 'It is currently ready.');
+      expect(diff.hunks).toEqual([
+        expect.objectContaining({
+          type: 'insert',
+          originalStart: 6,
+          originalEnd: 6,
+          resultText: 'currently',
+        }),
+      ]);
+    });
+
+    it('should compute ratio from edit distance over the longer text', () => {
+      const diff = diffWords('one two three four', 'one 2 three four');
+      expect(diff.editDistance).toBe(1);
+      expect(diff.ratio).toBe(0.25);
+    });
+
+    it('should handle empty inputs', () => {
+      expect(diffWords('', '').hunks).toEqual([]);
+      const diff = diffWords('', 'new words');
+      expect(diff.hunks).toHaveLength(1);
+      expect(diff.hunks[0].type).toBe('insert');
+      expect(diff.ratio).toBe(1);
+    });
+
+    it('should align sentences and lines when the inputs are too large for a token diff', () => {
+      const sentences = Array.from(
+        { length: 2000 },
+        (_, i) => `Sentence ${i} has a few ordinary words in it.`
+      );
+      const edited = sentences.map((sentence, i) =>
+        i % 20 === 0 ? sentence.replace('ordinary', 'plain') : sentence
+      );
+      const diff = diffWords(sentences.join(' '), edited.join('\n'));
+
+      expect(diff.hunks).toHaveLength(100);
+      diff.hunks.forEach(hunk => {
+        expect(hunk).toMatchObject({
+          type: 'replace',
+          originalText: 'ordinary',
+          resultText: 'plain',
+        });
+      });
+      expect(diff.editDistance).toBe(100);
+      expect(diff.ratio).toBe(0.01);
+    });
+  });
+});
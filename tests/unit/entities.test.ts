@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractEntities,
+  toReferenceDate,
+  type EntityType,
+} from '../../src/lib/text/entities';
+
+// A Monday
+const REFERENCE = '2026-10-19';
+
+function valuesOf(text: string, type: EntityType) {
+  return extractEntities(text, { referenceDate: REFERENCE, types: [type] }).map(
+    entity => [entity.text, entity.value]
+  );
+}
+
+describe('Entity extraction', () => {
+  describe('dates and times', () => {
+    it('should normalize absolute dates to ISO 8601', () => {
+      expect(
+        valuesOf(
+          'Due 2026-11-03, then Oct 5th, the 2nd of December 2027 and 31/12/2026.',
+          'date'
+        )
+      ).toEqual([
+        ['2026-11-03', '2026-11-03'],
+        ['Oct 5th', '2026-10-05'],
+        ['the 2nd of December 2027', '2027-12-02'],
+        ['31/12/2026', '2026-12-31'],
+      ]);
+    });
+
+    it('should resolve relative dates against the reference date', () => {
+      expect(
+        valuesOf(
+          'Tomorrow, next Tuesday, last Friday, in 3 days, two weeks ago and next month.',
+          'date'
+        )
+      ).toEqual([
+        ['Tomorrow', '2026-10-20'],
+        ['next Tuesday', '2026-10-20'],
+        ['last Friday', '2026-10-16'],
+        ['in 3 days', '2026-10-22'],
+        ['two weeks ago', '2026-10-05'],
+        ['next month', '2026-11'],
+      ]);
+    });
+
+    it('should use ISO weeks for whole weeks', () => {
+      expect(valuesOf('Ship it next week.', 'date')).toEqual([
+        ['next week', '2026-W44'],
+      ]);
+    });
+
+    it('should pick the nearest year for dates without one', () => {
+      expect(valuesOf('Kickoff on January 8.', 'date')).toEqual([
+        ['January 8', '2027-01-08'],
+      ]);
+    });
+
+    it('should skip impossible dates and the verb "may"', () => {
+      expect(valuesOf('February 30 may 5 be fine.', 'date')).toEqual([]);
+    });
+
+    it('should parse 12- and 24-hour times', () => {
+      expect(valuesOf('At 9am, 3:30 p.m., 17:45 and noon.', 'time')).toEqual([
+        ['9am', '09:00'],
+        ['3:30 p.m.', '15:30'],
+        ['17:45', '17:45'],
+        ['noon', '12:00'],
+      ]);
+    });
+
+    it('should join a date and its time into a datetime', () => {
+      const [entity] = extractEntities('Call on Friday at 3pm.', {
+        referenceDate: REFERENCE,
+        types: ['datetime'],
+      });
+      expect(entity).toMatchObject({
+        type: 'datetime',
+        text: 'Friday at 3pm',
+        value: '2026-10-23T15:00',
+      });
+    });
+
+    it('should reject malformed reference dates', () => {
+      expect(() =>
+        extractEntities('today', { referenceDate: '19/10/2026' })
+      ).toThrow('Invalid reference date');
+    });
+
+    it('should format reference dates from local time', () => {
+      expect(toReferenceDate(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+    });
+  });
+
+  describe('numbers', () => {
+    it('should extract money with its currency', () => {
+      const money = extractEntities(
+        'Budget $12,500, EUR 3.2k, 40 GBP and 2 million dollars.',
+        { referenceDate: REFERENCE, types: ['money'] }
+      ).map(entity => [entity.value, entity.currency]);
+      expect(money).toEqual([
+        ['12500', 'USD'],
+        ['3200', 'EUR'],
+        ['40', 'GBP'],
+        ['2000000', 'USD'],
+      ]);
+    });
+
+    it('should extract percentages', () => {
+      expect(valuesOf('Up 15% and 2.5 percent.', 'percent')).toEqual([
+        ['15%', '15'],
+        ['2.5 percent', '2.5'],
+      ]);
+    });
+  });
+
+  describe('links', () => {
+    it('should extract URLs and emails but not file paths', () => {
+      const entities = extractEntities(
+        'See https://example.com/plan, ./notes.md and mail Ops@Example.com.',
+        { referenceDate: REFERENCE, types: ['url', 'email'] }
+      );
+      expect(entities.map(entity => [entity.type, entity.value])).toEqual([
+        ['url', 'https://example.com/plan'],
+        ['email', 'ops@example.com'],
+      ]);
+    });
+  });
+
+  describe('names', () => {
+    it('should tell people from organizations', () => {
+      const entities = extractEntities(
+        'We met Dr. Raj Patel and Sarah Chen from Acme Corp at the University of Oxford.',
+        { referenceDate: REFERENCE, types: ['person', 'organization'] }
+      );
+      expect(entities.map(entity => [entity.type, entity.value])).toEqual([
+        ['person', 'Raj Patel'],
+        ['person', 'Sarah Chen'],
+        ['organization', 'Acme Corp'],
+        ['organization', 'University of Oxford'],
+      ]);
+    });
+
+    it('should not treat calendar words or sentence starts as names', () => {
+      expect(
+        extractEntities('Budget review on Monday. Notes follow.', {
+          referenceDate: REFERENCE,
+          types: ['person', 'organization'],
+        })
+      ).toEqual([]);
+    });
+  });
+
+  describe('action items', () => {
+    const NOTES = [
+      '- Sarah will send the deck.',
+      '- TODO: book a room',
+      '- [ ] Update the roadmap',
+      'Tom to follow up with legal.',
+      'It will rain.',
+    ].join('\n');
+
+    it('should find commitments, TODOs and open checkboxes', () => {
+      const items = extractEntities(NOTES, {
+        referenceDate: REFERENCE,
+        types: ['actionItem'],
+      }).map(entity => [entity.value, entity.owner]);
+      expect(items).toEqual([
+        ['send the deck', 'Sarah'],
+        ['book a room', undefined],
+        ['Update the roadmap', undefined],
+        ['follow up with legal', 'Tom'],
+      ]);
+    });
+
+    it('should raise the confidence of names that own an action item', () => {
+      const tom = extractEntities(NOTES, { referenceDate: REFERENCE }).find(
+        entity => entity.type === 'person' && entity.value === 'Tom'
+      );
+      expect(tom?.confidence).toBeGreaterThanOrEqual(0.75);
+    });
+  });
+
+  it('should return offsets into the text with a confidence', () => {
+    const text = 'Pay Acme Corp $200 by 2026-11-01.';
+    const entities = extractEntities(text, { referenceDate: REFERENCE });
+    expect(entities.map(entity => entity.type)).toEqual([
+      'organization',
+      'money',
+      'date',
+    ]);
+    entities.forEach(entity => {
+      expect(text.slice(entity.start, entity.end)).toBe(entity.text);
+      expect(entity.confidence).toBeGreaterThan(0);
+      expect(entity.confidence).toBeLessThanOrEqual(1);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clusterNearDuplicates,
+  compareFingerprints,
+  findNearDuplicates,
+  fingerprintText,
+  isCurrentFingerprint,
+  MINHASH_SIZE,
+} from '../../src/lib/text/fingerprint';
+
+const REPORT =
+  'The quarterly report shows revenue grew by twelve percent, driven mostly by the new subscription plans launched in March. Costs stayed flat, and the team expects similar growth next quarter if churn stays low.';
+const EDITED_REPORT =
+  'The quarterly report shows revenue grew by 12 percent, driven mostly by the new subscription plans launched in March. Costs stayed flat and the team expects similar growth next quarter if churn stays low!';
+const HIKE =
+  'Our hiking trip starts at the northern trailhead on Saturday morning; bring water, snacks and a rain jacket because the forecast is uncertain.';
+
+function similarity(a: string, b: string) {
+  return compareFingerprints(fingerprintText(a), fingerprintText(b));
+}
+
+describe('Near-duplicate fingerprints', () => {
+  it('should be deterministic and well-formed', () => {
+    const fingerprint = fingerprintText(REPORT);
+    expect(fingerprintText(REPORT)).toEqual(fingerprint);
+    expect(fingerprint.minhash).toHaveLength(MINHASH_SIZE);
+    expect(fingerprint.simhash).toMatch(/^[0-9a-f]{16}$/);
+    expect(isCurrentFingerprint(fingerprint)).toBe(true);
+    expect(isCurrentFingerprint({ ...fingerprint, version: 0 })).toBe(false);
+  });
+
+  it('should ignore casing, punctuation and spacing', () => {
+    const copy = REPORT.toUpperCase().replace(/,/g, '').replace(/ /g, '   ');
+    expect(similarity(REPORT, copy)).toEqual({ jaccard: 1, simhash: 1 });
+  });
+
+  it('should score lightly edited copies high and unrelated text low', () => {
+    const edited = similarity(REPORT, EDITED_REPORT);
+    expect(edited.jaccard).toBeGreaterThan(0.8);
+    expect(edited.simhash).toBeGreaterThan(0.8);
+
+    const unrelated = similarity(REPORT, HIKE);
+    expect(unrelated.jaccard).toBeLessThan(0.2);
+    expect(unrelated.simhash).toBeLessThan(edited.simhash);
+  });
+
+  it('should not match texts without words', () => {
+    expect(similarity('', '...')).toEqual({ jaccard: 0, simhash: 0 });
+  });
+
+  it('should find matches above the threshold, most similar first', () => {
+    const entries = [
+      { id: 'hike', fingerprint: fingerprintText(HIKE) },
+      { id: 'edited', fingerprint: fingerprintText(EDITED_REPORT) },
+      { id: 'copy', fingerprint: fingerprintText(REPORT) },
+    ];
+    const matches = findNearDuplicates(fingerprintText(REPORT), entries, 0.8);
+    expect(matches.map(match => match.id)).toEqual(['copy', 'edited']);
+  });
+
+  it('should cluster copies and leave unique texts out', () => {
+    const entries = [
+      { id: 'a', fingerprint: fingerprintText(REPORT) },
+      { id: 'b', fingerprint: fingerprintText(HIKE) },
+      { id: 'c', fingerprint: fingerprintText(EDITED_REPORT) },
+      { id: 'd', fingerprint: fingerprintText(HIKE.toLowerCase()) },
+      { id: 'e', fingerprint: fingerprintText('Something else entirely.') },
+      { id: 'f', fingerprint: fingerprintText('') },
+      { id: 'g', fingerprint: fingerprintText('') },
+    ];
+    expect(clusterNearDuplicates(entries, 0.8)).toEqual([
+      ['a', 'c'],
+      ['b', 'd'],
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bulletsToParagraph,
+  delimitedToCsv,
+  delimitedToJson,
+  detectDelimiter,
+  keyValueToTable,
+  normalizeWhitespace,
+  toBulletList,
+  toNumberedList,
+  toSentenceCase,
+  toTitleCase,
+} from '../../src/lib/text/formatting';
+
+describe('Formatting Transforms', () => {
+  describe('Lists', () => {
+    it('should turn sentences into a bullet list', () => {
+      expect(toBulletList('Ship Monday. Test first! Any questions?')).toBe(
+        '- Ship Monday.\n- Test first!\n- Any questions?'
+      );
+    });
+
+    it('should renumber existing bullets', () => {
+      expect(toNumberedList('- alpha\n- beta\n* gamma')).toBe(
+        '1. alpha\n2. beta\n3. gamma'
+      );
+    });
+
+    it('should make one item per line when there are several lines', () => {
+      expect(toBulletList('milk\neggs\nbread')).toBe('- milk\n- eggs\n- bread');
+      expect(toNumberedList('milk\neggs\n\nbread')).toBe(
+        '1. milk\n2. eggs\n3. bread'
+      );
+    });
+
+    it('should join bullets into a paragraph', () => {
+      expect(
+        bulletsToParagraph('- ship on monday\n- run tests!\n\n1. done')
+      ).toBe('Ship on monday. Run tests! Done.');
+    });
+  });
+
+  describe('Casing', () => {
+    it('should title case with small-word rules', () => {
+      expect(toTitleCase('the lord of the rings: the return of the king')).toBe(
+        'The Lord of the Rings: The Return of the King'
+      );
+    });
+
+    it('should keep acronyms, mixed case and hyphenated compounds', () => {
+      expect(toTitleCase('using the API on an iPhone for real-time data')).toBe(
+        'Using the API on an iPhone for Real-Time Data'
+      );
+    });
+
+    it('should capitalize the last word even when small', () => {
+      expect(toTitleCase('what are you waiting for')).toBe(
+        'What Are You Waiting For'
+      );
+    });
+
+    it('should sentence case each sentence', () => {
+      expect(toSentenceCase('THIS IS LOUD. And Then I Said NASA Rocks.')).toBe(
+        'This is loud. And then I said NASA rocks.'
+      );
+    });
+
+    it('should capitalize after every terminator', () => {
+      expect(toSentenceCase('hello world. second one')).toBe(
+        'Hello world. Second one'
+      );
+      expect(toSentenceCase('done? yes! "fine." then')).toBe(
+        'Done? Yes! "fine." Then'
+      );
+    });
+
+    it('should skip abbreviations and protected spans', () => {
+      expect(
+        toSentenceCase('we met in the U.S. last year, e.g. in spring')
+      ).toBe('We met in the U.S. last year, e.g. in spring');
+      expect(toSentenceCase('see https://Example.com/Path. next Part')).toBe(
+        'See https://Example.com/Path. Next part'
+      );
+    });
+  });
+
+  describe('Tables', () => {
+    it('should convert key: value runs into a Markdown table', () => {
+      const input = 'Deploy notes\nOwner: Sam\nStatus = done\nETA: 3pm | ok';
+      expect(keyValueToTable(input)).toBe(
+        [
+          'Deploy notes',
+          '| Key | Value |',
+          '| --- | --- |',
+          '| Owner | Sam |',
+          '| Status | done |',
+          '| ETA | 3pm \\| ok |',
+        ].join('\n')
+      );
+    });
+
+    it('should leave single key: value lines alone', () => {
+      expect(keyValueToTable('Note: one line only')).toBe(
+        'Note: one line only'
+      );
+    });
+  });
+
+  describe('Delimited data', () => {
+    it('should detect consistent delimiters', () => {
+      expect(detectDelimiter(['a\tb', 'c\td'])).toBe('\t');
+      expect(detectDelimiter(['a;b;c', 'd;e;f'])).toBe(';');
+      expect(detectDelimiter(['just text', 'more'])).toBeNull();
+    });
+
+    it('should convert tab-separated text to CSV with quoting', () => {
+      expect(delimitedToCsv('name\tnote\nAda\tsays "hi", twice')).toBe(
+        'name,note\nAda,"says ""hi"", twice"'
+      );
+    });
+
+    it('should convert Markdown tables to JSON records', () => {
+      const input =
+        '| name | role |\n| --- | --- |\n| Ada | eng |\n| Bo | pm |';
+      expect(JSON.parse(delimitedToJson(input))).toEqual([
+        { name: 'Ada', role: 'eng' },
+        { name: 'Bo', role: 'pm' },
+      ]);
+    });
+
+    it('should reject text without a consistent delimiter', () => {
+      expect(() => delimitedToCsv('one line\nanother line')).toThrow(
+        'Could not detect a consistent delimiter'
+      );
+    });
+  });
+
+  describe('normalizeWhitespace', () => {
+    it('should collapse spaces, blank lines and odd whitespace', () => {
+      const input =
+        'Hello   world  \r\n\r\n\r\n\r\n  indented​  line\t\t end  ';
+      expect(normalizeWhitespace(input)).toBe(
+        'Hello world\n\n  indented line end'
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  executeInstructions,
+  parseInstructions,
+} from '../../src/lib/text/instructions';
+
+function run(text: string, source: string) {
+  const { instructions, errors } = parseInstructions(source);
+  expect(errors).toEqual([]);
+  return executeInstructions(text, instructions);
+}
+
+describe('Instruction Language', () => {
+  describe('parseInstructions', () => {
+    it('should parse one command per line or per semicolon', () => {
+      const { instructions, errors } = parseInstructions(
+        'replace "a;b" with "c"; bulletize\nmax 5 words'
+      );
+      expect(errors).toEqual([]);
+      expect(instructions.map(i => i.kind)).toEqual([
+        'replace',
+        'bulletize',
+        'max',
+      ]);
+      expect(instructions[0]).toMatchObject({ from: 'a;b', to: 'c', line: 1 });
+      expect(instructions[2]).toMatchObject({ count: 5, unit: 'words' });
+    });
+
+    it('should support escaped quotes and single quotes', () => {
+      const { instructions } = parseInstructions(
+        `replace "say \\"hi\\"" with 'greet'`
+      );
+      expect(instructions[0]).toMatchObject({ from: 'say "hi"', to: 'greet' });
+    });
+
+    it('should report unknown commands with their line', () => {
+      const { instructions, errors } = parseInstructions(
+        'bulletize\ntranslate to French'
+      );
+      expect(instructions).toHaveLength(1);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].line).toBe(2);
+      expect(errors[0].message).toContain('unknown command "translate"');
+    });
+
+    it('should explain malformed known commands', () => {
+      const { errors } = parseInstructions('replace foo with bar');
+      expect(errors[0].message).toContain('replace "old" with "new"');
+    });
+
+    it('should ignore blank lines and comments', () => {
+      const { instructions, errors } = parseInstructions(
+        '\n# tidy up\n\nbulletize\n'
+      );
+      expect(errors).toEqual([]);
+      expect(instructions).toHaveLength(1);
+    });
+  });
+
+  describe('executeInstructions', () => {
+    it('should replace literal text and record the count', () => {
+      const result = run('foo and foo', 'replace "foo" with "bar"');
+      expect(result.text).toBe('bar and bar');
+      expect(result.rules).toEqual([
+        'instruction_1:replace("foo"→"bar")_2_changes',
+      ]);
+    });
+
+    it('should remove sentences containing a phrase', () => {
+      const result = run(
+        'Ship it Monday. Budget is TBD. Tests pass.',
+        'remove sentences containing "tbd"'
+      );
+      expect(result.text).toBe('Ship it Monday. Tests pass.');
+    });
+
+    it('should remove phrases and tidy spacing', () => {
+      const result = run('This is , like , done', 'remove "like"');
+      expect(result.text).toBe('This is,, done');
+    });
+
+    it('should bulletize sentences', () => {
+      const result = run('First point. Second point.', 'bulletize');
+      expect(result.text).toBe('- First point.\n- Second point.');
+    });
+
+    it('should cap words, sentences and characters', () => {
+      expect(run('one two three four', 'max 2 words').text).toBe('one two…');
+      expect(run('One. Two. Three.', 'max 2 sentences').text).toBe('One. Two.');
+      expect(run('alpha beta gamma', 'max 12 characters').text).toBe(
+        'alpha beta…'
+      );
+    });
+
+    it('should uppercase headings only', () => {
+      const result = run(
+        'Status update\nWe shipped the release.\n## Next steps\nPlan more.',
+        'uppercase headings'
+      );
+      expect(result.text).toBe(
+        'STATUS UPDATE\nWe shipped the release.\n## NEXT STEPS\nPlan more.'
+      );
+    });
+
+    it('should run instructions in order', () => {
+      const result = run(
+        'Draft: the plan is TBD. The team agrees. Launch soon.',
+        'remove sentences containing "TBD"\nreplace "team" with "group"\nbulletize'
+      );
+      expect(result.text).toBe('- The group agrees.\n- Launch soon.');
+      expect(result.rules).toHaveLength(3);
+    });
+  });
+});
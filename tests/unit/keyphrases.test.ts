@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { diffTerms } from '../../src/lib/idb/items';
+import {
+  addPhraseCandidates,
+  createPhraseStats,
+  documentTerms,
+  extractKeyphrases,
+  inverseDocumentFrequency,
+  rankKeyphrases,
+} from '../../src/lib/text/keyphrases';
+import { stem } from '../../src/lib/text/stemmer';
+
+const RELEASE_NOTES =
+  'We deploy the API gateway on Fridays. The deployment of the API gateway failed, so we deployed again. Machine learning models need careful deployment.';
+
+function keywordsOf(text: string) {
+  return extractKeyphrases(text).map(({ keyword }) => keyword);
+}
+
+describe('Stemmer', () => {
+  it('should merge inflected and derived forms', () => {
+    const stems = [
+      'deploy',
+      'deployed',
+      'deploying',
+      'deployment',
+      'deployments',
+    ].map(stem);
+    expect(new Set(stems)).toEqual(new Set(['deploy']));
+  });
+
+  it('should handle plurals, doubled consonants and -ied', () => {
+    expect(stem('studies')).toBe('study');
+    expect(stem('studied')).toBe('study');
+    expect(stem('running')).toBe('run');
+    expect(stem('Models')).toBe('model');
+  });
+
+  it('should leave short words and words with digits whole', () => {
+    expect(stem('bus')).toBe('bus');
+    expect(stem('HTTP2')).toBe('http2');
+  });
+});
+
+describe('Key phrases', () => {
+  it('should split candidate phrases at stopwords and punctuation', () => {
+    const keywords = keywordsOf(RELEASE_NOTES);
+    expect(keywords).toContain('machine learning models');
+    expect(keywords).toContain('API gateway');
+    expect(keywords).not.toContain('we');
+  });
+
+  it('should count every form of a stemmed keyword together', () => {
+    const deploy = extractKeyphrases(RELEASE_NOTES).find(
+      ({ keyword }) => keyword === 'deploy'
+    );
+    expect(deploy?.count).toBe(3);
+  });
+
+  it('should keep acronyms in upper case', () => {
+    expect(
+      keywordsOf('Query the SQL database. The SQL database is slow.')
+    ).toEqual(['SQL database', 'query', 'slow']);
+  });
+
+  it('should return scores sorted from highest to lowest', () => {
+    const scores = extractKeyphrases(RELEASE_NOTES).map(({ score }) => score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+    expect(scores.every(score => score > 0)).toBe(true);
+  });
+
+  it('should respect maxKeywords', () => {
+    expect(extractKeyphrases(RELEASE_NOTES, { maxKeywords: 2 })).toHaveLength(
+      2
+    );
+  });
+
+  it('should give the same ranking when counted in chunks', () => {
+    const [first, second] = [
+      RELEASE_NOTES.slice(0, 37),
+      RELEASE_NOTES.slice(37),
+    ];
+    const stats = createPhraseStats();
+    addPhraseCandidates(stats, first);
+    addPhraseCandidates(stats, second);
+    expect(rankKeyphrases(stats)).toEqual(extractKeyphrases(RELEASE_NOTES));
+  });
+});
+
+describe('TF-IDF weighting', () => {
+  it('should weight rare stems above common ones', () => {
+    const corpus = { documents: 10, frequencies: { deploy: 9, gateway: 1 } };
+    expect(inverseDocumentFrequency('gateway', corpus)).toBeGreaterThan(
+      inverseDocumentFrequency('deploy', corpus)
+    );
+    expect(inverseDocumentFrequency('unseen', corpus)).toBeGreaterThan(
+      inverseDocumentFrequency('gateway', corpus)
+    );
+  });
+
+  it('should demote keywords common across saved items', () => {
+    const corpus = { documents: 10, frequencies: { deploy: 10 } };
+    const keywords = extractKeyphrases(RELEASE_NOTES, { corpus }).map(
+      ({ keyword }) => keyword
+    );
+    expect(keywords.indexOf('deploy')).toBeGreaterThan(
+      keywordsOf(RELEASE_NOTES).indexOf('deploy')
+    );
+  });
+
+  it('should list the distinct stems of a document', () => {
+    expect(documentTerms('The deployed API, and deploying it.')).toEqual([
+      'api',
+      'deploy',
+    ]);
+  });
+
+  it('should diff the terms of an edited item', () => {
+    expect(diffTerms(['api', 'deploy'], ['deploy', 'gateway'])).toEqual({
+      added: ['gateway'],
+      removed: ['api'],
+    });
+  });
+});
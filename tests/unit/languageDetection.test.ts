@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectLanguage,
+  knownLanguages,
+  registerLanguageProfile,
+} from '../../src/lib/text/languageDetection';
+
+describe('Language detection', () => {
+  it('should identify common European languages', () => {
+    const samples: Record<string, string> = {
+      en: 'Please send me the latest version of the document before Friday.',
+      de: 'Bitte schicken Sie mir die Unterlagen bis Freitag.',
+      es: 'El cliente se quejó del largo tiempo de entrega y quiere un reembolso.',
+      fr: 'Le client s’est plaint du long délai de livraison.',
+      it: 'Il cliente si è lamentato dei lunghi tempi di consegna e vuole un rimborso.',
+      nl: 'De klant heeft geklaagd over de lange levertijd.',
+    };
+    Object.entries(samples).forEach(([language, text]) => {
+      expect(detectLanguage(text).language).toBe(language);
+    });
+  });
+
+  it('should rank every known language with the best first', () => {
+    const guess = detectLanguage('Wir sehen uns morgen im Büro.');
+    expect(guess.candidates).toHaveLength(knownLanguages().length);
+    expect(guess.candidates[0].language).toBe('de');
+    expect(guess.confidence).toBeGreaterThan(0.3);
+  });
+
+  it('should leave short or ambiguous text undetermined', () => {
+    expect(detectLanguage('Ship it.')).toMatchObject({
+      language: 'und',
+      confidence: 0,
+    });
+    expect(
+      detectLanguage('Inventory management system integration timeline')
+        .language
+    ).toBe('und');
+  });
+
+  it('should ignore links when profiling', () => {
+    expect(
+      detectLanguage(
+        'Siehe https://example.com/la-tarde-del-equipo für Details'
+      ).candidates[0].language
+    ).toBe('de');
+  });
+
+  it('should accept profiles for more languages', () => {
+    registerLanguageProfile(
+      'sv',
+      'Mötet flyttades till eftermiddagen eftersom de flesta i teamet hade andra planer på morgonen. Vi kommer att granska rapporten och sedan bestämma vad som ska hända med projektet.'
+    );
+    expect(knownLanguages()).toContain('sv');
+    expect(
+      detectLanguage('Vi kommer att skicka rapporten till teamet i morgon.')
+        .language
+    ).toBe('sv');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { extractKeyphrases } from '../../src/lib/text/keyphrases';
+import {
+  getLanguageResources,
+  resolveLanguage,
+  supportedLanguages,
+  unsupportedReason,
+} from '../../src/lib/text/languageResources';
+import {
+  measureSentences,
+  readabilityReport,
+} from '../../src/lib/text/readability';
+import { segmentSentences } from '../../src/lib/text/segmenter';
+import { summarize } from '../../src/lib/text/summarizer';
+
+const GERMAN =
+  'Wir treffen uns z.B. am Montag im Büro. Das Projekt ist wichtig. Die Kunden warten auf die neuen Berichte.';
+const SPANISH =
+  'El equipo presentó el informe trimestral. Los resultados del informe son buenos. La Sra. García revisará los resultados mañana.';
+
+function resources(code: string) {
+  const bundle = getLanguageResources(code);
+  if (!bundle) throw new Error(`No resources for ${code}`);
+  return bundle;
+}
+
+describe('Language resources', () => {
+  it('should bundle English, German and Spanish', () => {
+    expect(supportedLanguages()).toEqual(['de', 'en', 'es']);
+    expect(resources('en').features).toContain('rules');
+    expect(resources('de').features).not.toContain('rules');
+  });
+
+  it('should count German syllables without a silent e', () => {
+    const { countSyllables } = resources('de');
+    expect(countSyllables('Straße')).toBe(2);
+    expect(countSyllables('Bäume')).toBe(2);
+    expect(countSyllables('Information')).toBe(4);
+  });
+
+  it('should split Spanish hiatus but not diphthongs', () => {
+    const { countSyllables } = resources('es');
+    expect(countSyllables('ciudad')).toBe(2);
+    expect(countSyllables('leer')).toBe(2);
+    expect(countSyllables('poesía')).toBe(4);
+    expect(countSyllables('que')).toBe(1);
+  });
+
+  it("should keep a language's abbreviations inside the sentence", () => {
+    // German capitalizes nouns, so "z.B. Hunde" looks like a new sentence
+    const text = 'Tiere wie z.B. Hunde und Katzen. Das ist gut.';
+    expect(segmentSentences(text, resources('de').abbreviations)).toHaveLength(
+      2
+    );
+    expect(segmentSentences(text)).toHaveLength(3);
+  });
+
+  it("should score readability with the language's formula", () => {
+    const es = resources('es');
+    const report = readabilityReport(measureSentences(SPANISH, 0, es), es);
+    expect(report.readingEaseFormula).toBe('fernandezHuerta');
+    expect(report.counts.sentences).toBe(3);
+    expect(report.readingEase).not.toBe(report.scores.fleschReadingEase);
+  });
+
+  it('should use the language stopwords and stemmer for key phrases', () => {
+    const keywords = extractKeyphrases(GERMAN, {
+      language: resources('de'),
+    }).map(({ keyword }) => keyword);
+    expect(keywords).toContain('neuen berichte');
+    expect(keywords).not.toContain('z.b');
+    expect(keywords.some(keyword => /\b(?:die|am|im)\b/.test(keyword))).toBe(
+      false
+    );
+  });
+
+  it('should summarize with the language stopwords', () => {
+    const summary = summarize(SPANISH, {
+      sentences: 1,
+      language: resources('es'),
+    });
+    expect(summary.sentences).toHaveLength(1);
+  });
+
+  describe('resolution', () => {
+    it('should detect the language unless one is given', () => {
+      expect(resolveLanguage(GERMAN)).toMatchObject({
+        code: 'de',
+        source: 'detected',
+      });
+      expect(resolveLanguage(GERMAN, 'es')).toMatchObject({
+        code: 'es',
+        source: 'override',
+      });
+      expect(resolveLanguage(GERMAN, 'auto').code).toBe('de');
+    });
+
+    it('should fall back to English for undetermined text', () => {
+      expect(resolveLanguage('Ship it.')).toMatchObject({
+        code: 'en',
+        source: 'default',
+      });
+    });
+
+    it('should explain features a language lacks', () => {
+      const german = resolveLanguage(GERMAN);
+      expect(unsupportedReason(german, 'summary')).toBeUndefined();
+      expect(unsupportedReason(german, 'rules', 'Tone rewriting')).toBe(
+        'Tone rewriting is not available for German text'
+      );
+      expect(
+        unsupportedReason(
+          resolveLanguage('Le client s’est plaint du long délai de livraison.'),
+          'summary'
+        )
+      ).toMatch(/^Summarization is not available for French text: no language/);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLexicon,
+  compileLexicon,
+  detectCase,
+} from '../../src/lib/text/lexicon';
+
+describe('Lexicon Engine', () => {
+  const formal = compileLexicon({
+    hey: 'hello',
+    yeah: 'yes',
+    wanna: 'want to',
+    'a lot': 'many',
+    a: 'one',
+  });
+
+  describe('detectCase', () => {
+    it('should classify lower, Title and UPPER casing', () => {
+      expect(detectCase('hello')).toBe('lower');
+      expect(detectCase('Hello')).toBe('title');
+      expect(detectCase('HELLO')).toBe('upper');
+      expect(detectCase('I')).toBe('title');
+    });
+  });
+
+  describe('applyLexicon', () => {
+    it('should preserve source casing', () => {
+      const result = applyLexicon('Hey, yeah. HEY!', formal);
+      expect(result.text).toBe('Hello, yes. HELLO!');
+    });
+
+    it('should prefer the longest phrase match', () => {
+      const result = applyLexicon('We have a lot of\ntime and a plan.', formal);
+      expect(result.text).toBe('We have many of\ntime and one plan.');
+      expect(result.swaps[0]).toEqual({
+        from: 'a lot',
+        to: 'many',
+        start: 8,
+        end: 13,
+      });
+    });
+
+    it('should not match phrases across punctuation', () => {
+      const result = applyLexicon('Give me a. Lot more.', formal);
+      expect(result.text).toBe('Give me one. Lot more.');
+    });
+
+    it('should replace in a single pass without chaining', () => {
+      const swapBack = compileLexicon({ hello: 'hey', hey: 'hello' });
+      const result = applyLexicon('hey hello', swapBack);
+      expect(result.text).toBe('hello hey');
+      expect(result.swaps).toHaveLength(2);
+    });
+
+    it('should only match whole words', () => {
+      const result = applyLexicon('They said heyday', formal);
+      expect(result.text).toBe('They said heyday');
+      expect(result.swaps).toEqual([]);
+    });
+
+    it('should report spans against the input text', () => {
+      const input = 'I wanna go';
+      const result = applyLexicon(input, formal);
+      expect(result.text).toBe('I want to go');
+      const [swap] = result.swaps;
+      expect(input.slice(swap.start, swap.end)).toBe('wanna');
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { IDBPDatabase } from 'idb';
+import type { AssistantDB } from '../../src/lib/idb/db';
+import {
+  estimateSize,
+  LRUManager,
+  type CacheEntry,
+} from '../../src/lib/idb/models';
+
+// Minimal in-memory stand-in for the parts of the idb wrapper LRUManager uses
+class FakeCacheDB {
+  entries = new Map<string, CacheEntry>();
+  writes = 0;
+  transactions = 0;
+  // Entries read through cursors
+  visited = 0;
+
+  async get(_store: string, key: string) {
+    const entry = this.entries.get(key);
+    return entry && { ...entry };
+  }
+
+  async put(_store: string, entry: CacheEntry) {
+    this.writes++;
+    this.entries.set(entry.cacheKey, { ...entry });
+  }
+
+  async delete(_store: string, key: string) {
+    this.entries.delete(key);
+  }
+
+  async count() {
+    return this.entries.size;
+  }
+
+  async clear() {
+    this.entries.clear();
+  }
+
+  transaction() {
+    this.transactions++;
+    const store = {
+      get: (key: string) => this.get('cacheLRU', key),
+      put: (entry: CacheEntry) => this.put('cacheLRU', entry),
+      openCursor: () => this.cursor(Array.from(this.entries.values())),
+      index: () => ({
+        openCursor: (_query: null, direction?: string) => {
+          const sorted = Array.from(this.entries.values()).sort(
+            (a, b) => a.lastAccessedAt - b.lastAccessedAt
+          );
+          return this.cursor(direction === 'prev' ? sorted.reverse() : sorted);
+        },
+      }),
+    };
+    return { store, done: Promise.resolve() };
+  }
+
+  private cursor(entries: CacheEntry[], position = 0): unknown {
+    if (position >= entries.length) return Promise.resolve(null);
+    const entry = entries[position];
+    this.visited++;
+    return Promise.resolve({
+      value: { ...entry },
+      delete: async () => {
+        this.entries.delete(entry.cacheKey);
+      },
+      continue: () => this.cursor(entries, position + 1),
+    });
+  }
+}
+
+function setup(options = {}) {
+  const db = new FakeCacheDB();
+  const manager = new LRUManager(
+    async () => db as unknown as IDBPDatabase<AssistantDB>,
+    options
+  );
+  return { db, manager };
+}
+
+describe('LRUManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store and read entries', async () => {
+    const { manager } = setup();
+
+    await manager.set('a', { text: 'hello' }, { version: 'v1' });
+    const entry = await manager.get('a');
+
+    expect(entry?.value).toEqual({ text: 'hello' });
+    expect(entry?.version).toBe('v1');
+    expect(entry?.size).toBe(estimateSize({ text: 'hello' }));
+    expect(await manager.get('missing')).toBeUndefined();
+  });
+
+  it('should evict the least recently used entries over the count budget', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ maxEntries: 2 });
+
+    vi.setSystemTime(1000);
+    await manager.set('a', 1);
+    vi.setSystemTime(2000);
+    await manager.set('b', 2);
+    vi.setSystemTime(3000);
+    await manager.get('a');
+    vi.setSystemTime(4000);
+    await manager.set('c', 3);
+
+    expect(Array.from(db.entries.keys()).sort()).toEqual(['a', 'c']);
+  });
+
+  it('should evict over the byte budget', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ maxBytes: 40 });
+
+    vi.setSystemTime(1000);
+    await manager.set('old', 'x'.repeat(10));
+    vi.setSystemTime(2000);
+    await manager.set('new', 'y'.repeat(10));
+
+    expect(Array.from(db.entries.keys())).toEqual(['new']);
+  });
+
+  it('should treat expired entries as missing', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ ttlMs: 1000 });
+
+    vi.setSystemTime(0);
+    await manager.set('a', 1);
+    await manager.set('b', 2, { ttlMs: 5000 });
+
+    vi.setSystemTime(2000);
+    expect(await manager.get('a')).toBeUndefined();
+    expect((await manager.get('b'))?.value).toBe(2);
+    expect(db.entries.has('a')).toBe(false);
+  });
+
+  it('should batch access time updates', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ flushDelayMs: 2000 });
+
+    vi.setSystemTime(1000);
+    await manager.set('a', 1);
+    await manager.set('b', 2);
+    const writes = db.writes;
+
+    vi.setSystemTime(5000);
+    for (let i = 0; i < 5; i++) {
+      await manager.get('a');
+      await manager.get('b');
+    }
+    expect(db.writes).toBe(writes);
+
+    await manager.flush();
+    expect(db.writes).toBe(writes + 2);
+    expect(db.entries.get('a')?.lastAccessedAt).toBe(5000);
+  });
+
+  it('should flush batched reads on a timer', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ flushDelayMs: 2000 });
+
+    vi.setSystemTime(1000);
+    await manager.set('a', 1);
+    vi.setSystemTime(3000);
+    await manager.get('a');
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(db.entries.get('a')?.lastAccessedAt).toBe(3000);
+  });
+
+  it('should delete entries matching a predicate', async () => {
+    const { db, manager } = setup();
+
+    await manager.set('old', 1, { version: 'v1' });
+    await manager.set('new', 2, { version: 'v2' });
+
+    expect(await manager.evict(entry => entry.version !== 'v2')).toBe(1);
+    expect(Array.from(db.entries.keys())).toEqual(['new']);
+  });
+
+  it('should only walk the store once the budget may be exceeded', async () => {
+    const { db, manager } = setup({ maxEntries: 10 });
+
+    await manager.set('a', 1);
+    const afterFirstPass = db.transactions;
+    await manager.set('b', 2);
+    await manager.set('c', 3);
+
+    expect(db.transactions).toBe(afterFirstPass);
+  });
+
+  it('should only read the entries it evicts once the cache is full', async () => {
+    vi.useFakeTimers();
+    const { db, manager } = setup({ maxEntries: 50 });
+
+    for (let i = 0; i < 60; i++) {
+      vi.setSystemTime(1000 + i);
+      await manager.set(`key${i}`, i);
+    }
+    db.visited = 0;
+    vi.setSystemTime(5000);
+    await manager.set('latest', 'x');
+
+    expect(db.visited).toBe(1);
+    expect(db.entries.size).toBe(50);
+    expect(db.entries.has('key10')).toBe(false);
+    expect(db.entries.has('key11')).toBe(true);
+  });
+
+  it('should keep the totals right when entries are overwritten', async () => {
+    const { db, manager } = setup({ maxEntries: 2 });
+
+    await manager.set('a', 1);
+    await manager.set('a', 2);
+    await manager.set('b', 3);
+
+    expect(Array.from(db.entries.keys()).sort()).toEqual(['a', 'b']);
+  });
+});
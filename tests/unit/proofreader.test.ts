@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyProofreadFixes,
+  describeProofreadFixes,
+  proofread,
+  proofreadAndFix,
+  type ProofreadRule,
+} from '../../src/lib/text/proofreader';
+
+function fix(text: string, rules?: ProofreadRule[]): string {
+  return applyProofreadFixes(text, proofread(text, { rules })).text;
+}
+
+describe('Proofreader', () => {
+  it('should collapse doubled words but keep grammatical doubles', () => {
+    expect(fix('We saw the the movie.', ['doubledWord'])).toBe(
+      'We saw the movie.'
+    );
+    expect(fix('It is\nis done.', ['doubledWord'])).toBe('It is\nis done.');
+    expect(fix('She had had enough.', ['doubledWord'])).toBe(
+      'She had had enough.'
+    );
+  });
+
+  it('should catch doubled words with non-ASCII letters or differing case', () => {
+    expect(fix('Un café café noir.', ['doubledWord'])).toBe('Un café noir.');
+    expect(fix('Is is it done? What it is is fine.', ['doubledWord'])).toBe(
+      'Is it done? What it is is fine.'
+    );
+    expect(fix('Über über alles.', ['doubledWord'])).toBe('Über alles.');
+  });
+
+  it('should fix a/an agreement by sound', () => {
+    expect(fix('I ate a apple and an banana.', ['article'])).toBe(
+      'I ate an apple and a banana.'
+    );
+    expect(fix('A hour at a university, an unit.', ['article'])).toBe(
+      'An hour at a university, a unit.'
+    );
+    expect(fix('It was a honest mistake by a FBI agent.', ['article'])).toBe(
+      'It was an honest mistake by a FBI agent.'
+    );
+  });
+
+  it('should report acronym articles without applying them', () => {
+    const [suggestion] = proofread('He is a FBI agent.', {
+      rules: ['article'],
+    });
+    expect(suggestion).toMatchObject({ replacement: 'an', safe: false });
+  });
+
+  it('should capitalize sentence starts and the pronoun I', () => {
+    expect(
+      fix('It works. then it stops! why? i know.', ['capitalization'])
+    ).toBe('It works. Then it stops! Why? I know.');
+  });
+
+  it('should not capitalize after abbreviations, decimals or ellipses', () => {
+    const text = 'Bring fruit, e.g. apples. Version 3.5. and more... maybe.';
+    expect(fix(text, ['capitalization'])).toBe(text);
+  });
+
+  it('should report a lowercase start as unsafe', () => {
+    const [suggestion] = proofread('and then it ended.', {
+      rules: ['capitalization'],
+    });
+    expect(suggestion).toMatchObject({
+      start: 0,
+      replacement: 'A',
+      safe: false,
+    });
+    expect(fix('and then it ended.', ['capitalization'])).toBe(
+      'and then it ended.'
+    );
+  });
+
+  it('should move a space before a comma to after it', () => {
+    expect(fix('It works ,ok and fine ;yes.', ['spacing'])).toBe(
+      'It works, ok and fine; yes.'
+    );
+    expect(fix('Use .NET :D', ['spacing'])).toBe('Use .NET :D');
+  });
+
+  it('should fix spacing around punctuation', () => {
+    expect(fix('Hello , world !Yes,no.  Done.End here', ['spacing'])).toBe(
+      'Hello, world! Yes, no. Done. End here'
+    );
+    expect(fix('Costs 1,000 at 10:30 :) ok ...', ['spacing'])).toBe(
+      'Costs 1,000 at 10:30 :) ok ...'
+    );
+  });
+
+  it('should report unbalanced brackets and quotes without fixing them', () => {
+    const suggestions = proofread('He said (quietly "no.', {
+      rules: ['unbalanced'],
+    });
+    expect(suggestions.map(s => [s.text, s.start, s.safe])).toEqual([
+      ['(', 8, false],
+      ['"', 17, false],
+    ]);
+    expect(
+      proofread('1) first\n2) second (ok)', { rules: ['unbalanced'] })
+    ).toEqual([]);
+  });
+
+  it('should fix common confusables', () => {
+    expect(
+      fix("Its a test. It has it's own rules. We could of won. Your welcome.", [
+        'confusable',
+      ])
+    ).toBe(
+      "It's a test. It has its own rules. We could have won. You're welcome."
+    );
+    expect(fix('More then that, alot of it.', ['confusable'])).toBe(
+      'More than that, a lot of it.'
+    );
+  });
+
+  it('should leave protected spans alone', () => {
+    const text = 'Run `the the` and see https://a.io/the the docs.';
+    expect(proofread(text, { rules: ['doubledWord'] })).toEqual([]);
+  });
+
+  it('should run only the enabled rules', () => {
+    const text = 'i saw the the a apple';
+    expect(
+      proofread(text, { rules: ['doubledWord'] }).map(s => s.rule)
+    ).toEqual(['doubledWord']);
+    expect(new Set(proofread(text).map(s => s.rule))).toEqual(
+      new Set(['capitalization', 'doubledWord', 'article'])
+    );
+  });
+
+  it('should apply all safe fixes in one pass and describe each', () => {
+    const text = 'We saw the the movie . it was a awesome one.';
+    const { text: fixed, applied } = applyProofreadFixes(text, proofread(text));
+
+    expect(fixed).toBe('We saw the movie. It was an awesome one.');
+    expect(describeProofreadFixes(applied)).toEqual([
+      'proofread_4_fixes',
+      'proofread_doubledWord:the the→the@7-14',
+      'proofread_spacing: .→.@20-22',
+      'proofread_capitalization:i→I@23-24',
+      'proofread_article:a→an@30-31',
+    ]);
+  });
+
+  it('should apply overlapping fixes in later passes', () => {
+    const text = 'We saw a a apple and i i left.';
+    expect(fix(text)).toBe('We saw a apple and I I left.');
+
+    const { text: fixed, applied } = proofreadAndFix(text);
+    expect(fixed).toBe('We saw an apple and I left.');
+    expect(describeProofreadFixes(applied)).toEqual([
+      'proofread_5_fixes',
+      'proofread_doubledWord:a a→a@7-10',
+      'proofread_article:a→an@7-10',
+      'proofread_capitalization:i→I@21-22',
+      'proofread_doubledWord:I I→I@21-24',
+      'proofread_capitalization:i→I@23-24',
+    ]);
+  });
+});
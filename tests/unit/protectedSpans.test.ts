@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectProtectedSpans,
+  mapUnprotected,
+} from '../../src/lib/text/protectedSpans';
+
+function kinds(text: string) {
+  return detectProtectedSpans(text).map(span => [span.kind, span.text]);
+}
+
+describe('Protected Spans', () => {
+  describe('detectProtectedSpans', () => {
+    it('should detect URLs and paths without trailing punctuation', () => {
+      expect(
+        kinds('See https://example.com/use/part. Or /use/part, too')
+      ).toEqual([
+        ['url', 'https://example.com/use/part'],
+        ['url', '/use/part'],
+      ]);
+    });
+
+    it('should detect emails before mentions', () => {
+      expect(kinds('Mail jo@example.com or ping @jo.dev')).toEqual([
+        ['email', 'jo@example.com'],
+        ['mention', '@jo.dev'],
+      ]);
+    });
+
+    it('should detect inline and fenced code', () => {
+      const text = 'Run `use part` then\n```\nuse thing\n```';
+      expect(kinds(text)).toEqual([
+        ['code', '`use part`'],
+        ['code', '```\nuse thing\n```'],
+      ]);
+    });
+
+    it('should detect numbers with units', () => {
+      expect(kinds('Uses 3.5 GB, 20% and $1,200 over 10ms')).toEqual([
+        ['number', '3.5 GB'],
+        ['number', '20%'],
+        ['number', '$1,200'],
+        ['number', '10ms'],
+      ]);
+    });
+
+    it('should detect quoted text but not apostrophes', () => {
+      expect(kinds(`It's "really use" and 'kinda' fine`)).toEqual([
+        ['quote', '"really use"'],
+        ['quote', "'kinda'"],
+      ]);
+    });
+
+    it('should detect hashtags', () => {
+      expect(kinds('Tagged #release and #v2')).toEqual([
+        ['hashtag', '#release'],
+        ['hashtag', '#v2'],
+      ]);
+    });
+
+    it('should merge overlapping candidates into the outer span', () => {
+      expect(kinds('"see https://a.io"')).toEqual([
+        ['quote', '"see https://a.io"'],
+      ]);
+    });
+  });
+
+  describe('mapUnprotected', () => {
+    it('should only rewrite unprotected segments', () => {
+      const text = 'use `use` at /use/part and use it';
+      const result = mapUnprotected(text, segment =>
+        segment.replace(/\buse\b/g, 'utilize')
+      );
+      expect(result).toBe('utilize `use` at /use/part and utilize it');
+    });
+
+    it('should pass segment offsets into the original text', () => {
+      const offsets: number[] = [];
+      mapUnprotected('a @b c', (segment, offset) => {
+        offsets.push(offset);
+        return segment;
+      });
+      expect(offsets).toEqual([0, 4]);
+    });
+  });
+});
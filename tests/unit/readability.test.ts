@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  amstadReadingEase,
+  automatedReadabilityIndex,
+  colemanLiau,
+  countSyllables,
+  difficultyLevel,
+  fernandezHuertaReadingEase,
+  fleschKincaidGrade,
+  gunningFog,
+  measureReadability,
+  measureSentences,
+  readabilityReport,
+  smogIndex,
+} from '../../src/lib/text/readability';
+
+const MIXED =
+  'The cat slept. Notwithstanding considerable organizational complexity, the international committee unanimously recommended comprehensive administrative restructuring immediately.';
+
+describe('Readability', () => {
+  it('should count syllables with the silent-e and -le rules', () => {
+    expect(countSyllables('cat')).toBe(1);
+    expect(countSyllables('make')).toBe(1);
+    expect(countSyllables('table')).toBe(2);
+    expect(countSyllables('organization')).toBe(5);
+  });
+
+  it('should compute each formula from counts', () => {
+    expect(fleschKincaidGrade(1, 10, 15)).toBe(6);
+    expect(gunningFog(2, 20, 2)).toBe(8);
+    expect(smogIndex(30, 30)).toBe(8.8);
+    expect(colemanLiau(1, 100, 450)).toBe(10.4);
+    expect(automatedReadabilityIndex(2, 20, 100)).toBe(7.1);
+  });
+
+  it('should compute the German and Spanish reading-ease variants', () => {
+    // 180 - 10 - 58.5 * 2
+    expect(amstadReadingEase(2, 20, 40)).toBe(53);
+    // 206.84 - 60 * 2 - 102 * 0.1
+    expect(fernandezHuertaReadingEase(2, 20, 40)).toBe(77);
+    expect(amstadReadingEase(0, 0, 0)).toBe(0);
+  });
+
+  it('should report English reading ease as Flesch by default', () => {
+    const report = readabilityReport(measureSentences(MIXED));
+    expect(report.readingEaseFormula).toBe('flesch');
+    expect(report.readingEase).toBe(report.scores.fleschReadingEase);
+  });
+
+  it('should return zero for empty text instead of dividing by zero', () => {
+    const report = readabilityReport(measureSentences(''));
+    expect(Object.values(report.scores)).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(report.sentences).toEqual([]);
+    expect(report.readingTimeSeconds).toBe(0);
+  });
+
+  it('should count words, sentences and characters', () => {
+    const metrics = measureReadability('The cat slept. The dog ran away.');
+    expect(metrics.sentences).toBe(2);
+    expect(metrics.words).toBe(7);
+
+    const { counts } = readabilityReport(
+      measureSentences("It's a well-known fact.")
+    );
+    expect(counts.words).toBe(4);
+    expect(counts.characters).toBe(17);
+    expect(counts.letters).toBe(17);
+  });
+
+  it('should not count hyphenated or inflected words as complex', () => {
+    const { counts } = readabilityReport(
+      measureSentences('Twenty-seventh boxes were created. Beautiful.')
+    );
+    expect(counts.polysyllables).toBeGreaterThanOrEqual(2);
+    expect(counts.complexWords).toBe(1);
+  });
+
+  it('should rate each sentence with offsets into the text', () => {
+    const report = readabilityReport(measureSentences(MIXED));
+
+    expect(report.sentences).toHaveLength(2);
+    const [easy, hard] = report.sentences;
+    expect(MIXED.slice(easy.start, easy.end)).toBe('The cat slept.');
+    expect(easy.level).toBe('easy');
+    expect(MIXED.slice(hard.start, hard.end)).toMatch(/^Notwithstanding/);
+    expect(hard.level).toBe('veryHard');
+    expect(hard.grade).toBeGreaterThan(easy.grade);
+  });
+
+  it('should shift offsets for chunked input', () => {
+    const [sentence] = measureSentences('Short one.', 100);
+    expect(sentence.difficulty.start).toBe(100);
+    expect(sentence.difficulty.end).toBe(110);
+  });
+
+  it('should map grades to difficulty levels', () => {
+    expect(difficultyLevel(3)).toBe('easy');
+    expect(difficultyLevel(8)).toBe('easy');
+    expect(difficultyLevel(10)).toBe('moderate');
+    expect(difficultyLevel(14)).toBe('hard');
+    expect(difficultyLevel(20)).toBe('veryHard');
+  });
+
+  it('should estimate reading and speaking time', () => {
+    const text = Array(238).fill('word').join(' ') + '.';
+    const report = readabilityReport(measureSentences(text));
+    expect(report.readingTimeSeconds).toBe(60);
+    expect(report.speakingTimeSeconds).toBe(95);
+  });
+
+  it('should agree with the single-pass metrics', () => {
+    const report = readabilityReport(measureSentences(MIXED));
+    const metrics = measureReadability(MIXED);
+    expect(report.scores.fleschReadingEase).toBe(metrics.readingEase);
+    expect(report.scores.fleschKincaidGrade).toBe(metrics.grade);
+  });
+});
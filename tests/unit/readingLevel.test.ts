@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { measureReadability } from '../../src/lib/text/readability';
+import {
+  describeReadingLevel,
+  dropParentheticals,
+  rewriteToReadingLevel,
+  simplifyWords,
+  splitLongSentences,
+} from '../../src/lib/text/readingLevel';
+
+const COMPLEX =
+  'In order to facilitate the implementation of the methodology (which was developed by numerous individuals over several years), we will utilize additional resources, and we will subsequently demonstrate the optimal configuration prior to the commencement of the evaluation; participants should ascertain whether sufficient documentation exists.';
+
+describe('Reading level rewrite', () => {
+  it('should swap complex words for plain ones and keep casing', () => {
+    const result = simplifyWords('Utilize the tool in order to commence.');
+    expect(result.text).toBe('Use the tool to start.');
+    expect(result.rules).toContain('reading_level_swap:Utilize→Use');
+  });
+
+  it('should leave protected spans alone', () => {
+    const result = simplifyWords('Run `utilize --all` to utilize it.');
+    expect(result.text).toBe('Run `utilize --all` to use it.');
+  });
+
+  it('should drop multi-word parentheticals only', () => {
+    const result = dropParentheticals(
+      'The tool (which we built last year) works. Item(s) and (API) stay.'
+    );
+    expect(result.text).toBe('The tool works. Item(s) and (API) stay.');
+    expect(result.removed).toBe(1);
+  });
+
+  it('should split long sentences at a conjunction near the middle', () => {
+    const result = splitLongSentences(
+      'We looked at every part of the old plan with care, but we could not find the reason it failed.',
+      10
+    );
+    expect(result.text).toBe(
+      'We looked at every part of the old plan with care. But we could not find the reason it failed.'
+    );
+    expect(result.split).toBe(1);
+  });
+
+  it('should drop "and" and turn semicolons into sentence breaks', () => {
+    const result = splitLongSentences(
+      'The team wrote all of the code for the new app, and they tested it; the users liked every single part of it.',
+      8
+    );
+    expect(result.text).toBe(
+      'The team wrote all of the code for the new app. They tested it. The users liked every single part of it.'
+    );
+  });
+
+  it('should not split a list at its serial comma', () => {
+    const text =
+      'We painted the old fence in the back yard red, white, and blue before the end of the summer.';
+    expect(splitLongSentences(text, 8)).toEqual({ text, split: 0 });
+  });
+
+  it('should keep protected spans whole in both halves of a split', () => {
+    const result = splitLongSentences(
+      'First we ran `c; d` on every one of the old servers, but the fix was to run `a; b` in the shell before we could go home.',
+      8
+    );
+    expect(result.text).toBe(
+      'First we ran `c; d` on every one of the old servers. But the fix was to run `a; b` in the shell before we could go home.'
+    );
+    expect(result.split).toBe(1);
+  });
+
+  it('should leave words that are also nouns alone', () => {
+    const text = 'Show your parking permit at the purchase desk.';
+    expect(simplifyWords(text).text).toBe(text);
+  });
+
+  it('should lower the grade towards the target', () => {
+    const result = rewriteToReadingLevel(COMPLEX, { grade: 8 });
+
+    expect(result.after.grade).toBeLessThan(result.before.grade);
+    expect(result.after.sentences).toBeGreaterThan(1);
+    expect(result.text).not.toContain('utilize');
+    expect(result.text).not.toContain('(which');
+    expect(result.rules).toContain('reading_level_swap:utilize→use');
+    expect(result.rules).toContain('reading_level_parentheticals_1_removed');
+  });
+
+  it('should not touch text already at the target', () => {
+    const text = 'The cat sat on the mat. It was warm.';
+    const result = rewriteToReadingLevel(text, { grade: 8 });
+    expect(result.text).toBe(text);
+    expect(result.rules).toEqual([]);
+  });
+
+  it('should be deterministic', () => {
+    expect(rewriteToReadingLevel(COMPLEX, { grade: 6 })).toEqual(
+      rewriteToReadingLevel(COMPLEX, { grade: 6 })
+    );
+  });
+
+  it('should describe the grade change', () => {
+    const before = measureReadability(COMPLEX);
+    const after = rewriteToReadingLevel(COMPLEX, { grade: 8 }).after;
+    expect(describeReadingLevel(8, before, after)).toBe(
+      `reading_level_grade_8:${before.grade}→${after.grade}`
+    );
+  });
+});
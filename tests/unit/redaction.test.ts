@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeRedaction,
+  detectPii,
+  redact,
+  rehydrate,
+} from '../../src/lib/text/redaction';
+
+function kindsOf(text: string) {
+  return detectPii(text).map(match => [match.kind, match.text]);
+}
+
+describe('PII Redaction', () => {
+  describe('detectPii', () => {
+    it('should detect emails without trailing punctuation', () => {
+      expect(kindsOf('Mail jane.doe+work@corp.example.org.')).toEqual([
+        ['email', 'jane.doe+work@corp.example.org'],
+      ]);
+    });
+
+    it('should detect phone numbers in common formats', () => {
+      expect(
+        kindsOf('Call (555) 123-4567 or +44 20 7946 0958 or 5551234567.')
+      ).toEqual([
+        ['phone', '(555) 123-4567'],
+        ['phone', '+44 20 7946 0958'],
+        ['phone', '5551234567'],
+      ]);
+    });
+
+    it('should only flag Luhn-valid card numbers', () => {
+      expect(kindsOf('Card 4111 1111 1111 1111 ok')).toEqual([
+        ['card', '4111 1111 1111 1111'],
+      ]);
+      expect(
+        kindsOf('Card 4111 1111 1111 1112 bad').map(([kind]) => kind)
+      ).not.toContain('card');
+    });
+
+    it('should detect valid IBANs', () => {
+      expect(kindsOf('Pay to GB82 WEST 1234 5698 7654 32 today')).toEqual([
+        ['iban', 'GB82 WEST 1234 5698 7654 32'],
+      ]);
+      expect(
+        kindsOf('Pay to GB82 WEST 1234 5698 7654 33').map(([kind]) => kind)
+      ).not.toContain('iban');
+    });
+
+    it('should detect IPv4 and IPv6 addresses', () => {
+      expect(kindsOf('Hosts 10.0.0.12 and 2001:db8::ff00:42:8329.')).toEqual([
+        ['ip', '10.0.0.12'],
+        ['ip', '2001:db8::ff00:42:8329'],
+      ]);
+      expect(kindsOf('Version 300.1.2.3 at 10:30')).toEqual([]);
+    });
+
+    it('should detect national ID patterns', () => {
+      expect(kindsOf('SSN 123-45-6789, NINO AB 12 34 56 C')).toEqual([
+        ['nationalId', '123-45-6789'],
+        ['nationalId', 'AB 12 34 56 C'],
+      ]);
+      expect(kindsOf('SSN 000-45-6789').map(([kind]) => kind)).not.toContain(
+        'nationalId'
+      );
+    });
+
+    it('should ignore dates, decimals and short numbers', () => {
+      expect(
+        kindsOf('On 2024-01-15 pi was 3.14159265 and 12345 users')
+      ).toEqual([]);
+    });
+
+    it('should restrict detection to the requested kinds', () => {
+      const matches = detectPii('a@b.com 10.0.0.1', ['ip']);
+      expect(matches.map(match => match.kind)).toEqual(['ip']);
+    });
+  });
+
+  describe('redact', () => {
+    const input = 'Ping a@corp.com, then b@corp.com, then a@corp.com again.';
+
+    it('should mask matches without keeping a mapping', () => {
+      const result = redact(input, { mode: 'mask' });
+      expect(result.text).toBe('Ping ****, then ****, then **** again.');
+      expect(result.entries).toEqual([]);
+    });
+
+    it('should use numbered placeholders per kind', () => {
+      const result = redact(`${input} IP 10.0.0.1`, { mode: 'placeholder' });
+      expect(result.text).toBe(
+        'Ping [EMAIL_1], then [EMAIL_2], then [EMAIL_1] again. IP [IP_1]'
+      );
+      expect(result.entries).toHaveLength(3);
+    });
+
+    it('should use consistent pseudonyms', () => {
+      const result = redact(input, { mode: 'pseudonym' });
+      expect(result.text).toBe(
+        'Ping person1@example.com, then person2@example.com, then person1@example.com again.'
+      );
+    });
+
+    it('should fall back to placeholders when a pseudonym range runs out', () => {
+      const phones = Array.from(
+        { length: 101 },
+        (_, i) => `+1 212 555 ${String(1000 + i)}`
+      );
+      const phoneText = redact(phones.join(', '), { mode: 'pseudonym' }).text;
+      expect(phoneText).toContain('555-0199');
+      expect(phoneText).not.toContain('555-01100');
+      expect(phoneText.endsWith('[PHONE_100], [PHONE_101]')).toBe(true);
+
+      const ips = Array.from(
+        { length: 763 },
+        (_, i) => `10.0.${Math.floor(i / 256)}.${i % 256}`
+      );
+      const result = redact(ips.join(' '), { mode: 'pseudonym' });
+      const replacements = result.entries.map(entry => entry.replacement);
+      expect(replacements.slice(253, 256)).toEqual([
+        '192.0.2.254',
+        '198.51.100.1',
+        '198.51.100.2',
+      ]);
+      expect(replacements[761]).toBe('203.0.113.254');
+      expect(replacements[762]).toBe('[IP_763]');
+      expect(new Set(replacements).size).toBe(763);
+      expect(rehydrate(result.text, result.entries)).toBe(ips.join(' '));
+    });
+
+    it('should reuse entries from earlier runs', () => {
+      const first = redact('Mail a@corp.com', { mode: 'placeholder' });
+      const second = redact('Mail c@corp.com and a@corp.com', {
+        mode: 'placeholder',
+        entries: first.entries,
+      });
+      expect(second.text).toBe('Mail [EMAIL_2] and [EMAIL_1]');
+    });
+
+    it('should describe what was redacted', () => {
+      const { matches } = redact(input, { mode: 'mask' });
+      expect(describeRedaction('mask', matches)).toEqual([
+        'redact_mask_3_matches',
+        'redact_email_3',
+      ]);
+    });
+  });
+
+  describe('rehydrate', () => {
+    it('should restore placeholders and pseudonyms', () => {
+      const input =
+        'Email a@corp.com from 10.0.0.1 and 10.0.0.2, card 4111-1111-1111-1111.';
+      for (const mode of ['placeholder', 'pseudonym'] as const) {
+        const result = redact(input, { mode });
+        expect(result.text).not.toContain('a@corp.com');
+        expect(rehydrate(result.text, result.entries)).toBe(input);
+      }
+    });
+
+    it('should not restore inside longer tokens', () => {
+      const entries = [
+        { kind: 'ip' as const, original: '10.0.0.1', replacement: '192.0.2.1' },
+      ];
+      expect(rehydrate('192.0.2.1 vs 192.0.2.10', entries)).toBe(
+        '10.0.0.1 vs 192.0.2.10'
+      );
+    });
+  });
+});
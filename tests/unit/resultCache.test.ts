@@ -0,0 +1,209 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  cacheKey,
+  normalizeText,
+  ResultCache,
+  type PersistentTier,
+} from '../../src/lib/workers/resultCache';
+import { hashString, stableStringify } from '../../src/lib/utils/hash';
+
+// Map-backed stand-in for the cacheLRU store
+function memoryTier(): PersistentTier & { entries: Map<string, unknown> } {
+  const entries = new Map<string, unknown>();
+  return {
+    entries,
+    get: async key => entries.get(key),
+    set: async (key, value) => {
+      entries.set(key, value);
+    },
+    count: async () => entries.size,
+    clear: async () => entries.clear(),
+  };
+}
+
+function runner(result: unknown = { text: 'done' }) {
+  return vi.fn(async () => ({ result, elapsedMs: 25 }));
+}
+
+describe('hash helpers', () => {
+  it('should hash deterministically to 14 hex digits', () => {
+    expect(hashString('hello')).toBe(hashString('hello'));
+    expect(hashString('hello')).not.toBe(hashString('hello!'));
+    expect(hashString('hello', 1)).not.toBe(hashString('hello'));
+    expect(hashString('hello')).toMatch(/^[0-9a-f]{14}$/);
+  });
+
+  it('should stringify objects independent of key order', () => {
+    expect(stableStringify({ b: 1, a: { d: [1, 2], c: 'x' } })).toBe(
+      stableStringify({ a: { c: 'x', d: [1, 2] }, b: 1 })
+    );
+    expect(stableStringify({ a: undefined, b: 2 })).toBe('{"b":2}');
+  });
+
+  it('should stringify rule tables with patterns and sets', () => {
+    expect(stableStringify({ pattern: /\bis\b/g, words: new Set(['a']) })).toBe(
+      '{"pattern":"/\\\\bis\\\\b/g","words":["a"]}'
+    );
+    expect(stableStringify(/a/g)).not.toBe(stableStringify(/a/i));
+  });
+
+  it('should stringify maps by key', () => {
+    const bundles = new Map([
+      ['es', { stopwords: new Set(['de']) }],
+      ['de', { stopwords: new Set(['der']) }],
+    ]);
+    expect(stableStringify(bundles)).toBe(
+      '{"de":{"stopwords":["der"]},"es":{"stopwords":["de"]}}'
+    );
+  });
+});
+
+describe('ResultCache', () => {
+  it('should key on text, settings and rule-set version', () => {
+    const payload = { text: 'Hi', settings: { tone: 'formal' } };
+    const key = cacheKey('transform', 'transform', payload);
+
+    expect(cacheKey('transform', 'transform', { ...payload })).toBe(key);
+    expect(cacheKey('transform', 'analyze', payload)).not.toBe(key);
+    expect(
+      cacheKey('transform', 'transform', { ...payload, text: 'Hey' })
+    ).not.toBe(key);
+    expect(
+      cacheKey('transform', 'transform', {
+        ...payload,
+        settings: { tone: 'casual' },
+      })
+    ).not.toBe(key);
+    expect(cacheKey('transform', 'transform', payload, 'older')).not.toBe(key);
+  });
+
+  it('should normalize line endings and composition', () => {
+    expect(normalizeText('Café\r\nline\rend')).toBe('Café\nline\nend');
+  });
+
+  it('should serve repeats from memory', async () => {
+    const cache = new ResultCache();
+    const run = runner();
+
+    await cache.memoize('nlp', 'score', { text: 'Hello.' }, run);
+    const reply = await cache.memoize('nlp', 'score', { text: 'Hello.' }, run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(reply).toEqual({
+      result: { text: 'done' },
+      elapsedMs: 25,
+      cached: 'memory',
+    });
+  });
+
+  it('should share entries between equivalent inputs', async () => {
+    const cache = new ResultCache();
+    const run = runner();
+
+    await cache.memoize('nlp', 'score', { text: 'a\r\nb' }, run);
+    const reply = await cache.memoize('nlp', 'score', { text: 'a\nb' }, run);
+
+    expect(run).toHaveBeenCalledWith({ text: 'a\nb' });
+    expect(reply.cached).toBe('memory');
+  });
+
+  it('should fall back to the persistent tier', async () => {
+    const tier = memoryTier();
+    const run = runner();
+
+    await new ResultCache(tier).memoize('nlp', 'score', { text: 'x' }, run);
+    await Promise.resolve();
+    expect(tier.entries.size).toBe(1);
+
+    // A fresh cache stands in for a restarted offscreen document
+    const restarted = new ResultCache(tier);
+    const reply = await restarted.memoize('nlp', 'score', { text: 'x' }, run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(reply.cached).toBe('persistent');
+  });
+
+  it('should keep unpersisted replies out of the persistent tier', async () => {
+    const tier = memoryTier();
+    const cache = new ResultCache(tier);
+    const run = runner();
+
+    await cache.memoize('transform', 'transform', { text: 'x' }, run, {
+      persist: false,
+    });
+    await Promise.resolve();
+
+    expect(tier.entries.size).toBe(0);
+    expect(await cache.stats()).toMatchObject({ memoryEntries: 1 });
+  });
+
+  it('should run requests when the persistent tier fails', async () => {
+    const tier = memoryTier();
+    tier.get = async () => {
+      throw new Error('quota');
+    };
+    const run = runner();
+
+    const reply = await new ResultCache(tier).memoize(
+      'nlp',
+      'score',
+      { text: 'x' },
+      run
+    );
+
+    expect(reply.cached).toBeUndefined();
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache when disabled', async () => {
+    const cache = new ResultCache(null, { enabled: false });
+    const run = runner();
+
+    await cache.memoize('nlp', 'score', { text: 'x' }, run);
+    await cache.memoize('nlp', 'score', { text: 'x' }, run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed requests', async () => {
+    const cache = new ResultCache();
+    const failing = vi.fn(async () => {
+      throw new Error('Timeout');
+    });
+
+    await expect(
+      cache.memoize('nlp', 'score', { text: 'x' }, failing)
+    ).rejects.toThrow('Timeout');
+    const run = runner();
+    await cache.memoize('nlp', 'score', { text: 'x' }, run);
+
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report hits, misses and sizes', async () => {
+    const tier = memoryTier();
+    const cache = new ResultCache(tier, { memoryEntries: 1 });
+    const run = runner();
+
+    await cache.memoize('nlp', 'score', { text: 'a' }, run);
+    await cache.memoize('nlp', 'score', { text: 'b' }, run);
+    await cache.memoize('nlp', 'score', { text: 'b' }, run);
+    await cache.memoize('nlp', 'score', { text: 'a' }, run);
+
+    expect(await cache.stats()).toEqual({
+      memoryHits: 1,
+      persistentHits: 1,
+      misses: 2,
+      hitRate: 0.5,
+      memoryEntries: 1,
+      persistentEntries: 2,
+    });
+
+    await cache.clear();
+    expect(await cache.stats()).toMatchObject({
+      misses: 0,
+      memoryEntries: 0,
+      persistentEntries: 0,
+    });
+  });
+});
@@ -109,6 +109,28 @@ describe('Sanitizer', () => {
       expect(validateFieldValue('abc', 'number')).toBe(false);
     });
 
+    it('should validate card numbers with the Luhn checksum', () => {
+      expect(validateFieldValue('4111 1111 1111 1111', 'card')).toBe(true);
+      expect(validateFieldValue('4111-1111-1111-1112', 'card')).toBe(false);
+      expect(validateFieldValue('1234', 'card')).toBe(false);
+    });
+
+    it('should validate IBANs', () => {
+      expect(validateFieldValue('GB82 WEST 1234 5698 7654 32', 'iban')).toBe(
+        true
+      );
+      expect(validateFieldValue('GB82 WEST 1234 5698 7654 33', 'iban')).toBe(
+        false
+      );
+    });
+
+    it('should validate IP addresses', () => {
+      expect(validateFieldValue('192.168.0.1', 'ip')).toBe(true);
+      expect(validateFieldValue('256.1.1.1', 'ip')).toBe(false);
+      expect(validateFieldValue('2001:db8::1', 'ip')).toBe(true);
+      expect(validateFieldValue('10:30', 'ip')).toBe(false);
+    });
+
     it('should allow any value for unknown types', () => {
       expect(validateFieldValue('anything', 'text')).toBe(true);
       expect(validateFieldValue('', 'unknown')).toBe(true);
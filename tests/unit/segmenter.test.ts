@@ -0,0 +1,273 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isAbbreviation,
+  joinSentences,
+  segmentSentences,
+  splitSentences,
+} from '../../src/lib/text/segmenter';
+
+interface SegmenterFixture {
+  name: string;
+  input: string;
+  expected: string[];
+}
+
+const FIXTURES: SegmenterFixture[] = [
+  {
+    name: 'simple terminators',
+    input: 'One sentence. Another one! A third?',
+    expected: ['One sentence.', 'Another one!', 'A third?'],
+  },
+  {
+    name: 'trailing sentence without punctuation',
+    input: 'First sentence. Second without a period',
+    expected: ['First sentence.', 'Second without a period'],
+  },
+  {
+    name: 'single unterminated sentence',
+    input: 'just a fragment',
+    expected: ['just a fragment'],
+  },
+  {
+    name: 'empty input',
+    input: '   ',
+    expected: [],
+  },
+  {
+    name: 'title abbreviations',
+    input: 'Dr. Smith met Mrs. Jones. They talked.',
+    expected: ['Dr. Smith met Mrs. Jones.', 'They talked.'],
+  },
+  {
+    name: 'latin abbreviations',
+    input: 'Use a tool, e.g. Vite or i.e. Rollup. Then build.',
+    expected: ['Use a tool, e.g. Vite or i.e. Rollup.', 'Then build.'],
+  },
+  {
+    name: 'decimals',
+    input: 'Pi is about 3.14 in most cases. It is irrational.',
+    expected: ['Pi is about 3.14 in most cases.', 'It is irrational.'],
+  },
+  {
+    name: 'version numbers and domains',
+    input: 'Upgrade to v2.1.0 from example.com today. Done.',
+    expected: ['Upgrade to v2.1.0 from example.com today.', 'Done.'],
+  },
+  {
+    name: 'initials',
+    input: 'J. R. R. Tolkien wrote it. Fans agree.',
+    expected: ['J. R. R. Tolkien wrote it.', 'Fans agree.'],
+  },
+  {
+    name: 'ellipsis continuing the sentence',
+    input: 'Well... maybe later. Or now.',
+    expected: ['Well... maybe later.', 'Or now.'],
+  },
+  {
+    name: 'ellipsis ending the sentence',
+    input: 'I waited… Nothing happened.',
+    expected: ['I waited…', 'Nothing happened.'],
+  },
+  {
+    name: 'combined terminators',
+    input: 'Really?! Yes. Wow!!! Okay.',
+    expected: ['Really?!', 'Yes.', 'Wow!!!', 'Okay.'],
+  },
+  {
+    name: 'closing quotes stay with the sentence',
+    input: 'He said "Stop." Then he left.',
+    expected: ['He said "Stop."', 'Then he left.'],
+  },
+  {
+    name: 'closing brackets stay with the sentence',
+    input: 'See the appendix (it is long.) Next section.',
+    expected: ['See the appendix (it is long.)', 'Next section.'],
+  },
+  {
+    name: 'sentence starting with an opening quote',
+    input: 'It ended. "Why?" she asked.',
+    expected: ['It ended.', '"Why?" she asked.'],
+  },
+  {
+    name: 'lowercase continuation after abbreviation-like period',
+    input: 'It costs approx. five dollars. Cheap.',
+    expected: ['It costs approx. five dollars.', 'Cheap.'],
+  },
+  {
+    name: 'etc. closing a sentence',
+    input: 'Bring pens, paper, etc. We start at nine.',
+    expected: ['Bring pens, paper, etc.', 'We start at nine.'],
+  },
+  {
+    name: 'etc. inside a sentence',
+    input: 'Bring pens, paper, etc. to the meeting.',
+    expected: ['Bring pens, paper, etc. to the meeting.'],
+  },
+  {
+    name: 'dotted acronym mid-sentence',
+    input: 'We met at 5 p.m. yesterday. It rained.',
+    expected: ['We met at 5 p.m. yesterday.', 'It rained.'],
+  },
+  {
+    name: 'figure and number references',
+    input: 'See fig. 3 and no. 7 for details. Thanks.',
+    expected: ['See fig. 3 and no. 7 for details.', 'Thanks.'],
+  },
+  {
+    name: 'blank line paragraph break',
+    input: 'Heading without period\n\nBody text here. More body.',
+    expected: ['Heading without period', 'Body text here.', 'More body.'],
+  },
+  {
+    name: 'single line breaks',
+    input: 'This line has no period\nNext line. Next one.',
+    expected: ['This line has no period', 'Next line.', 'Next one.'],
+  },
+  {
+    name: 'unpunctuated lines',
+    input: 'milk\neggs\nbread',
+    expected: ['milk', 'eggs', 'bread'],
+  },
+  {
+    name: 'dash bullets',
+    input: 'Agenda:\n- review budget\n- plan launch\n- assign owners',
+    expected: [
+      'Agenda:',
+      '- review budget',
+      '- plan launch',
+      '- assign owners',
+    ],
+  },
+  {
+    name: 'numbered list markers',
+    input: '1. First item\n2. Second item\n3. Third item',
+    expected: ['1. First item', '2. Second item', '3. Third item'],
+  },
+  {
+    name: 'unicode bullets',
+    input: 'Notes\n• alpha\n• beta',
+    expected: ['Notes', '• alpha', '• beta'],
+  },
+  {
+    name: 'multiple spaces between sentences',
+    input: 'One.   Two.\tThree.',
+    expected: ['One.', 'Two.', 'Three.'],
+  },
+  {
+    name: 'sentence starting with a number',
+    input: 'We counted them. 42 were left.',
+    expected: ['We counted them.', '42 were left.'],
+  },
+  {
+    name: 'question followed by lowercase',
+    input: 'Are you sure? yes I am.',
+    expected: ['Are you sure?', 'yes I am.'],
+  },
+  {
+    name: 'period followed by lowercase',
+    input: 'hello world. second one',
+    expected: ['hello world.', 'second one'],
+  },
+  {
+    name: 'known dotted abbreviations before a capital',
+    input: 'The U.S. Army and the U.K. Navy met, e.g. Tuesday. Fine.',
+    expected: ['The U.S. Army and the U.K. Navy met, e.g. Tuesday.', 'Fine.'],
+  },
+  {
+    name: 'known dotted abbreviations before lowercase',
+    input: 'Prices in the U.S. rose, i.e. sharply. Done.',
+    expected: ['Prices in the U.S. rose, i.e. sharply.', 'Done.'],
+  },
+  {
+    name: 'ordinary words that are also abbreviations',
+    input:
+      'The answer is no. We left early. The cat sat. Then it slept. We walked in the sun. It was hot. We hit the max. Then we stopped.',
+    expected: [
+      'The answer is no.',
+      'We left early.',
+      'The cat sat.',
+      'Then it slept.',
+      'We walked in the sun.',
+      'It was hot.',
+      'We hit the max.',
+      'Then we stopped.',
+    ],
+  },
+  {
+    name: 'word abbreviations before a number',
+    input: 'Read No. 5 on p. 12 of Sec. 3 today. Done.',
+    expected: ['Read No. 5 on p. 12 of Sec. 3 today.', 'Done.'],
+  },
+  {
+    name: 'initial followed by a sentence opener',
+    input: 'I met Mr. X. He was nice.',
+    expected: ['I met Mr. X.', 'He was nice.'],
+  },
+  {
+    name: 'initial followed by a capitalized word reads as a name',
+    input: 'John F. Kennedy spoke. World War I. Peace came.',
+    expected: ['John F. Kennedy spoke.', 'World War I. Peace came.'],
+  },
+  {
+    name: 'non-english capitals',
+    input: 'Das ist gut. Ähnlich wie vorher.',
+    expected: ['Das ist gut.', 'Ähnlich wie vorher.'],
+  },
+  {
+    name: 'company abbreviation followed by capital',
+    input: 'Shares of Acme Inc. Rose today.',
+    expected: ['Shares of Acme Inc.', 'Rose today.'],
+  },
+];
+
+describe('Sentence Segmenter', () => {
+  describe('splitSentences fixtures', () => {
+    it.each(FIXTURES)('should segment $name', ({ input, expected }) => {
+      expect(splitSentences(input)).toEqual(expected);
+    });
+  });
+
+  describe('segmentSentences', () => {
+    it('should report offsets that slice back to each sentence', () => {
+      const input = '  Dr. Who arrived.\n\n- item one\nDone  ';
+      const sentences = segmentSentences(input);
+      expect(sentences.length).toBeGreaterThan(0);
+      sentences.forEach(sentence => {
+        expect(input.slice(sentence.start, sentence.end)).toBe(sentence.text);
+      });
+    });
+
+    it('should never drop text', () => {
+      const input = 'A. B? C! D... e f. g';
+      const joined = splitSentences(input).join(' ');
+      expect(joined.replace(/\s+/g, '')).toBe(input.replace(/\s+/g, ''));
+    });
+  });
+
+  describe('joinSentences', () => {
+    it('should keep original separators between adjacent sentences', () => {
+      const input = 'One.\nTwo.  Three.';
+      const sentences = segmentSentences(input);
+      expect(joinSentences(input, sentences)).toBe(input);
+    });
+
+    it('should use a single separator across skipped sentences', () => {
+      const input = 'One. Two. Three.';
+      const sentences = segmentSentences(input);
+      expect(joinSentences(input, [sentences[0], sentences[2]])).toBe(
+        'One. Three.'
+      );
+    });
+  });
+
+  describe('isAbbreviation', () => {
+    it('should recognise titles, abbreviations and initials', () => {
+      ['Dr', 'etc.', 'vs', 'e.g', 'J'].forEach(word =>
+        expect(isAbbreviation(word)).toBe(true)
+      );
+      ['end', 'done.', 'USA', 'no', 'sat'].forEach(word =>
+        expect(isAbbreviation(word)).toBe(false)
+      );
+    });
+  });
+});
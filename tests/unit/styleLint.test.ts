@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyLintFix,
+  lintText,
+  type LintRule,
+} from '../../src/lib/text/styleLint';
+
+function rulesOf(text: string, rules?: LintRule[]) {
+  return lintText(text, { rules }).map(finding => [finding.rule, finding.text]);
+}
+
+describe('Style linter', () => {
+  it('should flag passive constructions with regular and irregular participles', () => {
+    expect(rulesOf('The report was written by Sam.', ['passive'])).toEqual([
+      ['passive', 'was written'],
+    ]);
+    expect(rulesOf('The bug is quickly fixed.', ['passive'])).toEqual([
+      ['passive', 'is quickly fixed'],
+    ]);
+  });
+
+  it('should not flag state adjectives or perfect tenses as passive', () => {
+    expect(
+      rulesOf('I am tired. She is interested. It is red.', ['passive'])
+    ).toEqual([]);
+    expect(rulesOf("It's done and she's finished.", ['passive'])).toEqual([]);
+  });
+
+  it('should suggest removing hedges', () => {
+    const [finding] = lintText('I think we should ship it.', {
+      rules: ['hedge'],
+    });
+    expect(finding).toMatchObject({
+      rule: 'hedge',
+      severity: 'info',
+      start: 0,
+      end: 7,
+      text: 'I think',
+      suggestion: '',
+    });
+  });
+
+  it('should always flag intensifiers but -ly adverbs only when dense', () => {
+    expect(rulesOf('It is very good.', ['adverb'])).toEqual([
+      ['adverb', 'very'],
+    ]);
+    expect(
+      rulesOf('She spoke quietly to the team about the plan.', ['adverb'])
+    ).toEqual([]);
+    expect(
+      rulesOf('She quickly and quietly left.', ['adverb']).map(
+        ([, text]) => text
+      )
+    ).toEqual(['quickly', 'quietly']);
+  });
+
+  it('should ignore -ly words that are not adverbs', () => {
+    expect(
+      rulesOf('The family has a daily and friendly early reply.', ['adverb'])
+    ).toEqual([]);
+  });
+
+  it('should flag content words repeated within a short window', () => {
+    const findings = lintText(
+      'The server failed because the server was full.',
+      {
+        rules: ['repetition'],
+      }
+    );
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ text: 'server', start: 30 });
+  });
+
+  it('should leave doubled words to the proofreader', () => {
+    expect(rulesOf('The server server failed.', ['repetition'])).toEqual([]);
+  });
+
+  it('should grade overlong sentences by length', () => {
+    const words = (n: number) => Array(n).fill('word').join(' ') + '.';
+    const [warning] = lintText(words(30), { rules: ['longSentence'] });
+    const [error] = lintText(words(45), { rules: ['longSentence'] });
+    expect(warning.severity).toBe('warning');
+    expect(error.severity).toBe('error');
+    expect(lintText(words(20), { rules: ['longSentence'] })).toEqual([]);
+  });
+
+  it('should suggest plain words for clichés and jargon, keeping case', () => {
+    const findings = lintText(
+      'At the end of the day we must leverage our synergy.',
+      { rules: ['cliche', 'jargon'] }
+    );
+    expect(findings.map(finding => [finding.rule, finding.suggestion])).toEqual(
+      [
+        ['cliche', 'Ultimately'],
+        ['jargon', 'use'],
+        ['jargon', 'cooperation'],
+      ]
+    );
+  });
+
+  it('should skip findings inside protected spans', () => {
+    expect(
+      rulesOf('He wrote "I think it is very good" and left.', [
+        'hedge',
+        'adverb',
+      ])
+    ).toEqual([]);
+  });
+
+  it('should return findings in text order', () => {
+    const findings = lintText('We will circle back. It was decided, sort of.');
+    const starts = findings.map(finding => finding.start);
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(findings.map(finding => finding.rule)).toEqual([
+      'jargon',
+      'passive',
+      'hedge',
+    ]);
+  });
+
+  it('should apply replacements and deletions cleanly', () => {
+    const text = 'I think we should leverage it. It is very good.';
+    const [hedge, jargon, adverb] = lintText(text, {
+      rules: ['hedge', 'jargon', 'adverb'],
+    });
+
+    expect(applyLintFix(text, hedge)).toBe(
+      'We should leverage it. It is very good.'
+    );
+    expect(applyLintFix(text, jargon)).toBe(
+      'I think we should use it. It is very good.'
+    );
+    expect(applyLintFix(text, adverb)).toBe(
+      'I think we should leverage it. It is good.'
+    );
+  });
+
+  it('should refuse to apply a fix to text that has changed', () => {
+    const [finding] = lintText('It is very good.', { rules: ['adverb'] });
+    expect(() => applyLintFix('It was good.', finding)).toThrow('Text changed');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { rankSentences, summarize } from '../../src/lib/text/summarizer';
+import { segmentSentences } from '../../src/lib/text/segmenter';
+
+const ARTICLE = [
+  'Good morning everyone and welcome to the update.',
+  'The database migration finished last night without data loss.',
+  'Lunch will be served at noon.',
+  'After the migration, database queries are twice as fast.',
+  'The migration also reduced database storage costs.',
+  'Parking is closed on Friday.',
+].join(' ');
+
+describe('Summarizer', () => {
+  describe('rankSentences', () => {
+    it('should rank central sentences above unrelated ones', () => {
+      const sentences = segmentSentences(ARTICLE);
+      const scores = rankSentences(sentences);
+      expect(scores).toHaveLength(sentences.length);
+      expect(Math.max(...scores)).toBe(1);
+      // Migration sentences share vocabulary; lunch and parking do not
+      expect(scores[1]).toBeGreaterThan(scores[2]);
+      expect(scores[3]).toBeGreaterThan(scores[5]);
+    });
+
+    it('should handle empty and single-sentence input', () => {
+      expect(rankSentences([])).toEqual([]);
+      expect(rankSentences(segmentSentences('Only one.'))).toEqual([1]);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should keep the most important sentences instead of the intro', () => {
+      const result = summarize(ARTICLE, { sentences: 2 });
+      expect(result.sentences).toHaveLength(2);
+      expect(result.text).toContain('migration');
+      expect(result.text).not.toContain('Good morning');
+    });
+
+    it('should return sentences in original order', () => {
+      const result = summarize(ARTICLE, { sentences: 3 });
+      const indices = result.sentences.map(s => s.index);
+      expect(indices).toEqual([...indices].sort((a, b) => a - b));
+    });
+
+    it('should avoid near-duplicate sentences', () => {
+      const text =
+        'The server crashed at noon. The server crashed at noon today. ' +
+        'Engineers restored service within an hour.';
+      const result = summarize(text, { sentences: 2 });
+      expect(result.text).toContain('Engineers restored service');
+    });
+
+    it('should support ratio budgets', () => {
+      const result = summarize(ARTICLE, { ratio: 0.5 });
+      expect(result.sentences).toHaveLength(3);
+    });
+
+    it('should respect a character budget', () => {
+      const result = summarize(ARTICLE, { maxChars: 80 });
+      expect(result.text.length).toBeLessThanOrEqual(80);
+      expect(result.sentences.length).toBeGreaterThan(0);
+    });
+
+    it('should count the paragraph breaks kept between sentences', () => {
+      const text = ARTICLE.split(/(?<=\.) /).join('\n\n');
+      for (let maxChars = 60; maxChars <= 300; maxChars += 10) {
+        const result = summarize(text, { maxChars });
+        expect(result.text.length).toBeLessThanOrEqual(maxChars);
+      }
+      expect(summarize(text, { maxChars: 300 }).text).toContain('\n\n');
+    });
+
+    it('should cut the top sentence at a word when no sentence fits', () => {
+      const result = summarize(ARTICLE, { maxChars: 20 });
+      expect(result.text).toBe('The migration also');
+      expect(result.sentences).toEqual([
+        expect.objectContaining({ text: 'The migration also', index: 4 }),
+      ]);
+    });
+
+    it('should return an empty summary when not even a word fits', () => {
+      expect(summarize(ARTICLE, { maxChars: 2 })).toEqual({
+        text: '',
+        sentences: [],
+      });
+    });
+
+    it('should be deterministic', () => {
+      const a = summarize(ARTICLE, { sentences: 2 });
+      const b = summarize(ARTICLE, { sentences: 2 });
+      expect(a).toEqual(b);
+    });
+  });
+});
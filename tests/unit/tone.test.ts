@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectTone,
+  measureTone,
+  suggestTone,
+  toneReport,
+} from '../../src/lib/text/tone';
+
+function overall(text: string) {
+  return detectTone(text).overall;
+}
+
+describe('Tone detection', () => {
+  describe('sentiment', () => {
+    it('should score positive and negative words', () => {
+      expect(overall('The demo was excellent.').sentiment).toBe('positive');
+      expect(overall('The demo was terrible.').sentiment).toBe('negative');
+      expect(overall('The demo is on Tuesday.').sentiment).toBe('neutral');
+    });
+
+    it('should flip and soften negated words', () => {
+      const bad = overall('The release is bad.').polarity;
+      const notBad = overall('The release is not bad.').polarity;
+      expect(bad).toBeLessThan(0);
+      expect(notBad).toBeGreaterThan(0);
+      expect(Math.abs(notBad)).toBeLessThan(Math.abs(bad));
+      expect(overall("It isn't good.").sentiment).toBe('negative');
+    });
+
+    it('should weight intensified and shouted words', () => {
+      const good = overall('The fix is good.').polarity;
+      expect(overall('The fix is very good.').polarity).toBeGreaterThan(good);
+      expect(overall('The fix is GOOD.').polarity).toBeGreaterThan(good);
+      expect(overall('The fix is slightly good.').polarity).toBeLessThan(good);
+    });
+
+    it('should stop negation at a comma', () => {
+      expect(overall('No worries, great work.').sentiment).toBe('positive');
+    });
+
+    it('should ignore words inside links and code', () => {
+      expect(
+        overall('See https://example.com/bad-error-crash today.')
+      ).toMatchObject({ polarity: 0 });
+    });
+  });
+
+  describe('formality', () => {
+    it('should read contractions and slang as casual', () => {
+      expect(
+        overall("hey, we're gonna ship it, it's kinda done").formalityLevel
+      ).toBe('casual');
+    });
+
+    it('should read professional vocabulary as formal', () => {
+      expect(
+        overall(
+          'Regarding the invoice, the amount appears incorrect. Kindly review it.'
+        ).formalityLevel
+      ).toBe('formal');
+    });
+
+    it('should not count possessives as contractions', () => {
+      expect(overall("Maria's report covers the quarter.").formality).toBe(0);
+    });
+  });
+
+  describe('urgency', () => {
+    it('should rate deadlines and exclamations', () => {
+      expect(overall('Please fix the login page ASAP!').urgencyLevel).toBe(
+        'high'
+      );
+      expect(overall('Could you look at this soon?').urgencyLevel).toBe('low');
+      expect(overall('This is a priority for the release.').urgencyLevel).toBe(
+        'medium'
+      );
+    });
+
+    it('should report the most urgent sentence as the overall urgency', () => {
+      const report = detectTone(
+        'Thanks for the notes. The server is down, fix it immediately!'
+      );
+      expect(report.sentences.map(sentence => sentence.urgencyLevel)).toEqual([
+        'low',
+        'high',
+      ]);
+      expect(report.overall.urgency).toBe(report.sentences[1].urgency);
+    });
+  });
+
+  it('should give sentence offsets shifted by the chunk offset', () => {
+    const text = 'Great job. This is broken.';
+    const [first, second] = measureTone(text, 100);
+    expect(first.tone).toMatchObject({ start: 100, end: 110 });
+    expect(second.tone).toMatchObject({ start: 111, end: 126 });
+    expect(first.tone.sentiment).toBe('positive');
+    expect(second.tone.sentiment).toBe('negative');
+  });
+
+  it('should combine chunks into the same report as the whole text', () => {
+    const first = 'hey, the build is broken again.';
+    const second = ' Please fix it asap!';
+    const combined = toneReport([
+      ...measureTone(first),
+      ...measureTone(second, first.length),
+    ]);
+    expect(combined).toEqual(detectTone(first + second));
+  });
+
+  describe('suggested tone', () => {
+    it('should lift casual text to formal', () => {
+      expect(detectTone("hey, it's gonna be fine").suggestedTone).toBe(
+        'formal'
+      );
+    });
+
+    it('should suggest professional for complaints', () => {
+      expect(
+        detectTone('This is unacceptable. The service failed again.')
+          .suggestedTone
+      ).toBe('professional');
+    });
+
+    it('should suggest nothing for neutral, formal text', () => {
+      expect(
+        detectTone('Regarding the schedule, the review is on Tuesday.')
+          .suggestedTone
+      ).toBeUndefined();
+    });
+
+    it('should prefer professional for pressing casual text', () => {
+      expect(
+        suggestTone({
+          polarity: 0,
+          sentiment: 'neutral',
+          formality: -0.6,
+          formalityLevel: 'casual',
+          urgency: 1,
+          urgencyLevel: 'high',
+        })
+      ).toBe('professional');
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import type {
+  TransformPayload,
+  TransformResult,
+  VariantsPayload,
+  VariantsResult,
+  WorkerResponse,
+} from '../../src/lib/workers/protocol';
+
+// The worker runs in this thread: importScripts marks a worker context and
+// self.postMessage collects what it would send back
+interface PostedMessage {
+  id: string;
+  type?: string;
+  status?: string;
+  progress?: { step: string };
+}
+
+const posted: PostedMessage[] = [];
+let nextId = 0;
+
+type MessageHandler = (event: { data: unknown }) => Promise<void>;
+
+async function send<R>(
+  type: 'transform' | 'variants',
+  payload: TransformPayload | VariantsPayload
+): Promise<WorkerResponse<R>> {
+  const id = `request-${++nextId}`;
+  const onmessage = (globalThis as unknown as { onmessage: MessageHandler })
+    .onmessage;
+  await onmessage({ data: { id, type, payload } });
+  const response = posted.find(
+    message => message.id === id && message.status !== undefined
+  );
+  return response as unknown as WorkerResponse<R>;
+}
+
+async function transform(payload: TransformPayload): Promise<TransformResult> {
+  const response = await send<TransformResult>('transform', payload);
+  if (response.status !== 'ok' || !response.result) {
+    throw new Error(response.error);
+  }
+  return response.result;
+}
+
+const TEXT =
+  'We saw the the movie . its a great film, gonna watch it again. Mail me at jane@corp.com.';
+
+beforeAll(async () => {
+  vi.stubGlobal('importScripts', () => undefined);
+  vi.stubGlobal('self', globalThis);
+  vi.stubGlobal('postMessage', (message: PostedMessage) =>
+    posted.push(message)
+  );
+  vi.stubGlobal('addEventListener', () => undefined);
+  await import('../../src/workers/transformWorker');
+});
+
+afterAll(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Transform pipeline', () => {
+  it('should run explicit steps in order and report each one', async () => {
+    const result = await transform({
+      text: TEXT,
+      settings: {
+        steps: [
+          { rule: 'proofread' },
+          { rule: 'tone', options: { tone: 'formal' } },
+          { rule: 'redact', options: { mode: 'placeholder' } },
+        ],
+      },
+    });
+
+    expect(result.steps.map(step => [step.rule, step.text])).toEqual([
+      [
+        'proofread',
+        "We saw the movie. It's a great film, gonna watch it again. Mail me at jane@corp.com.",
+      ],
+      [
+        'tone',
+        "We saw the movie. It's a great film, going to watch it again. Mail me at jane@corp.com.",
+      ],
+      [
+        'redact',
+        "We saw the movie. It's a great film, going to watch it again. Mail me at [EMAIL_1].",
+      ],
+    ]);
+    expect(result.steps[0].rulesApplied).toEqual([
+      'proofread_4_fixes',
+      'proofread_doubledWord:the the→the@7-14',
+      'proofread_spacing: .→.@20-22',
+      'proofread_capitalization:i→I@23-24',
+      "proofread_confusable:Its →It's @23-27",
+    ]);
+    expect(result.steps[1].rulesApplied).toEqual([
+      'tone_formal_1_swaps',
+      'tone_formal_swap:gonna→going to@37-42',
+    ]);
+    expect(result.steps[2].rulesApplied).toEqual([
+      'redact_placeholder_1_matches',
+      'redact_email_1',
+    ]);
+    expect(result.rulesApplied).toEqual(
+      result.steps.flatMap(step => step.rulesApplied)
+    );
+    expect(result.text).toBe(result.steps[2].text);
+    expect(result.redactions).toEqual([
+      { kind: 'email', original: 'jane@corp.com', replacement: '[EMAIL_1]' },
+    ]);
+    expect(result.declined).toEqual([]);
+  });
+
+  it('should map legacy settings onto the fixed step order', async () => {
+    const result = await transform({
+      text: TEXT,
+      settings: {
+        redact: 'mask',
+        dialect: 'en-GB',
+        style: 'concise',
+        tone: 'formal',
+        length: 'long',
+        proofread: true,
+      },
+    });
+
+    expect(result.steps.map(step => [step.rule, step.options])).toEqual([
+      ['proofread', {}],
+      ['length', { length: 'long' }],
+      ['tone', { tone: 'formal' }],
+      ['style', { style: 'concise' }],
+      ['dialect', { to: 'en-GB' }],
+      ['redact', { mode: 'mask' }],
+    ]);
+    expect(result.text).toBe(
+      "We saw the movie. It's a great film, going to watch it again. Mail me at ****."
+    );
+  });
+
+  it('should carry a custom length into the length step', async () => {
+    const result = await transform({
+      text: TEXT,
+      settings: { length: 'custom', customLength: 1 },
+    });
+    expect(result.steps[0].options).toEqual({
+      length: 'custom',
+      customLength: 1,
+    });
+    expect(result.text).toBe('We saw the the movie .');
+  });
+
+  it('should let a step list override the legacy settings', async () => {
+    const result = await transform({
+      text: TEXT,
+      settings: {
+        redact: 'mask',
+        proofread: true,
+        steps: [{ rule: 'tone', options: { tone: 'formal' } }],
+      },
+    });
+    expect(result.steps.map(step => step.rule)).toEqual(['tone']);
+    expect(result.text).toContain('jane@corp.com');
+  });
+
+  it('should decline English-only steps for other languages', async () => {
+    const text =
+      'Wir haben gestern den neuen Bericht gelesen. Die Ergebnisse sind sehr gut und das Team ist zufrieden. Morgen besprechen wir die nächsten Schritte.';
+    const result = await transform({
+      text,
+      settings: {
+        steps: [
+          { rule: 'proofread' },
+          { rule: 'tone', options: { tone: 'casual' } },
+          { rule: 'format', options: { format: 'bullets' } },
+        ],
+      },
+    });
+
+    expect(result.language.code).toBe('de');
+    expect(result.declined).toEqual([
+      {
+        rule: 'proofread',
+        reason: 'Proofreading is not available for German text',
+      },
+      {
+        rule: 'tone',
+        reason: 'Tone rewriting is not available for German text',
+      },
+    ]);
+    expect(result.steps.map(step => step.rule)).toEqual(['format']);
+    expect(result.rulesApplied).toEqual(['format_bullets_applied']);
+    expect(result.text.split('\n')).toHaveLength(3);
+  });
+
+  it('should fail on unknown steps', async () => {
+    const response = await send<TransformResult>('transform', {
+      text: TEXT,
+      settings: { steps: [{ rule: 'nope' }] },
+    });
+    expect(response.status).toBe('err');
+    expect(response.error).toBe('Unknown transform step: nope');
+  });
+
+  it('should report progress for every step', async () => {
+    posted.length = 0;
+    await transform({
+      text: TEXT,
+      settings: {
+        steps: [
+          { rule: 'proofread' },
+          { rule: 'redact', options: { mode: 'mask' } },
+        ],
+      },
+    });
+    const steps = posted
+      .filter(message => message.type === 'progress')
+      .map(message => message.progress?.step);
+    expect(new Set(steps)).toEqual(new Set(['proofread', 'redact']));
+  });
+
+  it('should run one pipeline per variant and rank distinct results', async () => {
+    const response = await send<VariantsResult>('variants', {
+      text: 'Hey, yeah I wanna go there. It is basically the best place. We should book it now. The trip is in May.',
+      settings: { length: 'medium', tone: 'formal' },
+      maxVariants: 3,
+    });
+    const variants = response.result?.variants ?? [];
+
+    expect(variants.map(variant => [variant.id, variant.rank])).toEqual([
+      ['length_long', 1],
+      ['selected', 2],
+      ['length_short', 3],
+    ]);
+    expect(new Set(variants.map(variant => variant.result.text)).size).toBe(3);
+    variants.forEach(variant =>
+      expect(variant.result.steps.map(step => step.rule)).toEqual([
+        'length',
+        'tone',
+      ])
+    );
+    expect(variants[1].result.text).toBe(
+      'Hello, yes I want to go there. It is basically the best place. The trip is in May.'
+    );
+  });
+});
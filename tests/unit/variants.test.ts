@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import type { TransformPreset } from '../../src/lib/idb/models';
+import {
+  planVariants,
+  rankVariants,
+  scoreVariant,
+} from '../../src/lib/text/variants';
+
+const PRESETS: TransformPreset[] = [
+  {
+    presetId: 'slack',
+    name: 'Slack reply',
+    steps: [
+      { rule: 'length', options: { length: 'short' } },
+      { rule: 'tone', options: { tone: 'casual' } },
+    ],
+    createdAt: 0,
+    updatedAt: 0,
+  },
+];
+
+describe('Variants', () => {
+  it('should plan the selection first, then lengths, tone and presets', () => {
+    const plans = planVariants(
+      [
+        { rule: 'length', options: { length: 'medium' } },
+        { rule: 'tone', options: { tone: 'formal' } },
+      ],
+      PRESETS
+    );
+
+    expect(plans.map(plan => plan.id)).toEqual([
+      'selected',
+      'length_short',
+      'length_long',
+      'tone_light',
+      'preset_slack',
+    ]);
+    expect(plans[1].steps[0].options).toEqual({ length: 'short' });
+    expect(plans[3].steps[1].options).toEqual({
+      tone: 'formal',
+      strength: 'light',
+    });
+    expect(plans[3].label).toBe('Light formal tone: medium, formal (light)');
+  });
+
+  it('should keep format, instruction and redaction steps in every plan', () => {
+    const redact = { rule: 'redact', options: { mode: 'mask' } };
+    const plans = planVariants(
+      [{ rule: 'tone', options: { tone: 'formal' } }, redact],
+      PRESETS
+    );
+
+    plans.forEach(plan => expect(plan.steps).toContainEqual(redact));
+    expect(plans.find(plan => plan.id === 'preset_slack')?.steps).toEqual([
+      ...PRESETS[0].steps,
+      redact,
+    ]);
+  });
+
+  it('should skip the long length without a length step', () => {
+    const ids = planVariants([], []).map(plan => plan.id);
+
+    expect(ids).toEqual(['selected', 'length_short', 'length_medium']);
+  });
+
+  it('should drop plans identical to an earlier one', () => {
+    const plans = planVariants(PRESETS[0].steps, PRESETS);
+
+    expect(plans.filter(plan => plan.id === 'preset_slack')).toHaveLength(0);
+  });
+
+  it('should be deterministic', () => {
+    const steps = [{ rule: 'tone', options: { tone: 'casual' } }];
+
+    expect(planVariants(steps, PRESETS)).toEqual(planVariants(steps, PRESETS));
+  });
+
+  it('should reward hitting the length target', () => {
+    const original =
+      'One sentence here. Two sentence here. Three sentence here. Four sentence here.';
+    const steps = [{ rule: 'length', options: { length: 'short' } }];
+
+    const onTarget = scoreVariant(original, 'One sentence here.', 0.75, steps);
+    const tooLong = scoreVariant(original, original, 0, steps);
+
+    expect(onTarget.targetLengthRatio).toBe(0.3);
+    expect(onTarget.lengthRatio).toBe(0.25);
+    expect(onTarget.total).toBeGreaterThan(tooLong.total);
+  });
+
+  it('should reward readability gains', () => {
+    const original =
+      'Notwithstanding considerable organizational complexity, implementation proceeded expeditiously.';
+    const simpler = 'The work went fast. It was hard, but we did it.';
+
+    const score = scoreVariant(original, simpler, 0.3, []);
+
+    expect(score.readabilityDelta).toBeGreaterThan(0);
+  });
+
+  it('should rank best first and keep plan order on ties', () => {
+    const variant = (id: string, total: number) => ({
+      id,
+      score: {
+        total,
+        readabilityDelta: 0,
+        lengthRatio: 1,
+        targetLengthRatio: 1,
+        changeRatio: 0,
+      },
+    });
+
+    const ranked = rankVariants([
+      variant('a', 0.5),
+      variant('b', 0.9),
+      variant('c', 0.5),
+    ]);
+
+    expect(ranked.map(v => v.id)).toEqual(['b', 'a', 'c']);
+  });
+});
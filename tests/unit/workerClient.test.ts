@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  createNLPClient,
+  createTransformClient,
+  type WorkerLike,
+} from '../../src/lib/workers/workerClient';
+
+// In-memory stand-in for a Worker; tests reply by calling emit()
+class FakeWorker implements WorkerLike {
+  sent: Array<{ id: string; type: string; payload?: unknown }> = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  postMessage(message: { id: string; type: string; payload?: unknown }) {
+    this.sent.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  emit(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  reply(id: string, result: unknown, elapsedMs = 12) {
+    this.emit({ id, status: 'ok', result, timing: { elapsedMs } });
+  }
+
+  crash(message = 'boom') {
+    this.onerror?.({ message } as ErrorEvent);
+  }
+
+  requests() {
+    return this.sent.filter(message => message.type !== 'cancel');
+  }
+}
+
+function setup() {
+  const workers: FakeWorker[] = [];
+  const client = createNLPClient(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker;
+  });
+  return { client, workers };
+}
+
+describe('WorkerClient', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should resolve with the result and elapsed time', async () => {
+    const { client, workers } = setup();
+    const pending = client.request('score', { text: 'Hello there.' });
+
+    const [request] = workers[0].requests();
+    expect(request.type).toBe('score');
+    expect(request.payload).toEqual({ text: 'Hello there.' });
+
+    workers[0].reply(request.id, { score: 80 }, 42);
+    await expect(pending).resolves.toEqual({
+      result: { score: 80 },
+      elapsedMs: 42,
+    });
+    expect(client.inFlight).toBe(0);
+  });
+
+  it('should multiplex concurrent requests by id', async () => {
+    const { client, workers } = setup();
+    const first = client.request('keywords', { text: 'a' });
+    const second = client.request('keywords', { text: 'b' });
+    const [a, b] = workers[0].requests();
+    expect(a.id).not.toBe(b.id);
+
+    workers[0].reply(b.id, { keywords: ['b'] });
+    workers[0].reply(a.id, { keywords: ['a'] });
+
+    expect((await first).result.keywords).toEqual(['a']);
+    expect((await second).result.keywords).toEqual(['b']);
+    expect(workers).toHaveLength(1);
+  });
+
+  it('should reject with the worker error', async () => {
+    const { client, workers } = setup();
+    const pending = client.request('summarize', { text: '' });
+    const [request] = workers[0].requests();
+
+    workers[0].emit({
+      id: request.id,
+      status: 'err',
+      error: 'Request cancelled',
+      timing: { elapsedMs: 1 },
+    });
+    await expect(pending).rejects.toThrow('Request cancelled');
+  });
+
+  it('should forward progress and restart the timeout on it', async () => {
+    vi.useFakeTimers();
+    const workers: FakeWorker[] = [];
+    const client = createTransformClient(
+      () => {
+        const worker = new FakeWorker();
+        workers.push(worker);
+        return worker;
+      },
+      { timeoutMs: 1000 }
+    );
+    const onProgress = vi.fn();
+    const pending = client.request(
+      'transform',
+      { text: 'Hi.' },
+      { onProgress }
+    );
+    const [request] = workers[0].requests();
+
+    vi.advanceTimersByTime(800);
+    const progress = {
+      step: 'tone',
+      stepIndex: 0,
+      stepCount: 1,
+      completed: 1,
+      total: 2,
+      fraction: 0.5,
+      partial: 'Hello.',
+    };
+    workers[0].emit({ id: request.id, type: 'progress', progress });
+    vi.advanceTimersByTime(800);
+
+    expect(onProgress).toHaveBeenCalledWith(progress);
+    workers[0].reply(request.id, { text: 'Hello.' });
+    await expect(pending).resolves.toMatchObject({
+      result: { text: 'Hello.' },
+    });
+  });
+
+  it('should send a cancel message when a request times out', async () => {
+    vi.useFakeTimers();
+    const { client, workers } = setup();
+    const pending = client.request('analyze', { text: 'x' }, { timeoutMs: 50 });
+    const [request] = workers[0].requests();
+
+    vi.advanceTimersByTime(50);
+    await expect(pending).rejects.toThrow('Timeout');
+    expect(workers[0].sent).toContainEqual({ id: request.id, type: 'cancel' });
+    expect(client.inFlight).toBe(0);
+  });
+
+  it('should send a cancel message when the signal aborts', async () => {
+    const { client, workers } = setup();
+    const controller = new AbortController();
+    const pending = client.request(
+      'analyze',
+      { text: 'x' },
+      { signal: controller.signal }
+    );
+    const [request] = workers[0].requests();
+
+    controller.abort();
+    await expect(pending).rejects.toThrow('Request cancelled');
+    expect(workers[0].sent).toContainEqual({ id: request.id, type: 'cancel' });
+
+    // A late response for the cancelled request is ignored
+    workers[0].reply(request.id, { keywords: [], summary: '', score: 0 });
+  });
+
+  it('should respawn a crashed worker and replay in-flight requests', async () => {
+    const { client, workers } = setup();
+    const pending = client.request('score', { text: 'x' });
+    const [request] = workers[0].requests();
+
+    workers[0].crash();
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].requests()).toEqual([request]);
+
+    workers[1].reply(request.id, { score: 50 });
+    await expect(pending).resolves.toMatchObject({ result: { score: 50 } });
+  });
+
+  it('should give up on a request that crashes the worker twice', async () => {
+    const { client, workers } = setup();
+    const pending = client.request('score', { text: 'x' });
+
+    workers[0].crash();
+    workers[1].crash('still broken');
+    await expect(pending).rejects.toThrow('Worker crashed: still broken');
+
+    // The next request gets a fresh worker
+    const next = client.request('score', { text: 'y' });
+    expect(workers).toHaveLength(3);
+    client.terminate();
+    await expect(next).rejects.toThrow('Worker terminated');
+  });
+
+  it('should reject pending requests on terminate', async () => {
+    const { client, workers } = setup();
+    const pending = client.request('score', { text: 'x' });
+
+    client.terminate();
+    await expect(pending).rejects.toThrow('Worker terminated');
+    expect(workers[0].terminated).toBe(true);
+  });
+});
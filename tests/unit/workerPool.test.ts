@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest';
+import type { WorkerLike } from '../../src/lib/workers/workerClient';
+import {
+  WorkerPool,
+  type WorkerKind,
+  type WorkerPoolSettings,
+} from '../../src/lib/workers/workerPool';
+
+class FakeWorker implements WorkerLike {
+  sent: Array<{ id: string; type: string; payload?: unknown }> = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor(public kind: WorkerKind) {}
+
+  postMessage(message: { id: string; type: string; payload?: unknown }) {
+    this.sent.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  requests() {
+    return this.sent.filter(message => message.type !== 'cancel');
+  }
+
+  // Answer the most recent request
+  replyLast(result: unknown) {
+    const request = this.requests()[this.requests().length - 1];
+    this.onmessage?.({
+      data: { id: request.id, status: 'ok', result, timing: { elapsedMs: 1 } },
+    } as MessageEvent);
+  }
+}
+
+function setup(settings: Partial<WorkerPoolSettings> = {}) {
+  const workers: FakeWorker[] = [];
+  const pool = new WorkerPool(kind => {
+    const worker = new FakeWorker(kind);
+    workers.push(worker);
+    return worker;
+  }, settings);
+  return { pool, workers };
+}
+
+// Let promise callbacks (dispatching the next job) run
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('WorkerPool', () => {
+  it('should reuse warm workers for later requests', async () => {
+    const { pool, workers } = setup();
+
+    const first = pool.run('transform', 'transform', { text: 'a' });
+    workers[0].replyLast({ text: 'A' });
+    await expect(first).resolves.toEqual({
+      result: { text: 'A' },
+      elapsedMs: 1,
+    });
+    await flush();
+
+    const second = pool.run('transform', 'transform', { text: 'b' });
+    workers[0].replyLast({ text: 'B' });
+    await second;
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].requests()).toHaveLength(2);
+  });
+
+  it('should run at most one request per worker and queue the rest', async () => {
+    const { pool, workers } = setup({ transformWorkers: 2 });
+
+    pool.run('transform', 'transform', { text: '1' });
+    pool.run('transform', 'transform', { text: '2' });
+    const third = pool.run('transform', 'transform', { text: '3' });
+
+    expect(workers).toHaveLength(2);
+    expect(pool.stats()).toEqual({
+      workers: { transform: 2, nlp: 0 },
+      busy: { transform: 2, nlp: 0 },
+      queued: { interactive: 1, background: 0 },
+    });
+
+    workers[1].replyLast({ text: '2' });
+    await flush();
+    expect(workers[1].requests()[1].payload).toEqual({ text: '3' });
+
+    workers[1].replyLast({ text: '3' });
+    await expect(third).resolves.toMatchObject({ result: { text: '3' } });
+  });
+
+  it('should keep transform and NLP workers separate', () => {
+    const { pool, workers } = setup();
+
+    pool.run('transform', 'transform', { text: 'a' });
+    pool.run('nlp', 'score', { text: 'b' });
+
+    expect(workers.map(worker => worker.kind)).toEqual(['transform', 'nlp']);
+    expect(workers[1].requests()[0].type).toBe('score');
+  });
+
+  it('should run interactive requests before queued background work', async () => {
+    const { pool, workers } = setup({ nlpWorkers: 1 });
+
+    pool.run('nlp', 'analyze', { text: 'running' }, { priority: 'background' });
+    pool.run('nlp', 'analyze', { text: 'bg' }, { priority: 'background' });
+    pool.run('nlp', 'score', { text: 'popup' }, { priority: 'interactive' });
+
+    workers[0].replyLast({});
+    await flush();
+    expect(workers[0].requests()[1].payload).toEqual({ text: 'popup' });
+
+    workers[0].replyLast({});
+    await flush();
+    expect(workers[0].requests()[2].payload).toEqual({ text: 'bg' });
+  });
+
+  it('should evict background work when the queue is full', async () => {
+    const { pool } = setup({ nlpWorkers: 1, maxQueueLength: 1 });
+
+    pool.run('nlp', 'analyze', { text: 'running' });
+    const background = pool.run(
+      'nlp',
+      'analyze',
+      { text: 'bg' },
+      { priority: 'background' }
+    );
+    const rejected = pool.run(
+      'nlp',
+      'analyze',
+      { text: 'bg2' },
+      { priority: 'background' }
+    );
+
+    await expect(rejected).rejects.toThrow('Worker queue is full');
+
+    pool.run('nlp', 'score', { text: 'popup' });
+    await expect(background).rejects.toThrow('Worker queue is full');
+    expect(pool.stats().queued).toEqual({ interactive: 1, background: 0 });
+  });
+
+  it('should drop aborted requests from the queue', async () => {
+    const { pool, workers } = setup({ transformWorkers: 1 });
+    const controller = new AbortController();
+
+    pool.run('transform', 'transform', { text: 'running' });
+    const queued = pool.run(
+      'transform',
+      'transform',
+      { text: 'queued' },
+      { signal: controller.signal }
+    );
+    controller.abort();
+
+    await expect(queued).rejects.toThrow('Request cancelled');
+    expect(pool.stats().queued.interactive).toBe(0);
+
+    workers[0].replyLast({});
+    await flush();
+    expect(workers[0].requests()).toHaveLength(1);
+  });
+
+  it('should grow and shrink with its settings', async () => {
+    const { pool, workers } = setup({ transformWorkers: 1 });
+
+    pool.run('transform', 'transform', { text: '1' });
+    pool.run('transform', 'transform', { text: '2' });
+    expect(workers).toHaveLength(1);
+
+    pool.configure({ transformWorkers: 2 });
+    expect(workers).toHaveLength(2);
+    expect(workers[1].requests()[0].payload).toEqual({ text: '2' });
+
+    // Busy workers retire once they finish
+    pool.configure({ transformWorkers: 1 });
+    expect(pool.stats().workers.transform).toBe(2);
+    workers[1].replyLast({});
+    await flush();
+    expect(workers[1].terminated).toBe(true);
+    expect(pool.stats().workers.transform).toBe(1);
+  });
+
+  it('should clamp pool sizes', () => {
+    const { pool } = setup({ transformWorkers: 0, nlpWorkers: 100 });
+
+    expect(pool.getSettings()).toMatchObject({
+      transformWorkers: 1,
+      nlpWorkers: 8,
+    });
+  });
+
+  it('should reject queued requests on terminate', async () => {
+    const { pool, workers } = setup({ transformWorkers: 1 });
+
+    const running = pool.run('transform', 'transform', { text: '1' });
+    const queued = pool.run('transform', 'transform', { text: '2' });
+    pool.terminate();
+
+    await expect(queued).rejects.toThrow('Worker pool terminated');
+    await expect(running).rejects.toThrow('Worker terminated');
+    expect(workers[0].terminated).toBe(true);
+  });
+});
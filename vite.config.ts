@@ -15,6 +15,7 @@ export default defineConfig({
       input: {
         dashboard: resolve(__dirname, 'src/ui/dashboard/index.html'),
         options: resolve(__dirname, 'src/ui/options/index.html'),
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
         serviceWorker: resolve(__dirname, 'src/background/serviceWorker.ts'),
         contentBootstrap: resolve(__dirname, 'src/content/contentBootstrap.ts'),
         transformWorker: resolve(__dirname, 'src/workers/transformWorker.ts'),